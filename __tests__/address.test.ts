@@ -4,7 +4,20 @@ import {
   formatAddress,
   AddressComponents,
   FormatAddressOptions,
-} from "../src/address.js";
+  getAddressTemplate,
+  validatePostalCode,
+  isValidPostalCode,
+  parseAddress,
+  COUNTRY,
+  US_STATE,
+  CA_PROVINCE,
+  AU_STATE,
+  MX_STATE,
+  normalizeCountry,
+  normalizeRegion,
+  standardizeStreet,
+  compareAddresses,
+} from "../src/address/index.js";
 
 describe("address", () => {
   describe("formatPostalCode", () => {
@@ -409,5 +422,898 @@ describe("address", () => {
       });
     });
   });
+
+  describe("getAddressTemplate", () => {
+    it("should return bundled templates by country code", () => {
+      expect(getAddressTemplate("DE")?.lines).toEqual([
+        "{street}",
+        "{postalCode} {city}",
+      ]);
+      expect(getAddressTemplate(" gb ")?.uppercase).toEqual([
+        "city",
+        "postalCode",
+      ]);
+      expect(getAddressTemplate("ZZ")).toBeUndefined();
+    });
+
+    it("should bundle templates for at least 30 countries", () => {
+      const countries = [
+        "US",
+        "CA",
+        "MX",
+        "BR",
+        "AR",
+        "GB",
+        "IE",
+        "DE",
+        "FR",
+        "IT",
+        "ES",
+        "PT",
+        "NL",
+        "BE",
+        "CH",
+        "AT",
+        "SE",
+        "NO",
+        "DK",
+        "FI",
+        "PL",
+        "CZ",
+        "TR",
+        "RU",
+        "IL",
+        "ZA",
+        "IN",
+        "JP",
+        "CN",
+        "KR",
+        "SG",
+        "AU",
+        "NZ",
+      ];
+      countries.forEach((country) => {
+        expect(getAddressTemplate(country)?.country).toBe(country);
+      });
+    });
+  });
+
+  describe("formatAddress with country templates", () => {
+    it("should use the US layout", () => {
+      const address: AddressComponents = {
+        street: ["123 Main St", "Apt 4B"],
+        city: "New York",
+        region: "NY",
+        postalCode: "10001",
+        country: "USA",
+      };
+      expect(formatAddress(address, { country: "US" })).toBe(
+        "123 Main St, Apt 4B, New York, NY 10001, USA"
+      );
+      expect(
+        formatAddress(address, { style: "multi-line", country: "us" })
+      ).toBe("123 Main St\nApt 4B\nNew York, NY 10001\nUSA");
+    });
+
+    it("should put the postal code before the city in Germany and France", () => {
+      expect(
+        formatAddress(
+          {
+            street: "Unter den Linden 77",
+            city: "Berlin",
+            postalCode: "10117",
+            country: "Germany",
+          },
+          { country: "DE" }
+        )
+      ).toBe("Unter den Linden 77, 10117 Berlin, Germany");
+      expect(
+        formatAddress(
+          {
+            street: "55 Rue du Faubourg Saint-Honoré",
+            city: "Paris",
+            postalCode: "75008",
+            country: "France",
+          },
+          { style: "multi-line", country: "FR" }
+        )
+      ).toBe("55 Rue du Faubourg Saint-Honoré\n75008 PARIS\nFrance");
+    });
+
+    it("should uppercase the post town and postcode in the UK", () => {
+      expect(
+        formatAddress(
+          {
+            street: "10 Downing Street",
+            city: "London",
+            postalCode: "sw1a 2aa",
+            country: "United Kingdom",
+          },
+          { style: "multi-line", country: "GB" }
+        )
+      ).toBe("10 Downing Street\nLONDON\nSW1A 2AA\nUnited Kingdom");
+    });
+
+    it("should write Japanese addresses from the largest area to the smallest", () => {
+      expect(
+        formatAddress(
+          {
+            street: "1-1 Chiyoda",
+            city: "Chiyoda-ku",
+            region: "Tokyo",
+            postalCode: "100-0001",
+            country: "Japan",
+          },
+          { style: "multi-line", country: "JP" }
+        )
+      ).toBe("〒100-0001\nTokyoChiyoda-ku\n1-1 Chiyoda\nJapan");
+      expect(
+        formatAddress(
+          { city: "Chiyoda-ku", region: "Tokyo" },
+          { country: "JP" }
+        )
+      ).toBe("TokyoChiyoda-ku");
+    });
+
+    it("should use other country layouts", () => {
+      expect(
+        formatAddress(
+          {
+            street: "111 Wellington St",
+            city: "Ottawa",
+            region: "on",
+            postalCode: "k1a 0a9",
+          },
+          { style: "multi-line", country: "CA" }
+        )
+      ).toBe("111 Wellington St\nOTTAWA ON  K1A 0A9");
+      expect(
+        formatAddress(
+          {
+            street: "Parliament Dr",
+            city: "Canberra",
+            region: "ACT",
+            postalCode: "2600",
+          },
+          { country: "AU" }
+        )
+      ).toBe("Parliament Dr, CANBERRA ACT 2600");
+      expect(
+        formatAddress(
+          {
+            street: "Via del Corso 1",
+            city: "Roma",
+            region: "rm",
+            postalCode: "00186",
+          },
+          { country: "IT" }
+        )
+      ).toBe("Via del Corso 1, 00186 ROMA RM");
+      expect(
+        formatAddress(
+          {
+            street: "Av. Paulista, 1578",
+            city: "São Paulo",
+            region: "SP",
+            postalCode: "01310-200",
+          },
+          { style: "multi-line", country: "BR" }
+        )
+      ).toBe("Av. Paulista, 1578\nSÃO PAULO-SP\n01310-200");
+      expect(
+        formatAddress(
+          { street: "Váci utca 1", city: "Budapest", postalCode: "1052" },
+          { style: "multi-line", country: "HU" }
+        )
+      ).toBe("Budapest\nVáci utca 1\n1052");
+    });
+
+    it("should drop separators next to missing components", () => {
+      expect(
+        formatAddress(
+          { city: "New York", postalCode: "10001" },
+          { country: "US" }
+        )
+      ).toBe("New York 10001");
+      expect(
+        formatAddress({ region: "NY", postalCode: "10001" }, { country: "US" })
+      ).toBe("NY 10001");
+      expect(formatAddress({ city: "Berlin" }, { country: "DE" })).toBe(
+        "Berlin"
+      );
+      expect(
+        formatAddress({ postalCode: "2600", region: "ACT" }, { country: "AU" })
+      ).toBe("ACT 2600");
+    });
+
+    it("should support the url-query and HTML formats", () => {
+      const address: AddressComponents = {
+        street: "Unter den Linden 77",
+        city: "Berlin",
+        postalCode: "10117",
+      };
+      expect(
+        formatAddress(address, { style: "url-query", country: "DE" })
+      ).toBe("Unter+den+Linden+77%2C+10117+Berlin");
+      expect(
+        formatAddress(address, {
+          style: "multi-line",
+          html: true,
+          country: "DE",
+        })
+      ).toBe("Unter den Linden 77<br />10117 Berlin");
+    });
+
+    it("should use the US layout for countries without a template", () => {
+      expect(
+        formatAddress(
+          {
+            street: "1 Main St",
+            city: "Springfield",
+            region: "XX",
+            postalCode: "123",
+          },
+          { country: "ZZ" }
+        )
+      ).toBe("1 Main St, Springfield, XX 123");
+    });
+
+    it("should return an empty string when all components are empty", () => {
+      expect(formatAddress({}, { country: "DE" })).toBe("");
+    });
+  });
+
+  describe("validatePostalCode", () => {
+    it("should normalize valid postal codes", () => {
+      expect(validatePostalCode("k1a0b1", "CA")).toEqual({
+        valid: true,
+        status: "valid",
+        value: "K1A 0B1",
+        country: "CA",
+        example: "K1A 0B1",
+      });
+      const value = (code: unknown, country: string) =>
+        validatePostalCode(code, country).value;
+      expect(value("90210", "US")).toBe("90210");
+      expect(value("123456789", "us")).toBe("12345-6789");
+      expect(value("12345 6789", "US")).toBe("12345-6789");
+      expect(value("sw1a2aa", "GB")).toBe("SW1A 2AA");
+      expect(value("M1 1AE", "GB")).toBe("M1 1AE");
+      expect(value("gir0aa", "GB")).toBe("GIR 0AA");
+      expect(value("d02x285", "IE")).toBe("D02 X285");
+      expect(value("1012ab", "NL")).toBe("1012 AB");
+      expect(value("10117", "DE")).toBe("10117");
+      expect(value(" 75008 ", "FR")).toBe("75008");
+      expect(value("2600", "AU")).toBe("2600");
+      expect(value("1000001", "JP")).toBe("100-0001");
+      expect(value("01310200", "BR")).toBe("01310-200");
+      expect(value("110 001", "IN")).toBe("110001");
+      expect(value("00950", "PL")).toBe("00-950");
+      expect(value("11351", "SE")).toBe("113 51");
+      expect(value("c1425abc", "AR")).toBe("C1425ABC");
+      expect(value(2600, "AU")).toBe("2600");
+    });
+
+    it("should report specific errors", () => {
+      const status = (code: unknown, country: string) =>
+        validatePostalCode(code, country).status;
+      expect(status("1234", "DE")).toBe("invalid-length");
+      expect(status("1234567", "US")).toBe("invalid-length");
+      expect(status("D1A 0B1", "CA")).toBe("invalid-format");
+      expect(status("ABCDE", "FR")).toBe("invalid-format");
+      expect(status("0123", "IN")).toBe("invalid-length");
+      expect(status("012345", "IN")).toBe("invalid-format");
+      expect(status("99000", "ES")).toBe("invalid-format");
+      expect(status("12345!", "US")).toBe("invalid-characters");
+      expect(status("12345", "ZZ")).toBe("unsupported-country");
+      expect(status("", "US")).toBe("empty");
+      expect(status(null, "US")).toBe("empty");
+    });
+
+    it("should include the country and an example in invalid results", () => {
+      expect(validatePostalCode("1234", "DE")).toEqual({
+        valid: false,
+        status: "invalid-length",
+        value: null,
+        country: "DE",
+        example: "10117",
+      });
+      expect(validatePostalCode("12345", "ZZ")).toEqual({
+        valid: false,
+        status: "unsupported-country",
+        value: null,
+        country: null,
+        example: null,
+      });
+    });
+  });
+
+  describe("isValidPostalCode", () => {
+    it("should check postal codes against the country format", () => {
+      expect(isValidPostalCode("90210", "US")).toBe(true);
+      expect(isValidPostalCode("9021", "US")).toBe(false);
+      expect(isValidPostalCode("1012 AB", "NL")).toBe(true);
+      expect(isValidPostalCode("0123 AB", "NL")).toBe(false);
+      expect(isValidPostalCode("12345", "ZZ")).toBe(false);
+    });
+  });
+
+  describe("formatPostalCode with country", () => {
+    it("should write valid codes in the country's standard form", () => {
+      expect(formatPostalCode("k1a0b1", { country: "CA" })).toBe("K1A 0B1");
+      expect(formatPostalCode("1000001", { country: "JP" })).toBe("100-0001");
+      expect(formatPostalCode("123456789", { country: "US" })).toBe(
+        "12345-6789"
+      );
+    });
+
+    it("should fall back to the default formatting for invalid codes", () => {
+      expect(formatPostalCode("ABC", { country: "CA" })).toBe("ABC");
+      expect(formatPostalCode("K1A 0B1", { country: "ZZ" })).toBe("K1A 0B1");
+      expect(
+        formatPostalCode("k1a 0b1", { country: "CA", format: "digits-only" })
+      ).toBe("k1a0b1");
+    });
+  });
+
+  describe("parseAddress", () => {
+    it("should parse US addresses written by formatAddress", () => {
+      expect(
+        parseAddress("123 Main St, Apt 4B, New York, NY 10001, USA")
+      ).toEqual({
+        street: ["123 Main St", "Apt 4B"],
+        city: "New York",
+        region: "NY",
+        postalCode: "10001",
+        country: "USA",
+        countryCode: "US",
+        unit: "Apt 4B",
+        confidence: 1,
+      });
+    });
+
+    it("should round-trip with the single-line format", () => {
+      const text = "123 Main St, Suite 200, Springfield, IL 62701-1234, USA";
+      expect(formatAddress(parseAddress(text)!)).toBe(text);
+      const german = "Unter den Linden 77, 10117 Berlin, Germany";
+      expect(formatAddress(parseAddress(german)!, { country: "DE" })).toBe(
+        german
+      );
+    });
+
+    it("should parse US addresses without commas", () => {
+      const address = parseAddress("123 Main St Apt 4B Springfield IL 62701");
+      expect(address?.street).toEqual(["123 Main St Apt 4B"]);
+      expect(address?.unit).toBe("Apt 4B");
+      expect(address?.city).toBe("Springfield");
+      expect(address?.region).toBe("IL");
+      expect(address?.postalCode).toBe("62701");
+    });
+
+    it("should recognize region names and unit designators", () => {
+      const address = parseAddress(
+        "500 Floral Park Blvd, Ste. 12, Albany, New York 12203"
+      );
+      expect(address?.street).toEqual(["500 Floral Park Blvd", "Ste. 12"]);
+      expect(address?.unit).toBe("Ste. 12");
+      expect(address?.city).toBe("Albany");
+      expect(address?.region).toBe("New York");
+      expect(parseAddress("77 Elm St #12, Austin, TX 78701")?.unit).toBe("#12");
+      expect(parseAddress("PO Box 123, Austin, TX 78701")?.street).toEqual([
+        "PO Box 123",
+      ]);
+    });
+
+    it("should use the layout of the country in the text", () => {
+      expect(
+        parseAddress("Unter den Linden 77, 10117 Berlin, Germany")
+      ).toMatchObject({
+        street: ["Unter den Linden 77"],
+        city: "Berlin",
+        region: null,
+        postalCode: "10117",
+        country: "Germany",
+        countryCode: "DE",
+      });
+      expect(
+        parseAddress("10 Downing Street, LONDON, SW1A 2AA, United Kingdom")
+      ).toMatchObject({
+        street: ["10 Downing Street"],
+        city: "LONDON",
+        postalCode: "SW1A 2AA",
+        countryCode: "GB",
+      });
+      expect(
+        parseAddress("111 Wellington St, Ottawa ON K1A 0A9, Canada")
+      ).toMatchObject({
+        city: "Ottawa",
+        region: "ON",
+        postalCode: "K1A 0A9",
+        countryCode: "CA",
+      });
+      expect(
+        parseAddress("Via del Corso 1, 00186 ROMA RM, Italy")
+      ).toMatchObject({
+        city: "ROMA",
+        region: "RM",
+        postalCode: "00186",
+        countryCode: "IT",
+      });
+      expect(
+        parseAddress("Calle Mayor 1, 28013 Madrid, Madrid, Spain")
+      ).toMatchObject({
+        city: "Madrid",
+        region: "Madrid",
+        postalCode: "28013",
+      });
+      expect(
+        parseAddress("Av. Paulista 1578, São Paulo-SP, 01310-200, Brazil")
+      ).toMatchObject({
+        street: ["Av. Paulista 1578"],
+        city: "São Paulo",
+        region: "SP",
+        postalCode: "01310-200",
+      });
+      expect(
+        parseAddress("1-1 Chiyoda, Chiyoda-ku, Tokyo 100-0001, Japan")
+      ).toMatchObject({
+        street: ["1-1 Chiyoda"],
+        city: "Chiyoda-ku",
+        region: "Tokyo",
+        postalCode: "100-0001",
+        countryCode: "JP",
+      });
+    });
+
+    it("should use the country option when the text does not name one", () => {
+      expect(
+        parseAddress("10 Downing Street, London SW1A 2AA", { country: "GB" })
+      ).toMatchObject({
+        city: "London",
+        postalCode: "SW1A 2AA",
+        country: null,
+        countryCode: "GB",
+        confidence: 1,
+      });
+    });
+
+    it("should accept newlines as separators", () => {
+      expect(
+        parseAddress("123 Main St\nApt 4B\nNew York, NY 10001")
+      ).toMatchObject({
+        street: ["123 Main St", "Apt 4B"],
+        city: "New York",
+        region: "NY",
+        postalCode: "10001",
+      });
+    });
+
+    it("should lower the confidence for incomplete or uncertain parses", () => {
+      const full = parseAddress("123 Main St, Springfield, IL 62701, USA")!;
+      const assumedCountry = parseAddress(
+        "123 Main St, Springfield, IL 62701"
+      )!;
+      const partial = parseAddress("Springfield, IL")!;
+      const text = parseAddress("hello world")!;
+      expect(full.confidence).toBe(1);
+      expect(assumedCountry.confidence).toBe(0.9);
+      expect(partial.confidence).toBeLessThan(assumedCountry.confidence);
+      expect(text.confidence).toBeLessThan(partial.confidence);
+      expect(text.confidence).toBeGreaterThanOrEqual(0);
+    });
+
+    it("should return null for empty text", () => {
+      expect(parseAddress("")).toBeNull();
+      expect(parseAddress("  ,  ")).toBeNull();
+      expect(parseAddress(null)).toBeNull();
+      expect(parseAddress(undefined)).toBeNull();
+    });
+  });
+
+  describe("COUNTRY", () => {
+    it("should list the ISO 3166-1 countries by alpha-2 code", () => {
+      expect(COUNTRY.options).toHaveLength(249);
+      expect(COUNTRY.getLabel("DE")).toBe("Germany");
+      expect(COUNTRY.enumMap.US).toMatchObject({
+        value: "US",
+        label: "United States",
+        alpha3: "USA",
+        numeric: "840",
+      });
+      expect(COUNTRY.enumMap.AF.numeric).toBe("004");
+      expect(COUNTRY.isValueValid("ZZ")).toBe(false);
+    });
+
+    it("should have unique alpha-3 and numeric codes", () => {
+      const alpha3 = COUNTRY.options.map((option) => option.alpha3);
+      const numeric = COUNTRY.options.map((option) => option.numeric);
+      expect(new Set(alpha3).size).toBe(alpha3.length);
+      expect(new Set(numeric).size).toBe(numeric.length);
+      alpha3.forEach((code) => expect(code).toMatch(/^[A-Z]{3}$/));
+      numeric.forEach((code) => expect(code).toMatch(/^\d{3}$/));
+    });
+  });
+
+  describe("normalizeCountry", () => {
+    it("should accept names, codes and common alternative names", () => {
+      expect(normalizeCountry("United States")).toBe("US");
+      expect(normalizeCountry("United States of America")).toBe("US");
+      expect(normalizeCountry("usa")).toBe("US");
+      expect(normalizeCountry("U.S.")).toBe("US");
+      expect(normalizeCountry("gb")).toBe("GB");
+      expect(normalizeCountry("U.K.")).toBe("GB");
+      expect(normalizeCountry("England")).toBe("GB");
+      expect(normalizeCountry("Deutschland")).toBe("DE");
+      expect(normalizeCountry("Ivory Coast")).toBe("CI");
+    });
+
+    it("should ignore case, accents and punctuation", () => {
+      expect(normalizeCountry("MÉXICO")).toBe("MX");
+      expect(normalizeCountry("mexico")).toBe("MX");
+      expect(normalizeCountry("Cote d'Ivoire")).toBe("CI");
+      expect(normalizeCountry("Guinea Bissau")).toBe("GW");
+      expect(normalizeCountry("Bosnia & Herzegovina")).toBe("BA");
+      expect(normalizeCountry("  canada  ")).toBe("CA");
+    });
+
+    it("should accept numeric codes with or without leading zeros", () => {
+      expect(normalizeCountry("840")).toBe("US");
+      expect(normalizeCountry(826)).toBe("GB");
+      expect(normalizeCountry("036")).toBe("AU");
+      expect(normalizeCountry(36)).toBe("AU");
+    });
+
+    it("should write the country in the requested format", () => {
+      expect(normalizeCountry("Germany", { format: "alpha2" })).toBe("DE");
+      expect(normalizeCountry("Germany", { format: "alpha3" })).toBe("DEU");
+      expect(normalizeCountry("Germany", { format: "numeric" })).toBe("276");
+      expect(normalizeCountry("DEU", { format: "name" })).toBe("Germany");
+      expect(normalizeCountry("UK", { format: "name" })).toBe("United Kingdom");
+    });
+
+    it("should return the default value for unrecognized countries", () => {
+      expect(normalizeCountry("Atlantis")).toBeNull();
+      expect(normalizeCountry("ZZ")).toBeNull();
+      expect(normalizeCountry("999")).toBeNull();
+      expect(normalizeCountry("")).toBeNull();
+      expect(normalizeCountry(null)).toBeNull();
+      expect(normalizeCountry(undefined, { defaultValue: "" })).toBe("");
+      expect(normalizeCountry("Atlantis", { defaultValue: "Unknown" })).toBe(
+        "Unknown"
+      );
+    });
+  });
+
+  describe("region enums", () => {
+    it("should list the ISO 3166-2 subdivisions", () => {
+      expect(US_STATE.options).toHaveLength(57);
+      expect(CA_PROVINCE.options).toHaveLength(13);
+      expect(AU_STATE.options).toHaveLength(8);
+      expect(MX_STATE.options).toHaveLength(32);
+      expect(US_STATE.enumMap.CA).toMatchObject({
+        value: "CA",
+        label: "California",
+        isoCode: "US-CA",
+      });
+      expect(CA_PROVINCE.getLabel("QC")).toBe("Quebec");
+      expect(AU_STATE.enumMap.NSW.isoCode).toBe("AU-NSW");
+      expect(MX_STATE.getLabel("JAL")).toBe("Jalisco");
+    });
+
+    it("should prefix every ISO code with its country", () => {
+      const enums = [
+        ["US", US_STATE.options],
+        ["CA", CA_PROVINCE.options],
+        ["AU", AU_STATE.options],
+        ["MX", MX_STATE.options],
+      ] as const;
+      enums.forEach(([country, options]) => {
+        options.forEach((option) => {
+          expect(option.isoCode).toBe(`${country}-${option.value}`);
+        });
+      });
+    });
+  });
+
+  describe("normalizeRegion", () => {
+    it("should accept names, abbreviations and codes", () => {
+      expect(normalizeRegion("California")).toBe("CA");
+      expect(normalizeRegion("CA")).toBe("CA");
+      expect(normalizeRegion("ca")).toBe("CA");
+      expect(normalizeRegion("Calif.")).toBe("CA");
+      expect(normalizeRegion("calif")).toBe("CA");
+      expect(normalizeRegion("US-CA")).toBe("CA");
+      expect(normalizeRegion("N.Y.")).toBe("NY");
+      expect(normalizeRegion("district of columbia")).toBe("DC");
+    });
+
+    it("should use the country's regions", () => {
+      expect(normalizeRegion("Ontario", { country: "CA" })).toBe("ON");
+      expect(normalizeRegion("Québec", { country: "Canada" })).toBe("QC");
+      expect(normalizeRegion("Que.", { country: "CAN" })).toBe("QC");
+      expect(normalizeRegion("New South Wales", { country: "AU" })).toBe("NSW");
+      expect(
+        normalizeRegion("wa", { country: "Australia", format: "name" })
+      ).toBe("Western Australia");
+      expect(normalizeRegion("wa", { format: "name" })).toBe("Washington");
+      expect(normalizeRegion("Nuevo Leon", { country: "MX" })).toBe("NLE");
+      expect(
+        normalizeRegion("CDMX", { country: "Mexico", format: "name" })
+      ).toBe("Ciudad de México");
+    });
+
+    it("should read the country from ISO 3166-2 codes", () => {
+      expect(normalizeRegion("CA-ON", { format: "name" })).toBe("Ontario");
+      expect(normalizeRegion("au-vic", { format: "name" })).toBe("Victoria");
+      expect(normalizeRegion("MX-JAL", { country: "US" })).toBe("JAL");
+      expect(normalizeRegion("US-ZZ")).toBeNull();
+    });
+
+    it("should write the region in the requested format", () => {
+      expect(normalizeRegion("California", { format: "code" })).toBe("CA");
+      expect(normalizeRegion("California", { format: "iso" })).toBe("US-CA");
+      expect(normalizeRegion("CA", { format: "name" })).toBe("California");
+      expect(normalizeRegion("Jalisco", { country: "MX", format: "iso" })).toBe(
+        "MX-JAL"
+      );
+    });
+
+    it("should return the default value for unrecognized regions", () => {
+      expect(normalizeRegion("Ontario")).toBeNull();
+      expect(normalizeRegion("Bavaria", { country: "DE" })).toBeNull();
+      expect(normalizeRegion("CA", { country: "Atlantis" })).toBeNull();
+      expect(normalizeRegion("")).toBeNull();
+      expect(normalizeRegion(null)).toBeNull();
+      expect(
+        normalizeRegion("Calif", { country: "CA", defaultValue: "Calif" })
+      ).toBe("Calif");
+    });
+  });
+
+  describe("formatAddress with region and country formats", () => {
+    const address: AddressComponents = {
+      street: "1 Infinite Loop",
+      city: "Cupertino",
+      region: "Calif.",
+      postalCode: "95014",
+      country: "United States",
+    };
+
+    it("should write regions and countries as codes", () => {
+      expect(
+        formatAddress(address, {
+          regionFormat: "code",
+          countryFormat: "alpha2",
+        })
+      ).toBe("1 Infinite Loop, Cupertino, CA 95014, US");
+      expect(
+        formatAddress(address, { regionFormat: "iso", countryFormat: "alpha3" })
+      ).toBe("1 Infinite Loop, Cupertino, US-CA 95014, USA");
+    });
+
+    it("should write regions and countries as names", () => {
+      expect(
+        formatAddress(
+          { ...address, region: "CA", country: "USA" },
+          { regionFormat: "name", countryFormat: "name" }
+        )
+      ).toBe("1 Infinite Loop, Cupertino, California 95014, United States");
+    });
+
+    it("should leave components as given without formats", () => {
+      expect(formatAddress(address)).toBe(
+        "1 Infinite Loop, Cupertino, Calif. 95014, United States"
+      );
+      expect(formatAddress(address, { countryFormat: "alpha3" })).toBe(
+        "1 Infinite Loop, Cupertino, Calif. 95014, USA"
+      );
+    });
+
+    it("should look up regions in the layout country", () => {
+      expect(
+        formatAddress(
+          {
+            street: "24 Sussex Dr",
+            city: "Ottawa",
+            region: "Ontario",
+            postalCode: "K1M 1M4",
+            country: "Canada",
+          },
+          {
+            style: "multi-line",
+            country: "CA",
+            regionFormat: "code",
+            countryFormat: "alpha2",
+          }
+        )
+      ).toBe("24 Sussex Dr\nOTTAWA ON  K1M 1M4\nCA");
+    });
+
+    it("should write unrecognized regions and countries as given", () => {
+      expect(
+        formatAddress(
+          { city: "Munich", region: "Bavaria", country: "Atlantis" },
+          { regionFormat: "code", countryFormat: "alpha2" }
+        )
+      ).toBe("Munich, Bavaria, Atlantis");
+    });
+
+    it("should normalize formatCityStateCountry components", () => {
+      expect(
+        formatCityStateCountry(
+          { city: "Toronto", region: "ON", country: "CA" },
+          { regionFormat: "name", countryFormat: "name" }
+        )
+      ).toBe("Toronto, Ontario, Canada");
+      expect(
+        formatCityStateCountry(
+          { city: "Los Angeles", region: "Calif.", country: "USA" },
+          { regionFormat: "code", countryFormat: "alpha2" }
+        )
+      ).toBe("Los Angeles, CA, US");
+    });
+  });
+
+  describe("standardizeStreet", () => {
+    it("should abbreviate directionals, suffixes and unit designators", () => {
+      expect(standardizeStreet("123 North Main Street Apartment 4")).toBe(
+        "123 N MAIN ST APT 4"
+      );
+      expect(standardizeStreet("456 Elm Avenue, Suite #200")).toBe(
+        "456 ELM AVE STE 200"
+      );
+      expect(standardizeStreet("1 Park Avenue South Floor 3")).toBe(
+        "1 PARK AVE S FL 3"
+      );
+      expect(standardizeStreet("789 Oak Boulevard South West")).toBe(
+        "789 OAK BLVD SW"
+      );
+      expect(standardizeStreet("12 Sunset Parkway Northeast")).toBe(
+        "12 SUNSET PKWY NE"
+      );
+    });
+
+    it("should remove punctuation and keep already standard lines", () => {
+      expect(standardizeStreet("500 E. 5th St., Apt. #3B")).toBe(
+        "500 E 5TH ST APT 3B"
+      );
+      expect(standardizeStreet("123 N MAIN ST APT 4")).toBe(
+        "123 N MAIN ST APT 4"
+      );
+      expect(standardizeStreet("123 1/2 Main St - Unit 5")).toBe(
+        "123 1/2 MAIN ST UNIT 5"
+      );
+    });
+
+    it("should keep directionals and suffixes that are the street's name", () => {
+      expect(standardizeStreet("123 North Street")).toBe("123 NORTH ST");
+      expect(standardizeStreet("10 Avenue Road")).toBe("10 AVENUE RD");
+      expect(standardizeStreet("100 Key Lane")).toBe("100 KEY LN");
+      expect(standardizeStreet("123 West")).toBe("123 WEST");
+    });
+
+    it("should write unknown designators as # and keep designators without numbers", () => {
+      expect(standardizeStreet(["1 Park Place", "#12"])).toBe("1 PARK PL # 12");
+      expect(standardizeStreet("123 Main St Rear")).toBe("123 MAIN ST REAR");
+      expect(standardizeStreet("9 Harbor Drive Penthouse")).toBe(
+        "9 HARBOR DR PH"
+      );
+    });
+
+    it("should standardize PO boxes", () => {
+      expect(standardizeStreet("P.O. Box 42")).toBe("PO BOX 42");
+      expect(standardizeStreet("post office box 7")).toBe("PO BOX 7");
+    });
+
+    it("should return the default value for empty streets", () => {
+      expect(standardizeStreet("")).toBeNull();
+      expect(standardizeStreet(" , ")).toBeNull();
+      expect(standardizeStreet(null)).toBeNull();
+      expect(standardizeStreet([], { defaultValue: "" })).toBe("");
+    });
+  });
+
+  describe("compareAddresses", () => {
+    const address: AddressComponents = {
+      street: "123 North Main Street Apartment 4",
+      city: "Springfield",
+      region: "Illinois",
+      postalCode: "62701",
+    };
+
+    it("should match addresses written differently", () => {
+      expect(
+        compareAddresses(address, {
+          street: ["123 N Main St", "#4"],
+          city: "SPRINGFIELD",
+          region: "IL",
+          postalCode: "62701-1234",
+          country: "USA",
+        })
+      ).toBe(true);
+      expect(
+        compareAddresses(address, {
+          ...address,
+          street: "123 N. Main St., Apt. 4",
+        })
+      ).toBe(true);
+    });
+
+    it("should not match different streets, units or postal codes", () => {
+      expect(
+        compareAddresses(address, { ...address, street: "125 N Main St Apt 4" })
+      ).toBe(false);
+      expect(
+        compareAddresses(address, { ...address, street: "123 N Main St Apt 5" })
+      ).toBe(false);
+      expect(
+        compareAddresses(address, { ...address, street: "123 S Main St Apt 4" })
+      ).toBe(false);
+      expect(
+        compareAddresses(address, { ...address, postalCode: "62702" })
+      ).toBe(false);
+      expect(
+        compareAddresses(
+          { ...address, postalCode: "62701-1111" },
+          { ...address, postalCode: "62701-2222" }
+        )
+      ).toBe(false);
+    });
+
+    it("should compare the city and region without postal codes", () => {
+      const portland = { street: "1 Elm St", city: "Portland", region: "OR" };
+      expect(
+        compareAddresses(portland, {
+          ...portland,
+          city: "PORTLAND",
+          region: "Oregon",
+        })
+      ).toBe(true);
+      expect(compareAddresses(portland, { ...portland, region: "ME" })).toBe(
+        false
+      );
+      expect(
+        compareAddresses(portland, { ...portland, postalCode: "97201" })
+      ).toBe(true);
+    });
+
+    it("should compare countries when both addresses name one", () => {
+      const berlin = {
+        street: "Unter den Linden 77",
+        city: "Berlin",
+        postalCode: "10117",
+      };
+      expect(
+        compareAddresses(
+          { ...berlin, country: "Germany" },
+          { ...berlin, country: "DE" }
+        )
+      ).toBe(true);
+      expect(
+        compareAddresses(
+          { ...berlin, country: "Germany" },
+          { ...berlin, country: "Austria" }
+        )
+      ).toBe(false);
+      expect(compareAddresses({ ...berlin, country: "Germany" }, berlin)).toBe(
+        true
+      );
+    });
+
+    it("should compare postal codes in the country's form", () => {
+      const ottawa = {
+        street: "24 Sussex Drive",
+        city: "Ottawa",
+        region: "ON",
+      };
+      expect(
+        compareAddresses(
+          { ...ottawa, postalCode: "k1m1m4" },
+          { ...ottawa, postalCode: "K1M 1M4" },
+          { country: "CA" }
+        )
+      ).toBe(true);
+    });
+  });
 });
 
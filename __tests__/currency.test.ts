@@ -1,4 +1,16 @@
-import { toCurrency } from "../src/currency.js";
+import {
+  toCurrency,
+  CURRENCY,
+  getCurrencyInfo,
+  parseCurrency,
+  createCurrencyConverter,
+  formatCurrencyColumn,
+  ExchangeRateProvider,
+  createMoney,
+  toMoney,
+  isMoney,
+  CurrencyMismatchError,
+} from "../src/currency/index.js";
 
 describe("currency", () => {
   describe("toCurrency", () => {
@@ -10,11 +22,33 @@ describe("currency", () => {
       it("should format with custom currency", () => {
         expect(toCurrency(1234.56, { currency: "EUR" })).toBe("€1,234.56");
         expect(toCurrency(1234.56, { currency: "GBP" })).toBe("£1,234.56");
-        expect(toCurrency(1234.56, { currency: "JPY" })).toBe("¥1,234.56");
+        expect(toCurrency(1234.56, { currency: "JPY" })).toBe("¥1,235");
+      });
+
+      it("should use the currency's minor units", () => {
+        expect(toCurrency(1234, { currency: "JPY" })).toBe("¥1,234");
+        expect(toCurrency(1.5, { currency: "KWD" })).toBe("KWD\u00a01.500");
+        expect(toCurrency(1.2345, { currency: "BHD" })).toBe("BHD\u00a01.235");
+        expect(
+          toCurrency(1234.5, { currency: "JPY", grain: "cents-optional" })
+        ).toBe("¥1,235");
+        expect(
+          toCurrency(1.5, { currency: "KWD", grain: "cents-optional" })
+        ).toBe("KWD\u00a01.500");
+        expect(
+          toCurrency(1234.56, { currency: "JPY", maxDecimalPlaces: 2 })
+        ).toBe("¥1,234.56");
       });
 
       it("should default to $ for unknown currency codes", () => {
         expect(toCurrency(1234.56, { currency: "XYZ" })).toBe("$1,234.56");
+        expect(toCurrency(-20, { currency: "XYZ" })).toBe("-$20.00");
+        expect(
+          toCurrency(-20, { currency: "XYZ", signDisplay: "parentheses" })
+        ).toBe("($20.00)");
+        expect(toCurrency(20, { currency: "XYZ", locale: "de-DE" })).toBe(
+          "20,00\u00a0$"
+        );
       });
     });
 
@@ -108,6 +142,46 @@ describe("currency", () => {
       });
     });
 
+    describe("grain: accounting", () => {
+      it("should show negatives in parentheses", () => {
+        expect(toCurrency(-1234.56, { grain: "accounting" })).toBe(
+          "($1,234.56)"
+        );
+        expect(toCurrency(1234.5, { grain: "accounting" })).toBe("$1,234.50");
+        expect(
+          toCurrency(-5, { grain: "accounting", signDisplay: "auto" })
+        ).toBe("-$5.00");
+      });
+
+      it("should show a dash for zero", () => {
+        expect(toCurrency(0, { grain: "accounting" })).toBe("\u2014");
+        expect(toCurrency(-0.001, { grain: "accounting" })).toBe("\u2014");
+        expect(toCurrency(0.005, { grain: "accounting" })).toBe("$0.01");
+        expect(toCurrency(null, { grain: "accounting" })).toBe("--");
+      });
+
+      it("should pad to a width with the symbol at the edge", () => {
+        expect(toCurrency(1234.56, { grain: "accounting", width: 14 })).toBe(
+          "$    1,234.56 "
+        );
+        expect(toCurrency(-1234.56, { grain: "accounting", width: 14 })).toBe(
+          "$   (1,234.56)"
+        );
+        expect(toCurrency(0, { grain: "accounting", width: 6 })).toBe(
+          "$   \u2014 "
+        );
+        expect(toCurrency(5, { width: 8 })).toBe("   $5.00");
+        expect(toCurrency(1234.56, { width: 4 })).toBe("$1,234.56");
+      });
+
+      it("should limit the width to 1000 characters", () => {
+        expect(toCurrency(5, { grain: "accounting", width: 1e9 })).toHaveLength(
+          1000
+        );
+        expect(toCurrency(5, { width: Infinity })).toHaveLength(1000);
+      });
+    });
+
     describe("negative numbers", () => {
       it("should use dash by default", () => {
         expect(toCurrency(-100)).toBe("-$100.00");
@@ -210,4 +284,566 @@ describe("currency", () => {
       });
     });
   });
+
+  describe("createMoney", () => {
+    it("should store whole minor units with the currency", () => {
+      const money = createMoney(1999, "usd");
+      expect(money.minorUnits).toBe(1999);
+      expect(money.currency).toBe("USD");
+      expect(money.decimalPlaces).toBe(2);
+      expect(money.toNumber()).toBe(19.99);
+    });
+
+    it("should use the currency's minor units", () => {
+      expect(createMoney(500, "JPY").toNumber()).toBe(500);
+      expect(createMoney(1234, "KWD").toNumber()).toBe(1.234);
+      expect(createMoney(1234, "KWD").decimalPlaces).toBe(3);
+    });
+
+    it("should be immutable", () => {
+      const money = createMoney(100);
+      expect(Object.isFrozen(money)).toBe(true);
+      expect(money.add(createMoney(1)).minorUnits).toBe(101);
+      expect(money.minorUnits).toBe(100);
+    });
+
+    it("should reject fractional amounts and invalid currencies", () => {
+      expect(() => createMoney(1.5)).toThrow(Error);
+      expect(() => createMoney(Number.NaN)).toThrow(Error);
+      expect(() => createMoney(100, "DOLLARS")).toThrow(
+        "Invalid currency code"
+      );
+    });
+  });
+
+  describe("toMoney", () => {
+    it("should convert major units exactly", () => {
+      expect(toMoney(19.99)?.minorUnits).toBe(1999);
+      expect(toMoney("19.99")?.minorUnits).toBe(1999);
+      expect(toMoney("1,234.56")?.minorUnits).toBe(123456);
+      expect(toMoney(-0.07)?.minorUnits).toBe(-7);
+      expect(toMoney("5")?.minorUnits).toBe(500);
+      expect(toMoney(".5")?.minorUnits).toBe(50);
+    });
+
+    it("should round extra decimals half away from zero", () => {
+      expect(toMoney("1.005")?.minorUnits).toBe(101);
+      expect(toMoney(1.005)?.minorUnits).toBe(101);
+      expect(toMoney("-1.005")?.minorUnits).toBe(-101);
+      expect(toMoney("1.0049")?.minorUnits).toBe(100);
+      expect(toMoney(1234.5, "JPY")?.minorUnits).toBe(1235);
+      expect(toMoney("0.0001")?.isZero()).toBe(true);
+    });
+
+    it("should read exponent notation", () => {
+      expect(toMoney(1e21)).toBeNull();
+      expect(toMoney("1.5e3")?.minorUnits).toBe(150000);
+      expect(toMoney(1e-7)?.minorUnits).toBe(0);
+    });
+
+    it("should return null for non-numeric values", () => {
+      expect(toMoney("abc")).toBeNull();
+      expect(toMoney("")).toBeNull();
+      expect(toMoney(".")).toBeNull();
+      expect(toMoney(null)).toBeNull();
+      expect(toMoney(undefined)).toBeNull();
+      expect(toMoney(Number.POSITIVE_INFINITY)).toBeNull();
+    });
+
+    it("should return null for exponents out of range", () => {
+      expect(toMoney("1e-9999999999")).toBeNull();
+      expect(toMoney("1e9999999999")).toBeNull();
+      expect(toMoney("1e-1000")?.minorUnits).toBe(0);
+    });
+
+    it("should only read commas as thousands separators", () => {
+      expect(toMoney("1,5", "EUR")).toBeNull();
+      expect(toMoney("1,2,3")).toBeNull();
+      expect(toMoney("12,34.5")).toBeNull();
+      expect(toMoney("1.234,5")).toBeNull();
+      expect(toMoney("1,234,567.8")?.minorUnits).toBe(123456780);
+      expect(toMoney("-1,000")?.minorUnits).toBe(-100000);
+    });
+  });
+
+  describe("Money arithmetic", () => {
+    it("should add and subtract without floating-point errors", () => {
+      const sum = toMoney(0.1)!.add(toMoney(0.2)!);
+      expect(sum.toNumber()).toBe(0.3);
+      const lines = [19.99, 5.01, 0.1, 0.2, 74.7].map((line) => toMoney(line)!);
+      expect(createMoney(0).add(...lines).minorUnits).toBe(10000);
+      expect(
+        toMoney(10)!.subtract(toMoney(0.01)!, toMoney(0.99)!).toNumber()
+      ).toBe(9);
+    });
+
+    it("should multiply and round to whole minor units", () => {
+      expect(toMoney(19.99)!.multiply(3).minorUnits).toBe(5997);
+      expect(toMoney(10)!.multiply(0.0825).minorUnits).toBe(83);
+      expect(toMoney(0.05)!.multiply(0.5).minorUnits).toBe(3);
+      expect(toMoney(-0.05)!.multiply(0.5).minorUnits).toBe(-3);
+    });
+
+    it("should allocate without losing minor units", () => {
+      const parts = toMoney(100)!.allocate(3);
+      expect(parts.map((part) => part.minorUnits)).toEqual([3334, 3333, 3333]);
+      expect(createMoney(0).add(...parts).minorUnits).toBe(10000);
+      expect(
+        toMoney(0.05)!
+          .allocate([3, 7])
+          .map((part) => part.minorUnits)
+      ).toEqual([2, 3]);
+      expect(
+        toMoney(-1)!
+          .allocate(3)
+          .map((part) => part.minorUnits)
+      ).toEqual([-34, -33, -33]);
+      expect(
+        toMoney(1)!
+          .allocate([1, 0, 1])
+          .map((part) => part.minorUnits)
+      ).toEqual([50, 0, 50]);
+    });
+
+    it("should reject invalid allocation ratios", () => {
+      expect(() => toMoney(1)!.allocate(0)).toThrow(Error);
+      expect(() => toMoney(1)!.allocate([])).toThrow(Error);
+      expect(() => toMoney(1)!.allocate([0, 0])).toThrow(Error);
+      expect(() => toMoney(1)!.allocate([1, -1])).toThrow(Error);
+    });
+
+    it("should compare amounts", () => {
+      const five = toMoney(5)!;
+      expect(five.compare(toMoney(4.99)!)).toBe(1);
+      expect(five.compare(toMoney(5.01)!)).toBe(-1);
+      expect(five.compare(createMoney(500))).toBe(0);
+      expect(five.equals(createMoney(500))).toBe(true);
+      expect(five.equals(createMoney(500, "EUR"))).toBe(false);
+      expect(createMoney(0).isZero()).toBe(true);
+      expect(createMoney(-1).isNegative()).toBe(true);
+      expect(createMoney(1).isPositive()).toBe(true);
+    });
+
+    it("should throw a CurrencyMismatchError when mixing currencies", () => {
+      const dollars = toMoney(5, "USD")!;
+      const euros = toMoney(5, "EUR")!;
+      expect(() => dollars.add(euros)).toThrow(CurrencyMismatchError);
+      expect(() => dollars.subtract(euros)).toThrow(CurrencyMismatchError);
+      expect(() => dollars.compare(euros)).toThrow(CurrencyMismatchError);
+      try {
+        dollars.add(euros);
+      } catch (error) {
+        expect(error).toBeInstanceOf(Error);
+        expect((error as CurrencyMismatchError).name).toBe(
+          "CurrencyMismatchError"
+        );
+        expect((error as CurrencyMismatchError).expected).toBe("USD");
+        expect((error as CurrencyMismatchError).actual).toBe("EUR");
+      }
+    });
+
+    it("should format with toCurrency", () => {
+      expect(toMoney(1234.5)!.format()).toBe("$1,234.50");
+      expect(toMoney(1234.5, "EUR")!.format({ grain: "whole" })).toBe("€1,235");
+      expect(toMoney(0.1)!.add(toMoney(-0.1)!).format()).toBe("$0.00");
+    });
+  });
+
+  describe("isMoney", () => {
+    it("should recognize money values", () => {
+      expect(isMoney(toMoney(5))).toBe(true);
+      expect(isMoney({ minorUnits: 500, currency: "USD" })).toBe(false);
+      expect(isMoney(5)).toBe(false);
+      expect(isMoney(null)).toBe(false);
+    });
+  });
+
+  describe("CURRENCY", () => {
+    it("should include ISO 4217 metadata", () => {
+      expect(CURRENCY.getLabel("EUR")).toBe("Euro");
+      expect(CURRENCY.enumMap.USD.numeric).toBe("840");
+      expect(CURRENCY.enumMap.JPY.minorUnits).toBe(0);
+      expect(CURRENCY.enumMap.KWD.minorUnits).toBe(3);
+      expect(CURRENCY.isValueValid("XYZ")).toBe(false);
+    });
+
+    it("should have unique 3-digit numeric codes", () => {
+      const numerics = CURRENCY.options.map((option) => option.numeric);
+      expect(new Set(numerics).size).toBe(numerics.length);
+      numerics.forEach((numeric) => expect(numeric).toMatch(/^\d{3}$/));
+    });
+  });
+
+  describe("getCurrencyInfo", () => {
+    it("should look up currencies by alphabetic code", () => {
+      expect(getCurrencyInfo("CAD")).toEqual({
+        code: "CAD",
+        numeric: "124",
+        minorUnits: 2,
+        symbol: "CA$",
+        narrowSymbol: "$",
+        name: "Canadian Dollar",
+      });
+      expect(getCurrencyInfo(" jpy ")?.minorUnits).toBe(0);
+      expect(getCurrencyInfo("OMR")?.minorUnits).toBe(3);
+    });
+
+    it("should look up currencies by numeric code", () => {
+      expect(getCurrencyInfo("978")?.code).toBe("EUR");
+      expect(getCurrencyInfo("392")?.code).toBe("JPY");
+    });
+
+    it("should return undefined for unknown currencies", () => {
+      expect(getCurrencyInfo("XYZ")).toBeUndefined();
+      expect(getCurrencyInfo("")).toBeUndefined();
+    });
+  });
+
+  describe("Money minor units", () => {
+    it("should use ISO 4217 minor units where they differ from Intl", () => {
+      expect(createMoney(1234, "IQD").decimalPlaces).toBe(3);
+      expect(createMoney(1234, "RSD").toNumber()).toBe(12.34);
+      expect(toMoney("1.5", "AFN")?.minorUnits).toBe(150);
+    });
+  });
+
+  describe("parseCurrency", () => {
+    it("should parse symbols and ISO codes", () => {
+      expect(parseCurrency("$1,234.56")).toEqual({
+        amount: 1234.56,
+        currency: "USD",
+      });
+      expect(parseCurrency("€19.99")).toEqual({
+        amount: 19.99,
+        currency: "EUR",
+      });
+      expect(parseCurrency("CA$10")).toEqual({ amount: 10, currency: "CAD" });
+      expect(parseCurrency("USD 1,000")).toEqual({
+        amount: 1000,
+        currency: "USD",
+      });
+      expect(parseCurrency("1,000 gbp")).toEqual({
+        amount: 1000,
+        currency: "GBP",
+      });
+      expect(parseCurrency("KWD\u00a01.500")).toEqual({
+        amount: 1.5,
+        currency: "KWD",
+      });
+    });
+
+    it("should parse amounts without a currency", () => {
+      expect(parseCurrency("1,234.56")).toEqual({
+        amount: 1234.56,
+        currency: null,
+      });
+      expect(parseCurrency(".5")).toEqual({ amount: 0.5, currency: null });
+      expect(parseCurrency("42", { currency: "eur" })).toEqual({
+        amount: 42,
+        currency: "EUR",
+      });
+      expect(parseCurrency(12.5)).toEqual({ amount: 12.5, currency: null });
+    });
+
+    it("should parse negative amounts", () => {
+      expect(parseCurrency("-¥5,000")).toEqual({
+        amount: -5000,
+        currency: "JPY",
+      });
+      expect(parseCurrency("$-5.00")?.amount).toBe(-5);
+      expect(parseCurrency("\u22125.00")?.amount).toBe(-5);
+      expect(parseCurrency("5.00-")?.amount).toBe(-5);
+      expect(parseCurrency("(1,200.00)")).toEqual({
+        amount: -1200,
+        currency: null,
+      });
+      expect(parseCurrency("($1,200.00)")).toEqual({
+        amount: -1200,
+        currency: "USD",
+      });
+      expect(
+        parseCurrency(toCurrency(-1200, { signDisplay: "parentheses" }))?.amount
+      ).toBe(-1200);
+      expect(parseCurrency("(5")).toBeNull();
+      expect(parseCurrency("$ 5)")).toBeNull();
+    });
+
+    it("should parse formatCurrencyColumn output", () => {
+      const values = [1234.5, -1234.5, 0, -20];
+      const column = formatCurrencyColumn(values, {
+        grain: "accounting",
+        width: 14,
+      });
+      expect(column.map((text) => parseCurrency(text))).toEqual(
+        values.map((amount) => ({ amount, currency: "USD" }))
+      );
+      expect(parseCurrency("\u2014")).toEqual({ amount: 0, currency: null });
+      expect(parseCurrency("  (20,00) \u20ac", { locale: "de-DE" })).toEqual({
+        amount: -20,
+        currency: "EUR",
+      });
+      expect(parseCurrency("\u2014\u2014")).toBeNull();
+    });
+
+    it("should use the locale's separators", () => {
+      expect(parseCurrency("1.234,56 €", { locale: "de-DE" })).toEqual({
+        amount: 1234.56,
+        currency: "EUR",
+      });
+      expect(
+        parseCurrency("1\u202f234,56\u00a0€", { locale: "fr-FR" })
+      ).toEqual({ amount: 1234.56, currency: "EUR" });
+      expect(parseCurrency("1 234,56", { locale: "fr-FR" })?.amount).toBe(
+        1234.56
+      );
+      expect(parseCurrency("CHF 1’234.50", { locale: "de-CH" })).toEqual({
+        amount: 1234.5,
+        currency: "CHF",
+      });
+      expect(
+        parseCurrency(
+          toCurrency(1234.56, { locale: "de-DE", currency: "EUR" }),
+          { locale: "de-DE" }
+        )?.amount
+      ).toBe(1234.56);
+    });
+
+    it("should parse compact suffixes", () => {
+      expect(parseCurrency("$1.2K")).toEqual({ amount: 1200, currency: "USD" });
+      expect(parseCurrency("$3.4M")?.amount).toBe(3400000);
+      expect(parseCurrency("1.15k")?.amount).toBe(1150);
+      expect(parseCurrency("-$2B")?.amount).toBe(-2000000000);
+      expect(parseCurrency("1,2 Mio. €", { locale: "de-DE" })).toEqual({
+        amount: 1200000,
+        currency: "EUR",
+      });
+      expect(
+        parseCurrency(toCurrency(1234567, { grain: "compact" }))?.amount
+      ).toBe(1230000);
+    });
+
+    it("should prefer the given currency for shared symbols", () => {
+      expect(parseCurrency("$10", { currency: "CAD" })?.currency).toBe("CAD");
+      expect(parseCurrency("$10", { currency: "EUR" })?.currency).toBe("USD");
+    });
+
+    it("should return null for text that is not an amount", () => {
+      expect(parseCurrency("abc")).toBeNull();
+      expect(parseCurrency("")).toBeNull();
+      expect(parseCurrency(null)).toBeNull();
+      expect(parseCurrency("$1.2.3")).toBeNull();
+      expect(parseCurrency("1.234,56")).toBeNull();
+      expect(parseCurrency("(1,200.00")).toBeNull();
+      expect(parseCurrency("$5 USD")).toBeNull();
+      expect(parseCurrency("5 apples")).toBeNull();
+      expect(parseCurrency(Infinity)).toBeNull();
+    });
+
+    it("should return null for misplaced group separators", () => {
+      expect(parseCurrency("1,2,3")).toBeNull();
+      expect(parseCurrency("$12,34.5")).toBeNull();
+      expect(parseCurrency("$1,2345")).toBeNull();
+      expect(parseCurrency("€1.5 Mio.", { locale: "de-DE" })).toBeNull();
+      expect(parseCurrency("1 23,5 €", { locale: "fr-FR" })).toBeNull();
+      expect(parseCurrency("₹12,34,567.50", { locale: "en-IN" })).toEqual({
+        amount: 1234567.5,
+        currency: "INR",
+      });
+      expect(parseCurrency("$1,234,567")?.amount).toBe(1234567);
+    });
+
+    it("should return null for invalid locales", () => {
+      expect(parseCurrency("$5", { locale: "not a locale!" })).toBeNull();
+    });
+  });
+
+  describe("createCurrencyConverter", () => {
+    const rates = { EUR: 0.9, GBP: 0.8, JPY: 150, KWD: 0.307 };
+
+    it("should convert from and to the base currency", () => {
+      const converter = createCurrencyConverter({ base: "USD", rates });
+      expect(converter.convert(100, "USD", "EUR")).toBe(90);
+      expect(converter.convert(90, "EUR", "USD")).toBe(100);
+      expect(converter.convert(100, "usd", "usd")).toBe(100);
+    });
+
+    it("should derive cross rates through the base currency", () => {
+      const converter = createCurrencyConverter({ rates });
+      expect(converter.getRate("GBP", "EUR")).toBeCloseTo(1.125);
+      expect(converter.convert(100, "EUR", "GBP")).toBe(88.89);
+      expect(converter.convert(1, "EUR", "JPY")).toBe(167);
+    });
+
+    it("should round to the target currency's minor units", () => {
+      const converter = createCurrencyConverter({ rates });
+      expect(converter.convert(10.01, "USD", "JPY")).toBe(1502);
+      expect(converter.convert(12.34, "USD", "KWD")).toBe(3.788);
+      expect(converter.convert(1 / 3, "USD", "EUR")).toBe(0.3);
+    });
+
+    it("should allow rounding to be configured per currency", () => {
+      const converter = createCurrencyConverter({
+        rates,
+        decimalPlaces: { jpy: -2, EUR: null, GBP: 4 },
+      });
+      expect(converter.convert(10.01, "USD", "JPY")).toBe(1500);
+      expect(converter.convert(1 / 3, "USD", "EUR")).toBeCloseTo(0.3, 10);
+      expect(converter.convert(1 / 3, "USD", "GBP")).toBe(0.2667);
+      expect(
+        converter.convertMoney(createMoney(1001, "USD"), "JPY").minorUnits
+      ).toBe(1500);
+      expect(
+        converter.convertMoney(createMoney(33, "USD"), "EUR").minorUnits
+      ).toBe(30);
+    });
+
+    it("should convert money", () => {
+      const converter = createCurrencyConverter({ rates });
+      const converted = converter.convertMoney(createMoney(1999, "USD"), "JPY");
+      expect(converted.currency).toBe("JPY");
+      expect(converted.minorUnits).toBe(2999);
+      expect(
+        converter.convertMoney(createMoney(100, "EUR"), "GBP").minorUnits
+      ).toBe(89);
+    });
+
+    it("should convert money at rates written in exponent form", () => {
+      const converter = createCurrencyConverter({
+        rates: { EUR: 1e-9, JPY: 1e20 },
+      });
+      expect(
+        converter.convertMoney(createMoney(1, "USD"), "EUR").minorUnits
+      ).toBe(0);
+      expect(() =>
+        converter.convertMoney(createMoney(100, "USD"), "JPY")
+      ).toThrow("Converted amount cannot be represented");
+    });
+
+    it("should throw for missing rates and invalid input", () => {
+      const converter = createCurrencyConverter({ rates });
+      expect(converter.getRate("USD", "CAD")).toBeUndefined();
+      expect(() => converter.convert(1, "USD", "CAD")).toThrow(
+        "No exchange rate from USD to CAD"
+      );
+      expect(() => createCurrencyConverter({ rates: { EUR: 0 } })).toThrow();
+      expect(() => createCurrencyConverter({ rates: { EURO: 1 } })).toThrow(
+        "Invalid currency code"
+      );
+    });
+
+    it("should track staleness", () => {
+      const timestamp = new Date("2024-01-01T00:00:00Z");
+      const converter = createCurrencyConverter({
+        rates,
+        timestamp,
+        maxAge: 60_000,
+      });
+      expect(converter.snapshot.timestamp).toBe(timestamp);
+      expect(converter.isStale(new Date("2024-01-01T00:00:30Z"))).toBe(false);
+      expect(converter.isStale(new Date("2024-01-01T00:02:00Z"))).toBe(true);
+      expect(createCurrencyConverter({ rates }).isStale()).toBe(true);
+
+      converter.setRates({ EUR: 0.95 });
+      expect(converter.isStale()).toBe(false);
+      expect(converter.convert(100, "USD", "EUR")).toBe(95);
+      expect(converter.getRate("USD", "GBP")).toBeUndefined();
+    });
+
+    it("should fetch and cache rates from a provider", async () => {
+      const timestamp = new Date();
+      const bases: string[] = [];
+      const provider: ExchangeRateProvider = {
+        getRates: async (base: string) => {
+          bases.push(base);
+          return { rates: { USD: 1.1 }, timestamp };
+        },
+      };
+      const converter = createCurrencyConverter({ base: "eur", provider });
+      expect(converter.isStale()).toBe(true);
+
+      const [first, second] = await Promise.all([
+        converter.refresh(),
+        converter.refresh(),
+      ]);
+      expect(first).toBe(second);
+      expect(first.timestamp).toBe(timestamp);
+      expect(converter.convert(10, "EUR", "USD")).toBe(11);
+
+      await converter.refresh();
+      expect(bases).toEqual(["EUR"]);
+      await converter.refresh({ force: true });
+      expect(bases).toEqual(["EUR", "EUR"]);
+    });
+
+    it("should reject refreshing stale rates without a provider", async () => {
+      await expect(
+        createCurrencyConverter({ rates }).refresh()
+      ).rejects.toThrow("no rate provider");
+    });
+  });
+
+  describe("formatCurrencyColumn", () => {
+    it("should align decimal separators", () => {
+      expect(
+        formatCurrencyColumn([1234.5, 20, 3.125], { maxDecimalPlaces: 3 })
+      ).toEqual(["$1,234.50 ", "   $20.00 ", "    $3.125"]);
+      expect(
+        formatCurrencyColumn([1234.5, -20, null], { grain: "whole" })
+      ).toEqual(["$1,235", "  -$20", "    --"]);
+    });
+
+    it("should align accounting symbols and parentheses", () => {
+      expect(
+        formatCurrencyColumn([1234.5, -20, 0], { grain: "accounting" })
+      ).toEqual(["$ 1,234.50 ", "$   (20.00)", "$     \u2014    "]);
+      expect(
+        formatCurrencyColumn([1234.5, -20], {
+          grain: "accounting",
+          currency: "CHF",
+        })
+      ).toEqual(["CHF 1,234.50 ", "CHF   (20.00)"]);
+      expect(
+        formatCurrencyColumn([1234.5, -20], {
+          grain: "accounting",
+          currency: "JPY",
+        })
+      ).toEqual(["\u00a5 1,235 ", "\u00a5   (20)"]);
+      expect(
+        formatCurrencyColumn([1234.5, -20], {
+          grain: "accounting",
+          currency: "XYZ",
+        })
+      ).toEqual(["$ 1,234.50 ", "$   (20.00)"]);
+    });
+
+    it("should keep suffixed symbols at the right edge", () => {
+      expect(
+        formatCurrencyColumn([1234.5, -20], {
+          grain: "accounting",
+          currency: "EUR",
+          locale: "de-DE",
+        })
+      ).toEqual(["1.234,50  \u20ac", "  (20,00) \u20ac"]);
+    });
+
+    it("should pad to a minimum width", () => {
+      expect(
+        formatCurrencyColumn([1, -1], { grain: "accounting", width: 10 })
+      ).toEqual(["$    1.00 ", "$   (1.00)"]);
+      const column = formatCurrencyColumn([5, 123456.789, -0.5]);
+      expect(new Set(column.map((text) => text.length)).size).toBe(1);
+      expect(formatCurrencyColumn([])).toEqual([]);
+    });
+
+    it("should show nullValue for options Intl rejects, as toCurrency does", () => {
+      expect(formatCurrencyColumn([5, 10], { currency: "bad!" })).toEqual([
+        "--",
+        "--",
+      ]);
+      expect(
+        formatCurrencyColumn([5], { locale: "not a locale!", nullValue: "n/a" })
+      ).toEqual(["n/a"]);
+      expect(toCurrency(5, { currency: "bad!", width: 4 })).toBe("  --");
+    });
+  });
 });
@@ -0,0 +1,171 @@
+import { toDecimal, isDecimal, Decimal } from "../src/decimal.js";
+import { toNumberString } from "../src/number.js";
+import { RoundingMode } from "../src/generics.js";
+
+const decimal = (value: string | number): Decimal => toDecimal(value)!;
+
+describe("decimal", () => {
+  describe("toDecimal", () => {
+    it("should parse numeric strings exactly", () => {
+      expect(decimal("1.005").toString()).toBe("1.005");
+      expect(decimal("-0.50").toString()).toBe("-0.50");
+      expect(decimal(".5").toString()).toBe("0.5");
+      expect(decimal("1,234.56").toString()).toBe("1234.56");
+      expect(decimal("1.5e3").toString()).toBe("1500");
+      expect(decimal("15e-4").toString()).toBe("0.0015");
+      expect(decimal("12345678901234567890.123").toString()).toBe(
+        "12345678901234567890.123"
+      );
+    });
+
+    it("should read numbers from their shortest decimal form", () => {
+      expect(decimal(0.1).toString()).toBe("0.1");
+      expect(decimal(1e21).toString()).toBe("1000000000000000000000");
+      expect(decimal(-2.5e-7).toString()).toBe("-0.00000025");
+      expect(toDecimal(10n)?.toString()).toBe("10");
+    });
+
+    it("should return the same decimal", () => {
+      const value = decimal("1.5");
+      expect(toDecimal(value)).toBe(value);
+    });
+
+    it("should return null for invalid values", () => {
+      expect(toDecimal("abc")).toBeNull();
+      expect(toDecimal("")).toBeNull();
+      expect(toDecimal(".")).toBeNull();
+      expect(toDecimal("1.2.3")).toBeNull();
+      expect(toDecimal("1e100000")).toBeNull();
+      expect(toDecimal(NaN)).toBeNull();
+      expect(toDecimal(Infinity)).toBeNull();
+      expect(toDecimal(null)).toBeNull();
+      expect(toDecimal({})).toBeNull();
+    });
+
+    it("should return null for misplaced commas", () => {
+      expect(toDecimal("1,5")).toBeNull();
+      expect(toDecimal("1,2,3")).toBeNull();
+      expect(toDecimal("12,34.5")).toBeNull();
+      expect(toDecimal("1.234,5")).toBeNull();
+      expect(decimal("-1,234,567.5").toString()).toBe("-1234567.5");
+    });
+  });
+
+  describe("arithmetic", () => {
+    it("should add and subtract without floating-point errors", () => {
+      expect(decimal("0.1").add("0.2").toString()).toBe("0.3");
+      expect(decimal(0.1).add(0.2, 0.3).toNumber()).toBe(0.6);
+      expect(decimal("1.00").subtract("0.01", "0.99").toString()).toBe("0.00");
+      expect(decimal("5").subtract("7.5").toString()).toBe("-2.5");
+    });
+
+    it("should multiply exactly", () => {
+      expect(decimal("1.1").multiply("1.1").toString()).toBe("1.21");
+      expect(decimal("19.99").multiply(3).toString()).toBe("59.97");
+      expect(decimal("-0.5").multiply("0.5").toString()).toBe("-0.25");
+    });
+
+    it("should divide with an explicit rounding mode", () => {
+      expect(decimal("10").divide(3, 4).toString()).toBe("3.3333");
+      expect(decimal("2").divide(3, 2).toString()).toBe("0.67");
+      expect(decimal("2").divide(3, 2, "trunc").toString()).toBe("0.66");
+      expect(decimal("1").divide(8, 2, "halfEven").toString()).toBe("0.12");
+      expect(decimal("3").divide(8, 2, "halfEven").toString()).toBe("0.38");
+      expect(decimal("-1").divide(8, 2, "halfExpand").toString()).toBe("-0.13");
+      expect(decimal("1").divide("-0.125", 0).toString()).toBe("-8");
+      expect(decimal("0.3").divide("0.1", 0).toString()).toBe("3");
+    });
+
+    it("should throw when dividing by zero or using invalid operands", () => {
+      expect(() => decimal("1").divide(0, 2)).toThrow(
+        "divide a decimal by zero"
+      );
+      expect(() => decimal("1").add("abc")).toThrow(
+        'Invalid decimal value "abc"'
+      );
+    });
+
+    it("should throw for decimal places that are not finite", () => {
+      expect(() => decimal("1").divide(3, Number.NaN)).toThrow(
+        'Invalid number of decimal places "NaN"'
+      );
+      expect(() => decimal("1.5").round(Number.NaN)).toThrow(
+        "Invalid number of decimal places"
+      );
+      expect(() => decimal("1.5").round(-Infinity)).toThrow(
+        "Invalid number of decimal places"
+      );
+    });
+
+    it("should compare values regardless of scale", () => {
+      expect(decimal("1.50").compare("1.5")).toBe(0);
+      expect(decimal("1.49").compare("1.5")).toBe(-1);
+      expect(decimal("-1").compare("-2")).toBe(1);
+      expect(decimal("1.50").equals("1.5")).toBe(true);
+      expect(decimal("1.50").equals("abc")).toBe(false);
+    });
+
+    it("should report the sign", () => {
+      expect(decimal("0.00").isZero()).toBe(true);
+      expect(decimal("-0.01").isNegative()).toBe(true);
+      expect(decimal("0.01").isPositive()).toBe(true);
+      expect(decimal("-1.5").abs().toString()).toBe("1.5");
+      expect(decimal("1.5").negate().toString()).toBe("-1.5");
+    });
+  });
+
+  describe("round", () => {
+    const roundAll = (value: string, mode: RoundingMode) =>
+      decimal(value).round(0, mode).toString();
+
+    it("should support every rounding mode", () => {
+      const values = ["2.5", "-2.5", "3.5", "2.4", "-2.6"];
+      const expected: Record<RoundingMode, string[]> = {
+        ceil: ["3", "-2", "4", "3", "-2"],
+        floor: ["2", "-3", "3", "2", "-3"],
+        expand: ["3", "-3", "4", "3", "-3"],
+        trunc: ["2", "-2", "3", "2", "-2"],
+        halfCeil: ["3", "-2", "4", "2", "-3"],
+        halfFloor: ["2", "-3", "3", "2", "-3"],
+        halfExpand: ["3", "-3", "4", "2", "-3"],
+        halfTrunc: ["2", "-2", "3", "2", "-3"],
+        halfEven: ["2", "-2", "4", "2", "-3"],
+      };
+      (Object.keys(expected) as RoundingMode[]).forEach((mode) => {
+        expect(values.map((value) => roundAll(value, mode))).toEqual(
+          expected[mode]
+        );
+      });
+    });
+
+    it("should round to decimal places", () => {
+      expect(decimal(1.005).round(2).toString()).toBe("1.01");
+      expect(decimal("2.675").round(2, "halfEven").toString()).toBe("2.68");
+      expect(decimal("2.665").round(2, "halfEven").toString()).toBe("2.66");
+      expect(decimal("1234.5").round(-2).toString()).toBe("1200");
+      expect(decimal("1.5").round(3).toString()).toBe("1.5");
+    });
+  });
+
+  describe("isDecimal", () => {
+    it("should recognize decimals", () => {
+      expect(isDecimal(decimal("1"))).toBe(true);
+      expect(isDecimal(1)).toBe(false);
+      expect(isDecimal({ units: 1n, scale: 0 })).toBe(false);
+    });
+  });
+
+  describe("toNumberString", () => {
+    it("should format decimals without losing precision", () => {
+      expect(toNumberString(decimal("12345678901234567.89"))).toBe(
+        "12,345,678,901,234,567.89"
+      );
+      expect(toNumberString(decimal("1.005"), { maxDecimalPlaces: 2 })).toBe(
+        "1.01"
+      );
+      expect(
+        toNumberString(decimal("-5"), { constraint: "non-negative" })
+      ).toBe("");
+    });
+  });
+});
@@ -12,6 +12,10 @@ import {
   roundToNearest,
   getNumbersBetween,
   toNumberString,
+  toNumberWords,
+  toCurrencyWords,
+  ENGLISH_NUMBER_WORDS,
+  parseLocaleNumber,
 } from "../src/number.js";
 import {
   isInteger,
@@ -328,6 +332,27 @@ describe("number", () => {
     it("should handle negative precision", () => {
       expect(round(1234, -2)).toBe(1200);
     });
+
+    it("should round from the shortest decimal form", () => {
+      expect(round(1.005, 2)).toBe(1.01);
+      expect(round(1.255, 2)).toBe(1.26);
+      expect(round(-2.5)).toBe(-2);
+    });
+
+    it("should support rounding modes", () => {
+      expect(round(2.5, 0, "halfEven")).toBe(2);
+      expect(round(3.5, 0, "halfEven")).toBe(4);
+      expect(round(2.675, 2, "halfEven")).toBe(2.68);
+      expect(round(-2.5, 0, "halfExpand")).toBe(-3);
+      expect(round(1.234, 2, "ceil")).toBe(1.24);
+    });
+
+    it("should leave the value unrounded for precisions that are not finite", () => {
+      expect(round(1.234, NaN)).toBe(1.234);
+      expect(round(1.234, Infinity)).toBe(1.234);
+      expect(roundDown(1.234, -Infinity)).toBe(1.234);
+      expect(roundUp(1.234, 1.9)).toBe(1.3);
+    });
   });
 
   describe("roundDown", () => {
@@ -341,6 +366,11 @@ describe("number", () => {
       expect(roundDown(3.14159, 2)).toBe(3.14);
       expect(roundDown(3.149, 2)).toBe(3.14);
     });
+
+    it("should not be thrown off by floating-point errors", () => {
+      expect(roundDown(1.15, 2)).toBe(1.15);
+      expect(roundDown(-3.5)).toBe(-4);
+    });
   });
 
   describe("roundUp", () => {
@@ -456,6 +486,13 @@ describe("number", () => {
       expect(roundToNearest(1234.565, 0.01)).toBeCloseTo(1234.57, 10);
     });
 
+    it("should support rounding modes", () => {
+      expect(roundToNearest(25, 10, "halfEven")).toBe(20);
+      expect(roundToNearest(35, 10, "halfEven")).toBe(40);
+      expect(roundToNearest(1234.55, 0.1)).toBe(1234.6);
+      expect(roundToNearest(1234.21, 0.5, "ceil")).toBe(1234.5);
+    });
+
     it("should handle large divisors", () => {
       expect(roundToNearest(1234567, 10000)).toBe(1230000);
       expect(roundToNearest(1234567, 100000)).toBe(1200000);
@@ -615,5 +652,262 @@ describe("number", () => {
       expect(toNumberString(100, { signDisplay: "parentheses" })).toBe("100");
       expect(toNumberString(0, { signDisplay: "parentheses" })).toBe("0");
     });
+
+    it("should support rounding modes", () => {
+      expect(
+        toNumberString(2.5, { maxDecimalPlaces: 0, roundingMode: "halfEven" })
+      ).toBe("2");
+      expect(
+        toNumberString(1.25, { maxDecimalPlaces: 1, roundingMode: "trunc" })
+      ).toBe("1.2");
+    });
+  });
+
+  describe("toNumberWords", () => {
+    it("should spell out integers", () => {
+      expect(toNumberWords(0)).toBe("zero");
+      expect(toNumberWords(7)).toBe("seven");
+      expect(toNumberWords(19)).toBe("nineteen");
+      expect(toNumberWords(40)).toBe("forty");
+      expect(toNumberWords(99)).toBe("ninety-nine");
+      expect(toNumberWords(100)).toBe("one hundred");
+      expect(toNumberWords(1234)).toBe("one thousand two hundred thirty-four");
+      expect(toNumberWords(1000001)).toBe("one million one");
+      expect(toNumberWords("2500")).toBe("two thousand five hundred");
+    });
+
+    it("should spell out large magnitudes up to trillions", () => {
+      expect(toNumberWords(2_000_000_000_000)).toBe("two trillion");
+      expect(toNumberWords(999_999_999_999_999)).toBe(
+        "nine hundred ninety-nine trillion nine hundred ninety-nine billion nine hundred ninety-nine million nine hundred ninety-nine thousand nine hundred ninety-nine"
+      );
+      expect(toNumberWords(1e15)).toBe("");
+    });
+
+    it("should spell out negatives and fractions", () => {
+      expect(toNumberWords(-15)).toBe("negative fifteen");
+      expect(toNumberWords(3.25)).toBe("three point two five");
+      expect(toNumberWords(0.1)).toBe("zero point one");
+      expect(toNumberWords(-0.5)).toBe("negative zero point five");
+    });
+
+    it("should spell out ordinals", () => {
+      expect(toNumberWords(1, { ordinal: true })).toBe("first");
+      expect(toNumberWords(12, { ordinal: true })).toBe("twelfth");
+      expect(toNumberWords(21, { ordinal: true })).toBe("twenty-first");
+      expect(toNumberWords(30, { ordinal: true })).toBe("thirtieth");
+      expect(toNumberWords(105, { ordinal: true })).toBe("one hundred fifth");
+      expect(toNumberWords(1000000, { ordinal: true })).toBe("one millionth");
+      expect(toNumberWords(1.5, { ordinal: true })).toBe("");
+    });
+
+    it("should return nullValue for invalid input", () => {
+      expect(toNumberWords(null)).toBe("");
+      expect(toNumberWords("abc", { nullValue: "--" })).toBe("--");
+    });
+
+    it("should use a custom dictionary", () => {
+      const spanish = {
+        ...ENGLISH_NUMBER_WORDS,
+        ones: [
+          "cero",
+          "uno",
+          "dos",
+          "tres",
+          "cuatro",
+          "cinco",
+          "seis",
+          "siete",
+          "ocho",
+          "nueve",
+          "diez",
+          "once",
+          "doce",
+          "trece",
+          "catorce",
+          "quince",
+          "dieciséis",
+          "diecisiete",
+          "dieciocho",
+          "diecinueve",
+        ],
+        tens: [
+          "",
+          "",
+          "veinte",
+          "treinta",
+          "cuarenta",
+          "cincuenta",
+          "sesenta",
+          "setenta",
+          "ochenta",
+          "noventa",
+        ],
+        tensSeparator: " y ",
+        negative: "menos",
+      };
+      expect(toNumberWords(35, { dictionary: spanish })).toBe(
+        "treinta y cinco"
+      );
+      expect(toNumberWords(-2, { dictionary: spanish })).toBe("menos dos");
+      expect(toNumberWords(35, { locale: "fr-FR" })).toBe("thirty-five");
+    });
+  });
+
+  describe("toCurrencyWords", () => {
+    it("should write amounts the way checks do", () => {
+      expect(toCurrencyWords(1234.56)).toBe(
+        "One thousand two hundred thirty-four and 56/100 dollars"
+      );
+      expect(toCurrencyWords(100)).toBe("One hundred and 00/100 dollars");
+      expect(toCurrencyWords(0.07)).toBe("Zero and 07/100 dollars");
+      expect(toCurrencyWords(1.005)).toBe("One and 01/100 dollars");
+      expect(toCurrencyWords(19.999)).toBe("Twenty and 00/100 dollars");
+    });
+
+    it("should use the currency's unit and minor units", () => {
+      expect(toCurrencyWords(5000, { currency: "JPY" })).toBe(
+        "Five thousand yen"
+      );
+      expect(toCurrencyWords(1, { currency: "JPY" })).toBe("One yen");
+      expect(toCurrencyWords(12.5, { currency: "eur" })).toBe(
+        "Twelve and 50/100 euros"
+      );
+      expect(toCurrencyWords(1.5, { currency: "KWD" })).toBe(
+        "One and 500/1000 Kuwaiti dinars"
+      );
+    });
+
+    it("should spell out negative amounts", () => {
+      expect(toCurrencyWords(-20)).toBe("Negative twenty and 00/100 dollars");
+      expect(toCurrencyWords(-0.001)).toBe("Zero and 00/100 dollars");
+    });
+
+    it("should return nullValue for invalid input", () => {
+      expect(toCurrencyWords(undefined)).toBe("");
+      expect(toCurrencyWords(1e16, { nullValue: "N/A" })).toBe("N/A");
+      expect(toCurrencyWords(2, { currency: "xx!" })).toBe("");
+      expect(toCurrencyWords(2, { currency: "DOLLAR" })).toBe("");
+    });
+
+    it("should name currencies in the language of the dictionary", () => {
+      expect(toCurrencyWords(2, { currency: "CHF", locale: "de" })).toBe(
+        "Two and 00/100 Swiss francs"
+      );
+      expect(
+        toCurrencyWords(2, { currency: "CHF", locale: "constructor" })
+      ).toBe("Two and 00/100 Swiss francs");
+    });
+  });
+
+  describe("parseLocaleNumber", () => {
+    it("should parse numbers with the default en-US separators", () => {
+      expect(parseLocaleNumber("1,234.5")).toBe(1234.5);
+      expect(parseLocaleNumber("1234")).toBe(1234);
+      expect(parseLocaleNumber(".5")).toBe(0.5);
+      expect(parseLocaleNumber("  42  ")).toBe(42);
+    });
+
+    it("should use the separators of the locale", () => {
+      expect(parseLocaleNumber("1.234,5", { locale: "de-DE" })).toBe(1234.5);
+      expect(parseLocaleNumber("1\u202f234,5", { locale: "fr-FR" })).toBe(
+        1234.5
+      );
+      expect(parseLocaleNumber("1 234,5", { locale: "fr-FR" })).toBe(1234.5);
+      expect(parseLocaleNumber("1\u2019234.5", { locale: "de-CH" })).toBe(
+        1234.5
+      );
+      expect(parseLocaleNumber("1'234.5", { locale: "de-CH" })).toBe(1234.5);
+      expect(parseLocaleNumber("12,34,567.8", { locale: "en-IN" })).toBe(
+        1234567.8
+      );
+    });
+
+    it("should return the default value for text that is not a number in the locale", () => {
+      expect(parseLocaleNumber("1.234,5")).toBeNull();
+      expect(parseLocaleNumber("1,234.5", { locale: "de-DE" })).toBeNull();
+      expect(parseLocaleNumber("1.2.3")).toBeNull();
+      expect(parseLocaleNumber("1.2,3")).toBeNull();
+      expect(parseLocaleNumber("abc")).toBeNull();
+      expect(parseLocaleNumber("")).toBeNull();
+      expect(parseLocaleNumber(null)).toBeNull();
+      expect(parseLocaleNumber(undefined, { defaultValue: 0 })).toBe(0);
+      expect(parseLocaleNumber("-")).toBeNull();
+      expect(parseLocaleNumber("1,2,3")).toBeNull();
+      expect(parseLocaleNumber("1,5")).toBeNull();
+      expect(parseLocaleNumber("12,34.5")).toBeNull();
+      expect(parseLocaleNumber("1.5", { locale: "de-DE" })).toBeNull();
+      expect(parseLocaleNumber("(-5)")).toBeNull();
+      expect(parseLocaleNumber("(+5)")).toBeNull();
+      expect(parseLocaleNumber("5", { locale: "not a locale!" })).toBeNull();
+      expect(
+        parseLocaleNumber("5", { locale: "not a locale!", defaultValue: 0 })
+      ).toBe(0);
+    });
+
+    it("should return finite numbers as they are", () => {
+      expect(parseLocaleNumber(1234.5)).toBe(1234.5);
+      expect(parseLocaleNumber(NaN)).toBeNull();
+      expect(parseLocaleNumber(Infinity)).toBeNull();
+    });
+
+    it("should read signs and parentheses", () => {
+      expect(parseLocaleNumber("-1,234.5")).toBe(-1234.5);
+      expect(parseLocaleNumber("\u22121,234.5")).toBe(-1234.5);
+      expect(parseLocaleNumber("+12")).toBe(12);
+      expect(parseLocaleNumber("12-")).toBe(-12);
+      expect(parseLocaleNumber("(1,234.5)")).toBe(-1234.5);
+      expect(parseLocaleNumber("-0")).toBe(0);
+      expect(Object.is(parseLocaleNumber("-0"), -0)).toBe(false);
+    });
+
+    it("should read percent and permille signs", () => {
+      expect(parseLocaleNumber("12.5%")).toBe(0.125);
+      expect(parseLocaleNumber("-50\u00a0%", { locale: "de-DE" })).toBe(-0.5);
+      expect(parseLocaleNumber("%12")).toBe(0.12);
+      expect(parseLocaleNumber("3\u2030")).toBe(0.003);
+      expect(parseLocaleNumber("0.7%")).toBe(0.007);
+    });
+
+    it("should read non-Latin digits", () => {
+      expect(
+        parseLocaleNumber("\u0661\u066c\u0662\u0663\u0664\u066b\u0665", {
+          locale: "ar-EG",
+        })
+      ).toBe(1234.5);
+      expect(parseLocaleNumber("\u06f1\u06f2\u06f3", { locale: "fa-IR" })).toBe(
+        123
+      );
+      expect(
+        parseLocaleNumber("\u0967,\u0968\u0969\u096a.\u096b", {
+          locale: "hi-IN",
+        })
+      ).toBe(1234.5);
+      expect(parseLocaleNumber("\uff11\uff12\uff13")).toBe(123);
+    });
+
+    it("should be the inverse of toNumberString", () => {
+      const locales = [
+        "en-US",
+        "de-DE",
+        "fr-FR",
+        "de-CH",
+        "ar-EG",
+        "fa-IR",
+        "hi-IN-u-nu-deva",
+      ];
+      for (const locale of locales) {
+        for (const value of [-1234567.891, 0.5, 42]) {
+          const text = toNumberString(value, { locale, maxDecimalPlaces: 3 });
+          expect(parseLocaleNumber(text, { locale })).toBe(value);
+        }
+        const percent = toNumberString(-0.125, {
+          locale,
+          maxDecimalPlaces: 1,
+          intlOptions: { style: "percent" },
+        });
+        expect(parseLocaleNumber(percent, { locale })).toBe(-0.125);
+      }
+    });
   });
 });
@@ -1,4 +1,13 @@
-import { formatPhone, FormatPhoneOptions } from "../src/phone.js";
+import {
+  formatPhone,
+  FormatPhoneOptions,
+  getPhoneNumberingPlan,
+  validatePhone,
+  isValidPhone,
+  createPhoneInputFormatter,
+  extractPhoneNumbers,
+  parsePhone,
+} from "../src/phone/index.js";
 
 describe("phone", () => {
   describe("formatPhone", () => {
@@ -193,6 +202,219 @@ describe("phone", () => {
       });
     });
 
+    describe("national format", () => {
+      it("should format US numbers with parentheses", () => {
+        expect(formatPhone("4155550123", { style: "national" })).toBe(
+          "(415) 555-0123"
+        );
+        expect(formatPhone("+1 415 555 0123 x42", { style: "national" })).toBe(
+          "(415) 555-0123 x42"
+        );
+      });
+
+      it("should use the region's conventions for other countries", () => {
+        expect(
+          formatPhone("+44 20 7946 0958", { style: "national" })
+        ).toBe("020 7946 0958");
+        expect(
+          formatPhone("+49 30 12345678", { style: "national" })
+        ).toBe("030 12345678");
+        expect(formatPhone("+61 2 1234 5678", { style: "national" })).toBe(
+          "(02) 1234 5678"
+        );
+        expect(
+          formatPhone("+61 1800 123 456", { style: "national" })
+        ).toBe("1800 123 456");
+        expect(formatPhone("+52 55 1234 5678", { style: "national" })).toBe(
+          "55 1234 5678"
+        );
+      });
+    });
+
+    describe("e164 format", () => {
+      it("should include the country code", () => {
+        expect(formatPhone("(415) 555-0123", { style: "e164" })).toBe(
+          "+14155550123"
+        );
+        expect(formatPhone("1-415-555-0123", { style: "e164" })).toBe(
+          "+14155550123"
+        );
+        expect(
+          formatPhone("020 7946 0958", { style: "e164", country: "GB" })
+        ).toBe("+442079460958");
+        expect(formatPhone("+61 412 345 678", { style: "e164" })).toBe(
+          "+61412345678"
+        );
+      });
+
+      it("should drop extensions", () => {
+        expect(formatPhone("(415) 555-0123 ext 42", { style: "e164" })).toBe(
+          "+14155550123"
+        );
+      });
+
+      it("should return default value for incomplete numbers", () => {
+        expect(formatPhone("555-0123", { style: "e164" })).toBeNull();
+        expect(
+          formatPhone("8662345689,223345099#", { style: "e164", defaultValue: "" })
+        ).toBe("");
+      });
+    });
+
+    describe("rfc3966 format", () => {
+      it("should produce tel: URIs with grouped digits", () => {
+        expect(formatPhone("(415) 555-0123", { style: "rfc3966" })).toBe(
+          "tel:+1-415-555-0123"
+        );
+        expect(
+          formatPhone("020 7946 0958", { style: "rfc3966", country: "GB" })
+        ).toBe("tel:+44-20-7946-0958");
+        expect(formatPhone("+33 1 23 45 67 89", { style: "rfc3966" })).toBe(
+          "tel:+33-1-23-45-67-89"
+        );
+      });
+
+      it("should carry extensions", () => {
+        expect(
+          formatPhone("(415) 555-0123 ext 42", { style: "rfc3966" })
+        ).toBe("tel:+1-415-555-0123;ext=42");
+        expect(
+          formatPhone("+49 30 12345678 x9", { style: "rfc3966" })
+        ).toBe("tel:+49-30-12345678;ext=9");
+      });
+
+      it("should return default value for incomplete numbers", () => {
+        expect(formatPhone("12345", { style: "rfc3966" })).toBeNull();
+        expect(
+          formatPhone("8662345689,223345099#", { style: "rfc3966" })
+        ).toBeNull();
+      });
+    });
+
+    describe("international numbers", () => {
+      it("should read national numbers using the country option", () => {
+        expect(
+          formatPhone("020 7946 0958", { style: "international", country: "GB" })
+        ).toBe("+44 20 7946 0958");
+        expect(
+          formatPhone("07700 900123", { style: "international", country: "GB" })
+        ).toBe("+44 7700 900123");
+        expect(
+          formatPhone("0151 23456789", { style: "international", country: "DE" })
+        ).toBe("+49 151 23456789");
+        expect(
+          formatPhone("0412 345 678", { style: "international", country: "AU" })
+        ).toBe("+61 412 345 678");
+        expect(
+          formatPhone("33 1234 5678", { style: "international", country: "MX" })
+        ).toBe("+52 33 1234 5678");
+        expect(
+          formatPhone("01 23 45 67 89", { style: "international", country: "fr" })
+        ).toBe("+33 1 23 45 67 89");
+      });
+
+      it("should detect the country from a + prefix", () => {
+        expect(formatPhone("+442079460958", { style: "international" })).toBe(
+          "+44 20 7946 0958"
+        );
+        expect(formatPhone("+353 1 234 5678", { style: "national" })).toBe(
+          "01 234 5678"
+        );
+      });
+
+      it("should read numbers dialed with the country's international prefix", () => {
+        expect(
+          formatPhone("0049 30 12345678", { style: "international", country: "GB" })
+        ).toBe("+49 30 12345678");
+        expect(
+          formatPhone("011 44 20 7946 0958", { style: "international", country: "US" })
+        ).toBe("+44 20 7946 0958");
+      });
+
+      it("should tolerate a national prefix after the calling code", () => {
+        expect(
+          formatPhone("+44 (0)20 7946 0958", { style: "international" })
+        ).toBe("+44 20 7946 0958");
+      });
+
+      it("should produce E.164 for database and link formats", () => {
+        expect(
+          formatPhone("020 7946 0958", { style: "database", country: "GB" })
+        ).toBe("+442079460958");
+        expect(
+          formatPhone("020 7946 0958 ext 12", { style: "database", country: "GB" })
+        ).toBe("+442079460958x12");
+        expect(
+          formatPhone("020 7946 0958 ext 12", { style: "link", country: "GB" })
+        ).toBe("+442079460958,12");
+      });
+
+      it("should format dash and parentheses styles with the national prefix", () => {
+        expect(
+          formatPhone("020 7946 0958", { style: "dash", country: "GB" })
+        ).toBe("020-7946-0958");
+        expect(
+          formatPhone("020 7946 0958", { style: "parentheses", country: "GB" })
+        ).toBe("(020) 7946 0958");
+        expect(formatPhone("020 7946 0958 x5", { country: "GB" })).toBe(
+          "(020) 7946 0958 x5"
+        );
+      });
+
+      it("should keep reading +1 and US/Canada numbers as before", () => {
+        expect(
+          formatPhone("+1 415 555 0123", { style: "international", country: "GB" })
+        ).toBe("+1 415-555-0123");
+        expect(
+          formatPhone("4165550123", { style: "international", country: "CA" })
+        ).toBe("+1 416-555-0123");
+      });
+
+      it("should return the default value for calling codes that are not bundled", () => {
+        expect(formatPhone("+81 3 1234 5678", { style: "database" })).toBeNull();
+        expect(
+          formatPhone("+81 3 1234 5678", { style: "international" })
+        ).toBeNull();
+        expect(
+          formatPhone("+81 3 1234 5678", { style: "e164", defaultValue: "" })
+        ).toBe("");
+        expect(
+          formatPhone("0081 3 1234 5678", { style: "e164", country: "GB" })
+        ).toBeNull();
+        expect(validatePhone("+81 312 345 678").status).toBe(
+          "invalid-country-code"
+        );
+      });
+
+      it("should return the default value for countries that are not bundled", () => {
+        expect(
+          formatPhone("020 7946 0958", { style: "international", country: "ZZ" })
+        ).toBeNull();
+        expect(
+          formatPhone("+44 20 7946 0958", { style: "e164", country: "ZZ" })
+        ).toBe("+442079460958");
+      });
+
+      it("should return the default value for lengths the numbering plan does not use", () => {
+        expect(
+          formatPhone("123", { style: "international", country: "GB" })
+        ).toBeNull();
+        expect(formatPhone("+44 123", { style: "e164" })).toBeNull();
+      });
+    });
+
+    describe("getPhoneNumberingPlan", () => {
+      it("should return bundled plans case-insensitively", () => {
+        expect(getPhoneNumberingPlan("GB")?.callingCode).toBe("44");
+        expect(getPhoneNumberingPlan("de")?.nationalPrefix).toBe("0");
+        expect(getPhoneNumberingPlan("AU")?.internationalPrefix).toBe("0011");
+      });
+
+      it("should return undefined for regions that are not bundled", () => {
+        expect(getPhoneNumberingPlan("ZZ")).toBeUndefined();
+      });
+    });
+
     describe("conference format (automatic detection)", () => {
       it("should preserve conference call format with space separator for display", () => {
         const conference = "8662345689,223345099#,*324569";
@@ -325,5 +547,446 @@ describe("phone", () => {
       });
     });
   });
+
+  describe("validatePhone", () => {
+    it("should validate US numbers", () => {
+      expect(validatePhone("(415) 555-0123")).toEqual({
+        valid: true,
+        possible: true,
+        status: "valid",
+        type: "fixed-line-or-mobile",
+        country: "US",
+        countryCode: "1",
+        nationalNumber: "4155550123",
+        extension: null,
+      });
+      expect(validatePhone("+1 416 555 0123 ext 7")).toMatchObject({
+        valid: true,
+        country: "CA",
+        extension: "7",
+      });
+    });
+
+    it("should detect line types", () => {
+      expect(validatePhone("800-555-0123").type).toBe("toll-free");
+      expect(validatePhone("900-555-0123").type).toBe("premium");
+      expect(validatePhone("07700 900123", { country: "GB" }).type).toBe(
+        "mobile"
+      );
+      expect(validatePhone("020 7946 0958", { country: "GB" }).type).toBe(
+        "fixed-line"
+      );
+      expect(validatePhone("0800 123 4567", { country: "GB" }).type).toBe(
+        "toll-free"
+      );
+      expect(validatePhone("+49 151 23456789").type).toBe("mobile");
+      expect(validatePhone("+61 1900 123 456").type).toBe("premium");
+      expect(validatePhone("+52 55 1234 5678").type).toBe(
+        "fixed-line-or-mobile"
+      );
+    });
+
+    it("should report numbers that are too short or too long", () => {
+      expect(validatePhone("555-0123")).toMatchObject({
+        valid: false,
+        possible: false,
+        status: "too-short",
+      });
+      expect(validatePhone("415-555-0123-99").status).toBe("too-long");
+      expect(validatePhone("+33 1 23 45 67").status).toBe("too-short");
+      expect(validatePhone("+44 20 7946 09581").status).toBe("too-long");
+    });
+
+    it("should report possible numbers that are not valid", () => {
+      expect(validatePhone("123-456-7890")).toMatchObject({
+        valid: false,
+        possible: true,
+        status: "invalid-number",
+        type: "unknown",
+      });
+      expect(validatePhone("+44 40 1234 5678").status).toBe("invalid-number");
+    });
+
+    it("should report unknown country codes", () => {
+      expect(validatePhone("+999 1234 5678").status).toBe(
+        "invalid-country-code"
+      );
+      expect(validatePhone("1234 5678", { country: "ZZ" }).status).toBe(
+        "invalid-country-code"
+      );
+    });
+
+    it("should validate conference strings by their dialed number", () => {
+      expect(validatePhone("8662345689,223345099#").valid).toBe(true);
+    });
+
+    it("should report empty input", () => {
+      expect(validatePhone(null).status).toBe("empty");
+      expect(validatePhone("").status).toBe("empty");
+      expect(validatePhone("ext 123").status).toBe("empty");
+    });
+  });
+
+  describe("isValidPhone", () => {
+    it("should return true for valid numbers", () => {
+      expect(isValidPhone("(415) 555-0123")).toBe(true);
+      expect(isValidPhone("020 7946 0958", "GB")).toBe(true);
+      expect(isValidPhone("+33 6 12 34 56 78")).toBe(true);
+    });
+
+    it("should return false for invalid numbers", () => {
+      expect(isValidPhone("12345")).toBe(false);
+      expect(isValidPhone("123-456-7890")).toBe(false);
+      expect(isValidPhone(undefined)).toBe(false);
+    });
+  });
+  describe("createPhoneInputFormatter", () => {
+    it("should format US numbers progressively", () => {
+      const formatter = createPhoneInputFormatter();
+      expect(formatter.input("4")).toMatchObject({ text: "(4", caret: 2 });
+      expect(formatter.input("15").text).toBe("(415");
+      expect(formatter.input("5").text).toBe("(415) 5");
+      expect(formatter.input("550").text).toBe("(415) 555-0");
+      expect(formatter.input("123")).toEqual({
+        text: "(415) 555-0123",
+        caret: 14,
+        digits: "4155550123",
+        extension: "",
+        valid: true,
+      });
+    });
+
+    it("should ignore separators typed by the user", () => {
+      const formatter = createPhoneInputFormatter();
+      expect(formatter.input("(415) 555-0123").text).toBe("(415) 555-0123");
+    });
+
+    it("should show a typed leading 1 on its own", () => {
+      const formatter = createPhoneInputFormatter();
+      expect(formatter.input("1").text).toBe("1");
+      expect(formatter.input("4155550123").text).toBe("1 (415) 555-0123");
+    });
+
+    it("should handle extensions typed with x", () => {
+      const formatter = createPhoneInputFormatter();
+      formatter.input("4155550123");
+      expect(formatter.input("x")).toMatchObject({
+        text: "(415) 555-0123 x",
+        caret: 16,
+      });
+      expect(formatter.input("42")).toMatchObject({
+        text: "(415) 555-0123 x42",
+        extension: "42",
+        valid: true,
+      });
+      // "ext" keeps only the x
+      const other = createPhoneInputFormatter();
+      expect(other.input("4155550123 ext 9").text).toBe("(415) 555-0123 x9");
+    });
+
+    it("should ignore x before any digit", () => {
+      const formatter = createPhoneInputFormatter();
+      expect(formatter.input("x4").text).toBe("(4");
+    });
+
+    it("should delete the digit before a separator on backspace", () => {
+      const formatter = createPhoneInputFormatter();
+      formatter.input("4155");
+      expect(formatter.getState()).toMatchObject({ text: "(415) 5", caret: 7 });
+      expect(formatter.backspace()).toMatchObject({ text: "(415", caret: 4 });
+      expect(formatter.backspace()).toMatchObject({ text: "(41", caret: 3 });
+    });
+
+    it("should backspace over the extension marker", () => {
+      const formatter = createPhoneInputFormatter();
+      formatter.input("4155550123x");
+      expect(formatter.backspace().text).toBe("(415) 555-0123");
+      expect(formatter.backspace().text).toBe("(415) 555-012");
+    });
+
+    it("should edit at the caret", () => {
+      const formatter = createPhoneInputFormatter();
+      formatter.input("4155550123");
+      // Caret after "(415) 5"
+      expect(formatter.setCaret(7).caret).toBe(7);
+      expect(formatter.backspace()).toMatchObject({
+        text: "(415) 550-123",
+        caret: 4,
+      });
+      expect(formatter.input("9")).toMatchObject({
+        text: "(415) 955-0123",
+        caret: 7,
+      });
+    });
+
+    it("should accept a whole partial string with a caret", () => {
+      const formatter = createPhoneInputFormatter();
+      expect(formatter.setValue("415555")).toMatchObject({
+        text: "(415) 555",
+        caret: 9,
+      });
+      expect(formatter.setValue("415-555", 3)).toMatchObject({
+        text: "(415) 555",
+        caret: 4,
+      });
+    });
+
+    it("should format international numbers", () => {
+      const formatter = createPhoneInputFormatter();
+      expect(formatter.input("+").text).toBe("+");
+      expect(formatter.input("4").text).toBe("+4");
+      expect(formatter.input("4").text).toBe("+44");
+      expect(formatter.input("20").text).toBe("+44 20");
+      expect(formatter.input("79460958")).toMatchObject({
+        text: "+44 20 7946 0958",
+        caret: 16,
+        valid: true,
+      });
+    });
+
+    it("should format national numbers for the country option", () => {
+      const formatter = createPhoneInputFormatter({ country: "GB" });
+      expect(formatter.input("0").text).toBe("0");
+      expect(formatter.input("20").text).toBe("020");
+      expect(formatter.input("7").text).toBe("020 7");
+      expect(formatter.input("9460958")).toMatchObject({
+        text: "020 7946 0958",
+        valid: true,
+      });
+      expect(formatter.setValue("07700900123").text).toBe("07700 900123");
+      expect(formatter.setValue("0044 20 7946").text).toBe("00 44 20 7946");
+    });
+
+    it("should leave numbers that are too long unformatted", () => {
+      const formatter = createPhoneInputFormatter();
+      expect(formatter.input("41555501234").text).toBe("41555501234");
+    });
+
+    it("should reset the value", () => {
+      const formatter = createPhoneInputFormatter();
+      formatter.input("415");
+      expect(formatter.reset()).toEqual({
+        text: "",
+        caret: 0,
+        digits: "",
+        extension: "",
+        valid: false,
+      });
+    });
+  });
+
+  describe("extractPhoneNumbers", () => {
+    it("should find numbers with their positions", () => {
+      const text = "Call (415) 555-0123 or 415.555.0124 today.";
+      const matches = extractPhoneNumbers(text);
+      expect(matches).toEqual([
+        {
+          text: "(415) 555-0123",
+          start: 5,
+          end: 19,
+          value: "4155550123",
+          e164: "+14155550123",
+          valid: true,
+        },
+        {
+          text: "415.555.0124",
+          start: 23,
+          end: 35,
+          value: "4155550124",
+          e164: "+14155550124",
+          valid: true,
+        },
+      ]);
+      matches.forEach((match) => {
+        expect(text.slice(match.start, match.end)).toBe(match.text);
+      });
+    });
+
+    it("should find dash-formatted numbers with a leading 1", () => {
+      expect(extractPhoneNumbers("Toll free: 1-800-555-0199")).toMatchObject([
+        { text: "1-800-555-0199", value: "8005550199" },
+      ]);
+    });
+
+    it("should include extensions", () => {
+      expect(
+        extractPhoneNumbers("Office: (415) 555-0123 ext. 42, thanks")
+      ).toMatchObject([
+        { text: "(415) 555-0123 ext. 42", value: "4155550123x42" },
+      ]);
+      expect(extractPhoneNumbers("415-555-0123 x7.")).toMatchObject([
+        { text: "415-555-0123 x7", value: "4155550123x7" },
+      ]);
+    });
+
+    it("should find international numbers", () => {
+      expect(
+        extractPhoneNumbers("London office +44 20 7946 0958 (main)")
+      ).toMatchObject([
+        {
+          text: "+44 20 7946 0958",
+          start: 14,
+          end: 30,
+          value: "+442079460958",
+          e164: "+442079460958",
+          valid: true,
+        },
+      ]);
+    });
+
+    it("should read national numbers using the country option", () => {
+      expect(
+        extractPhoneNumbers("Ring 020 7946 0958", { country: "GB" })
+      ).toMatchObject([{ text: "020 7946 0958", e164: "+442079460958" }]);
+    });
+
+    it("should find conference sequences", () => {
+      expect(
+        extractPhoneNumbers("Dial in: 8662345689,223345099#,*324569 now")
+      ).toMatchObject([
+        {
+          text: "8662345689,223345099#,*324569",
+          value: "8662345689,223345099#,*324569",
+          e164: null,
+        },
+      ]);
+    });
+
+    it("should ignore dates, short numbers and unbalanced parentheses", () => {
+      expect(extractPhoneNumbers("Invoice 2024-01-15, total 1,234,567")).toEqual(
+        []
+      );
+      expect(extractPhoneNumbers("Order #123456 shipped")).toEqual([]);
+      expect(extractPhoneNumbers("(call 415-555-0123)")).toMatchObject([
+        { text: "415-555-0123", start: 6 },
+      ]);
+    });
+
+    it("should only return valid numbers when requested", () => {
+      const text = "Fake 123-456-7890, real 415-555-0123";
+      expect(extractPhoneNumbers(text)).toHaveLength(2);
+      expect(extractPhoneNumbers(text, { validOnly: true })).toMatchObject([
+        { text: "415-555-0123", valid: true },
+      ]);
+    });
+
+    it("should return an empty array for text without numbers", () => {
+      expect(extractPhoneNumbers("")).toEqual([]);
+      expect(extractPhoneNumbers("No numbers here")).toEqual([]);
+    });
+  });
+
+  describe("parsePhone", () => {
+    it("should parse US numbers into their parts", () => {
+      expect(parsePhone("(415) 555-0123 ext. 42")).toMatchObject({
+        input: "(415) 555-0123 ext. 42",
+        countryCode: "1",
+        country: "US",
+        nationalNumber: "4155550123",
+        extension: "42",
+        conferenceParts: [],
+        isConference: false,
+        valid: true,
+        possible: true,
+        type: "fixed-line-or-mobile",
+      });
+    });
+
+    it("should parse international and national numbers", () => {
+      expect(parsePhone("+44 20 7946 0958")).toMatchObject({
+        countryCode: "44",
+        country: "GB",
+        nationalNumber: "2079460958",
+        extension: null,
+        valid: true,
+      });
+      expect(
+        parsePhone("07700 900123", { country: "GB" })
+      ).toMatchObject({ countryCode: "44", type: "mobile" });
+    });
+
+    it("should parse conference sequences", () => {
+      const phone = parsePhone("8662345689,223345099#,*324569");
+      expect(phone).toMatchObject({
+        nationalNumber: "8662345689",
+        conferenceParts: ["8662345689", "223345099#", "*324569"],
+        isConference: true,
+        valid: true,
+      });
+    });
+
+    it("should report invalid numbers through flags", () => {
+      expect(parsePhone("123-456-7890")).toMatchObject({
+        valid: false,
+        possible: true,
+      });
+      expect(parsePhone("555-0123")).toMatchObject({
+        valid: false,
+        possible: false,
+      });
+    });
+
+    it("should return null when there is no number", () => {
+      expect(parsePhone(null)).toBeNull();
+      expect(parsePhone(undefined)).toBeNull();
+      expect(parsePhone("")).toBeNull();
+      expect(parsePhone("call me")).toBeNull();
+    });
+
+    it("should parse numeric values", () => {
+      expect(parsePhone(4155550123)?.nationalNumber).toBe("4155550123");
+    });
+
+    it("should be immutable", () => {
+      const phone = parsePhone("8662345689,223345099#")!;
+      expect(Object.isFrozen(phone)).toBe(true);
+      expect(Object.isFrozen(phone.conferenceParts)).toBe(true);
+      expect(() => {
+        (phone as { extension: string | null }).extension = "1";
+      }).toThrow(TypeError);
+    });
+
+    it("should format using formatPhone styles", () => {
+      const phone = parsePhone("415.555.0123 x42")!;
+      expect(phone.format()).toBe("(415) 555-0123 x42");
+      expect(phone.format("database")).toBe("4155550123x42");
+      expect(phone.format("e164")).toBe("+14155550123");
+      expect(phone.format("rfc3966")).toBe("tel:+1-415-555-0123;ext=42");
+      expect(
+        parsePhone("020 7946 0958", { country: "GB" })!.format("international")
+      ).toBe("+44 20 7946 0958");
+      expect(parsePhone("8662345689,223345099#")!.format("e164")).toBeNull();
+    });
+
+    it("should compare numbers regardless of how they were written", () => {
+      const phone = parsePhone("(415) 555-0123")!;
+      expect(phone.equals("415-555-0123")).toBe(true);
+      expect(phone.equals("+1 415.555.0123")).toBe(true);
+      expect(phone.equals(parsePhone("1 (415) 555 0123"))).toBe(true);
+      expect(phone.equals("415-555-0124")).toBe(false);
+      expect(phone.equals("415-555-0123 x42")).toBe(false);
+      expect(phone.equals(null)).toBe(false);
+      expect(phone.equals("")).toBe(false);
+    });
+
+    it("should compare numbers using the parsing country", () => {
+      const phone = parsePhone("020 7946 0958", { country: "GB" })!;
+      expect(phone.equals("+44 (0)20 7946 0958")).toBe(true);
+      expect(phone.equals("0044 20 7946 0958")).toBe(true);
+      expect(phone.equals("+1 207 946 0958")).toBe(false);
+    });
+
+    it("should compare numbers using the country of the number", () => {
+      expect(parsePhone("+44 20 7946 0958")!.equals("020 7946 0958")).toBe(true);
+      expect(parsePhone("+1 415 555 0123")!.equals("415-555-0123")).toBe(true);
+    });
+
+    it("should compare conference sequences", () => {
+      const phone = parsePhone("8662345689,223345099#")!;
+      expect(phone.equals("(866) 234-5689,223345099#")).toBe(true);
+      expect(phone.equals("8662345689,223345098#")).toBe(false);
+      expect(phone.equals("8662345689")).toBe(false);
+    });
+  });
 });
 
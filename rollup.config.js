@@ -32,17 +32,18 @@ export default [
   {
     input: [
       'src/index.ts',
-      'src/address.ts',
+      'src/address/index.ts',
       'src/array.ts',
-      'src/currency.ts',
+      'src/currency/index.ts',
       'src/date/index.ts',
+      'src/decimal.ts',
       'src/enum.ts',
       'src/hash.ts',
       'src/is.ts',
       'src/number.ts',
       'src/object.ts',
       'src/password.ts',
-      'src/phone.ts',
+      'src/phone/index.ts',
       'src/random.ts',
       'src/regex.ts',
       'src/string.ts',
@@ -0,0 +1,586 @@
+/**
+ * Country utilities
+ *
+ * ISO 3166-1 country codes and names, and functions for normalizing how a country is written
+ */
+
+import { toString } from "../string";
+import { isNullOrUndefined } from "../is";
+import { createTypedEnum } from "../enum";
+
+/**
+ * ISO 3166-1 countries, keyed by alpha-2 code
+ * Each entry has the English short name as its label, the alpha-3 and numeric codes,
+ * and other names the country is commonly written as
+ *
+ * @example
+ * ```ts
+ * COUNTRY.getLabel("DE") // "Germany"
+ * COUNTRY.enumMap.US.alpha3 // "USA"
+ * COUNTRY.isValueValid("ZZ") // false
+ * ```
+ */
+export const COUNTRY = createTypedEnum({
+  AF: { label: "Afghanistan", alpha3: "AFG", numeric: "004" },
+  AX: { label: "Åland Islands", alpha3: "ALA", numeric: "248" },
+  AL: { label: "Albania", alpha3: "ALB", numeric: "008" },
+  DZ: { label: "Algeria", alpha3: "DZA", numeric: "012" },
+  AS: { label: "American Samoa", alpha3: "ASM", numeric: "016" },
+  AD: { label: "Andorra", alpha3: "AND", numeric: "020" },
+  AO: { label: "Angola", alpha3: "AGO", numeric: "024" },
+  AI: { label: "Anguilla", alpha3: "AIA", numeric: "660" },
+  AQ: { label: "Antarctica", alpha3: "ATA", numeric: "010" },
+  AG: { label: "Antigua and Barbuda", alpha3: "ATG", numeric: "028" },
+  AR: { label: "Argentina", alpha3: "ARG", numeric: "032" },
+  AM: { label: "Armenia", alpha3: "ARM", numeric: "051" },
+  AW: { label: "Aruba", alpha3: "ABW", numeric: "533" },
+  AU: { label: "Australia", alpha3: "AUS", numeric: "036" },
+  AT: {
+    label: "Austria",
+    alpha3: "AUT",
+    numeric: "040",
+    aliases: ["Österreich"],
+  },
+  AZ: { label: "Azerbaijan", alpha3: "AZE", numeric: "031" },
+  BS: { label: "Bahamas", alpha3: "BHS", numeric: "044" },
+  BH: { label: "Bahrain", alpha3: "BHR", numeric: "048" },
+  BD: { label: "Bangladesh", alpha3: "BGD", numeric: "050" },
+  BB: { label: "Barbados", alpha3: "BRB", numeric: "052" },
+  BY: { label: "Belarus", alpha3: "BLR", numeric: "112" },
+  BE: {
+    label: "Belgium",
+    alpha3: "BEL",
+    numeric: "056",
+    aliases: ["Belgique", "België"],
+  },
+  BZ: { label: "Belize", alpha3: "BLZ", numeric: "084" },
+  BJ: { label: "Benin", alpha3: "BEN", numeric: "204" },
+  BM: { label: "Bermuda", alpha3: "BMU", numeric: "060" },
+  BT: { label: "Bhutan", alpha3: "BTN", numeric: "064" },
+  BO: {
+    label: "Bolivia",
+    alpha3: "BOL",
+    numeric: "068",
+    aliases: ["Bolivia (Plurinational State of)"],
+  },
+  BQ: {
+    label: "Bonaire, Sint Eustatius and Saba",
+    alpha3: "BES",
+    numeric: "535",
+    aliases: ["Caribbean Netherlands"],
+  },
+  BA: { label: "Bosnia and Herzegovina", alpha3: "BIH", numeric: "070" },
+  BW: { label: "Botswana", alpha3: "BWA", numeric: "072" },
+  BV: { label: "Bouvet Island", alpha3: "BVT", numeric: "074" },
+  BR: { label: "Brazil", alpha3: "BRA", numeric: "076", aliases: ["Brasil"] },
+  IO: {
+    label: "British Indian Ocean Territory",
+    alpha3: "IOT",
+    numeric: "086",
+  },
+  BN: { label: "Brunei", alpha3: "BRN", numeric: "096" },
+  BG: { label: "Bulgaria", alpha3: "BGR", numeric: "100" },
+  BF: { label: "Burkina Faso", alpha3: "BFA", numeric: "854" },
+  BI: { label: "Burundi", alpha3: "BDI", numeric: "108" },
+  CV: {
+    label: "Cabo Verde",
+    alpha3: "CPV",
+    numeric: "132",
+    aliases: ["Cape Verde"],
+  },
+  KH: { label: "Cambodia", alpha3: "KHM", numeric: "116" },
+  CM: { label: "Cameroon", alpha3: "CMR", numeric: "120" },
+  CA: { label: "Canada", alpha3: "CAN", numeric: "124" },
+  KY: { label: "Cayman Islands", alpha3: "CYM", numeric: "136" },
+  CF: { label: "Central African Republic", alpha3: "CAF", numeric: "140" },
+  TD: { label: "Chad", alpha3: "TCD", numeric: "148" },
+  CL: { label: "Chile", alpha3: "CHL", numeric: "152" },
+  CN: {
+    label: "China",
+    alpha3: "CHN",
+    numeric: "156",
+    aliases: ["People's Republic of China", "PRC"],
+  },
+  CX: { label: "Christmas Island", alpha3: "CXR", numeric: "162" },
+  CC: { label: "Cocos (Keeling) Islands", alpha3: "CCK", numeric: "166" },
+  CO: { label: "Colombia", alpha3: "COL", numeric: "170" },
+  KM: { label: "Comoros", alpha3: "COM", numeric: "174" },
+  CG: {
+    label: "Republic of the Congo",
+    alpha3: "COG",
+    numeric: "178",
+    aliases: ["Congo", "Congo-Brazzaville"],
+  },
+  CD: {
+    label: "Democratic Republic of the Congo",
+    alpha3: "COD",
+    numeric: "180",
+    aliases: ["DR Congo", "Congo-Kinshasa"],
+  },
+  CK: { label: "Cook Islands", alpha3: "COK", numeric: "184" },
+  CR: { label: "Costa Rica", alpha3: "CRI", numeric: "188" },
+  CI: {
+    label: "Côte d'Ivoire",
+    alpha3: "CIV",
+    numeric: "384",
+    aliases: ["Ivory Coast"],
+  },
+  HR: { label: "Croatia", alpha3: "HRV", numeric: "191" },
+  CU: { label: "Cuba", alpha3: "CUB", numeric: "192" },
+  CW: { label: "Curaçao", alpha3: "CUW", numeric: "531" },
+  CY: { label: "Cyprus", alpha3: "CYP", numeric: "196" },
+  CZ: {
+    label: "Czechia",
+    alpha3: "CZE",
+    numeric: "203",
+    aliases: ["Czech Republic"],
+  },
+  DK: { label: "Denmark", alpha3: "DNK", numeric: "208", aliases: ["Danmark"] },
+  DJ: { label: "Djibouti", alpha3: "DJI", numeric: "262" },
+  DM: { label: "Dominica", alpha3: "DMA", numeric: "212" },
+  DO: { label: "Dominican Republic", alpha3: "DOM", numeric: "214" },
+  EC: { label: "Ecuador", alpha3: "ECU", numeric: "218" },
+  EG: { label: "Egypt", alpha3: "EGY", numeric: "818" },
+  SV: { label: "El Salvador", alpha3: "SLV", numeric: "222" },
+  GQ: { label: "Equatorial Guinea", alpha3: "GNQ", numeric: "226" },
+  ER: { label: "Eritrea", alpha3: "ERI", numeric: "232" },
+  EE: { label: "Estonia", alpha3: "EST", numeric: "233" },
+  SZ: {
+    label: "Eswatini",
+    alpha3: "SWZ",
+    numeric: "748",
+    aliases: ["Swaziland"],
+  },
+  ET: { label: "Ethiopia", alpha3: "ETH", numeric: "231" },
+  FK: { label: "Falkland Islands", alpha3: "FLK", numeric: "238" },
+  FO: { label: "Faroe Islands", alpha3: "FRO", numeric: "234" },
+  FJ: { label: "Fiji", alpha3: "FJI", numeric: "242" },
+  FI: { label: "Finland", alpha3: "FIN", numeric: "246", aliases: ["Suomi"] },
+  FR: { label: "France", alpha3: "FRA", numeric: "250" },
+  GF: { label: "French Guiana", alpha3: "GUF", numeric: "254" },
+  PF: { label: "French Polynesia", alpha3: "PYF", numeric: "258" },
+  TF: { label: "French Southern Territories", alpha3: "ATF", numeric: "260" },
+  GA: { label: "Gabon", alpha3: "GAB", numeric: "266" },
+  GM: { label: "Gambia", alpha3: "GMB", numeric: "270" },
+  GE: { label: "Georgia", alpha3: "GEO", numeric: "268" },
+  DE: {
+    label: "Germany",
+    alpha3: "DEU",
+    numeric: "276",
+    aliases: ["Deutschland"],
+  },
+  GH: { label: "Ghana", alpha3: "GHA", numeric: "288" },
+  GI: { label: "Gibraltar", alpha3: "GIB", numeric: "292" },
+  GR: { label: "Greece", alpha3: "GRC", numeric: "300" },
+  GL: { label: "Greenland", alpha3: "GRL", numeric: "304" },
+  GD: { label: "Grenada", alpha3: "GRD", numeric: "308" },
+  GP: { label: "Guadeloupe", alpha3: "GLP", numeric: "312" },
+  GU: { label: "Guam", alpha3: "GUM", numeric: "316" },
+  GT: { label: "Guatemala", alpha3: "GTM", numeric: "320" },
+  GG: { label: "Guernsey", alpha3: "GGY", numeric: "831" },
+  GN: { label: "Guinea", alpha3: "GIN", numeric: "324" },
+  GW: { label: "Guinea-Bissau", alpha3: "GNB", numeric: "624" },
+  GY: { label: "Guyana", alpha3: "GUY", numeric: "328" },
+  HT: { label: "Haiti", alpha3: "HTI", numeric: "332" },
+  HM: {
+    label: "Heard Island and McDonald Islands",
+    alpha3: "HMD",
+    numeric: "334",
+  },
+  VA: {
+    label: "Vatican City",
+    alpha3: "VAT",
+    numeric: "336",
+    aliases: ["Holy See"],
+  },
+  HN: { label: "Honduras", alpha3: "HND", numeric: "340" },
+  HK: { label: "Hong Kong", alpha3: "HKG", numeric: "344" },
+  HU: { label: "Hungary", alpha3: "HUN", numeric: "348" },
+  IS: { label: "Iceland", alpha3: "ISL", numeric: "352" },
+  IN: { label: "India", alpha3: "IND", numeric: "356" },
+  ID: { label: "Indonesia", alpha3: "IDN", numeric: "360" },
+  IR: {
+    label: "Iran",
+    alpha3: "IRN",
+    numeric: "364",
+    aliases: ["Islamic Republic of Iran"],
+  },
+  IQ: { label: "Iraq", alpha3: "IRQ", numeric: "368" },
+  IE: { label: "Ireland", alpha3: "IRL", numeric: "372" },
+  IM: { label: "Isle of Man", alpha3: "IMN", numeric: "833" },
+  IL: { label: "Israel", alpha3: "ISR", numeric: "376" },
+  IT: { label: "Italy", alpha3: "ITA", numeric: "380", aliases: ["Italia"] },
+  JM: { label: "Jamaica", alpha3: "JAM", numeric: "388" },
+  JP: { label: "Japan", alpha3: "JPN", numeric: "392" },
+  JE: { label: "Jersey", alpha3: "JEY", numeric: "832" },
+  JO: { label: "Jordan", alpha3: "JOR", numeric: "400" },
+  KZ: { label: "Kazakhstan", alpha3: "KAZ", numeric: "398" },
+  KE: { label: "Kenya", alpha3: "KEN", numeric: "404" },
+  KI: { label: "Kiribati", alpha3: "KIR", numeric: "296" },
+  KP: {
+    label: "North Korea",
+    alpha3: "PRK",
+    numeric: "408",
+    aliases: ["Democratic People's Republic of Korea"],
+  },
+  KR: {
+    label: "South Korea",
+    alpha3: "KOR",
+    numeric: "410",
+    aliases: ["Korea", "Republic of Korea"],
+  },
+  KW: { label: "Kuwait", alpha3: "KWT", numeric: "414" },
+  KG: { label: "Kyrgyzstan", alpha3: "KGZ", numeric: "417" },
+  LA: {
+    label: "Laos",
+    alpha3: "LAO",
+    numeric: "418",
+    aliases: ["Lao People's Democratic Republic"],
+  },
+  LV: { label: "Latvia", alpha3: "LVA", numeric: "428" },
+  LB: { label: "Lebanon", alpha3: "LBN", numeric: "422" },
+  LS: { label: "Lesotho", alpha3: "LSO", numeric: "426" },
+  LR: { label: "Liberia", alpha3: "LBR", numeric: "430" },
+  LY: { label: "Libya", alpha3: "LBY", numeric: "434" },
+  LI: { label: "Liechtenstein", alpha3: "LIE", numeric: "438" },
+  LT: { label: "Lithuania", alpha3: "LTU", numeric: "440" },
+  LU: { label: "Luxembourg", alpha3: "LUX", numeric: "442" },
+  MO: { label: "Macao", alpha3: "MAC", numeric: "446", aliases: ["Macau"] },
+  MG: { label: "Madagascar", alpha3: "MDG", numeric: "450" },
+  MW: { label: "Malawi", alpha3: "MWI", numeric: "454" },
+  MY: { label: "Malaysia", alpha3: "MYS", numeric: "458" },
+  MV: { label: "Maldives", alpha3: "MDV", numeric: "462" },
+  ML: { label: "Mali", alpha3: "MLI", numeric: "466" },
+  MT: { label: "Malta", alpha3: "MLT", numeric: "470" },
+  MH: { label: "Marshall Islands", alpha3: "MHL", numeric: "584" },
+  MQ: { label: "Martinique", alpha3: "MTQ", numeric: "474" },
+  MR: { label: "Mauritania", alpha3: "MRT", numeric: "478" },
+  MU: { label: "Mauritius", alpha3: "MUS", numeric: "480" },
+  YT: { label: "Mayotte", alpha3: "MYT", numeric: "175" },
+  MX: { label: "Mexico", alpha3: "MEX", numeric: "484" },
+  FM: {
+    label: "Micronesia",
+    alpha3: "FSM",
+    numeric: "583",
+    aliases: ["Federated States of Micronesia"],
+  },
+  MD: {
+    label: "Moldova",
+    alpha3: "MDA",
+    numeric: "498",
+    aliases: ["Republic of Moldova"],
+  },
+  MC: { label: "Monaco", alpha3: "MCO", numeric: "492" },
+  MN: { label: "Mongolia", alpha3: "MNG", numeric: "496" },
+  ME: { label: "Montenegro", alpha3: "MNE", numeric: "499" },
+  MS: { label: "Montserrat", alpha3: "MSR", numeric: "500" },
+  MA: { label: "Morocco", alpha3: "MAR", numeric: "504" },
+  MZ: { label: "Mozambique", alpha3: "MOZ", numeric: "508" },
+  MM: { label: "Myanmar", alpha3: "MMR", numeric: "104", aliases: ["Burma"] },
+  NA: { label: "Namibia", alpha3: "NAM", numeric: "516" },
+  NR: { label: "Nauru", alpha3: "NRU", numeric: "520" },
+  NP: { label: "Nepal", alpha3: "NPL", numeric: "524" },
+  NL: {
+    label: "Netherlands",
+    alpha3: "NLD",
+    numeric: "528",
+    aliases: ["The Netherlands", "Holland", "Nederland"],
+  },
+  NC: { label: "New Caledonia", alpha3: "NCL", numeric: "540" },
+  NZ: { label: "New Zealand", alpha3: "NZL", numeric: "554" },
+  NI: { label: "Nicaragua", alpha3: "NIC", numeric: "558" },
+  NE: { label: "Niger", alpha3: "NER", numeric: "562" },
+  NG: { label: "Nigeria", alpha3: "NGA", numeric: "566" },
+  NU: { label: "Niue", alpha3: "NIU", numeric: "570" },
+  NF: { label: "Norfolk Island", alpha3: "NFK", numeric: "574" },
+  MK: {
+    label: "North Macedonia",
+    alpha3: "MKD",
+    numeric: "807",
+    aliases: ["Macedonia"],
+  },
+  MP: { label: "Northern Mariana Islands", alpha3: "MNP", numeric: "580" },
+  NO: { label: "Norway", alpha3: "NOR", numeric: "578", aliases: ["Norge"] },
+  OM: { label: "Oman", alpha3: "OMN", numeric: "512" },
+  PK: { label: "Pakistan", alpha3: "PAK", numeric: "586" },
+  PW: { label: "Palau", alpha3: "PLW", numeric: "585" },
+  PS: {
+    label: "Palestine",
+    alpha3: "PSE",
+    numeric: "275",
+    aliases: ["State of Palestine", "Palestinian Territories"],
+  },
+  PA: { label: "Panama", alpha3: "PAN", numeric: "591" },
+  PG: { label: "Papua New Guinea", alpha3: "PNG", numeric: "598" },
+  PY: { label: "Paraguay", alpha3: "PRY", numeric: "600" },
+  PE: { label: "Peru", alpha3: "PER", numeric: "604" },
+  PH: { label: "Philippines", alpha3: "PHL", numeric: "608" },
+  PN: { label: "Pitcairn", alpha3: "PCN", numeric: "612" },
+  PL: { label: "Poland", alpha3: "POL", numeric: "616", aliases: ["Polska"] },
+  PT: { label: "Portugal", alpha3: "PRT", numeric: "620" },
+  PR: { label: "Puerto Rico", alpha3: "PRI", numeric: "630" },
+  QA: { label: "Qatar", alpha3: "QAT", numeric: "634" },
+  RE: { label: "Réunion", alpha3: "REU", numeric: "638" },
+  RO: { label: "Romania", alpha3: "ROU", numeric: "642" },
+  RU: {
+    label: "Russia",
+    alpha3: "RUS",
+    numeric: "643",
+    aliases: ["Russian Federation"],
+  },
+  RW: { label: "Rwanda", alpha3: "RWA", numeric: "646" },
+  BL: { label: "Saint Barthélemy", alpha3: "BLM", numeric: "652" },
+  SH: { label: "Saint Helena", alpha3: "SHN", numeric: "654" },
+  KN: { label: "Saint Kitts and Nevis", alpha3: "KNA", numeric: "659" },
+  LC: { label: "Saint Lucia", alpha3: "LCA", numeric: "662" },
+  MF: { label: "Saint Martin", alpha3: "MAF", numeric: "663" },
+  PM: { label: "Saint Pierre and Miquelon", alpha3: "SPM", numeric: "666" },
+  VC: {
+    label: "Saint Vincent and the Grenadines",
+    alpha3: "VCT",
+    numeric: "670",
+  },
+  WS: { label: "Samoa", alpha3: "WSM", numeric: "882" },
+  SM: { label: "San Marino", alpha3: "SMR", numeric: "674" },
+  ST: { label: "São Tomé and Príncipe", alpha3: "STP", numeric: "678" },
+  SA: { label: "Saudi Arabia", alpha3: "SAU", numeric: "682" },
+  SN: { label: "Senegal", alpha3: "SEN", numeric: "686" },
+  RS: { label: "Serbia", alpha3: "SRB", numeric: "688" },
+  SC: { label: "Seychelles", alpha3: "SYC", numeric: "690" },
+  SL: { label: "Sierra Leone", alpha3: "SLE", numeric: "694" },
+  SG: { label: "Singapore", alpha3: "SGP", numeric: "702" },
+  SX: { label: "Sint Maarten", alpha3: "SXM", numeric: "534" },
+  SK: { label: "Slovakia", alpha3: "SVK", numeric: "703" },
+  SI: { label: "Slovenia", alpha3: "SVN", numeric: "705" },
+  SB: { label: "Solomon Islands", alpha3: "SLB", numeric: "090" },
+  SO: { label: "Somalia", alpha3: "SOM", numeric: "706" },
+  ZA: { label: "South Africa", alpha3: "ZAF", numeric: "710" },
+  GS: {
+    label: "South Georgia and the South Sandwich Islands",
+    alpha3: "SGS",
+    numeric: "239",
+  },
+  SS: { label: "South Sudan", alpha3: "SSD", numeric: "728" },
+  ES: { label: "Spain", alpha3: "ESP", numeric: "724", aliases: ["España"] },
+  LK: { label: "Sri Lanka", alpha3: "LKA", numeric: "144" },
+  SD: { label: "Sudan", alpha3: "SDN", numeric: "729" },
+  SR: { label: "Suriname", alpha3: "SUR", numeric: "740" },
+  SJ: { label: "Svalbard and Jan Mayen", alpha3: "SJM", numeric: "744" },
+  SE: { label: "Sweden", alpha3: "SWE", numeric: "752", aliases: ["Sverige"] },
+  CH: {
+    label: "Switzerland",
+    alpha3: "CHE",
+    numeric: "756",
+    aliases: ["Schweiz", "Suisse", "Svizzera"],
+  },
+  SY: {
+    label: "Syria",
+    alpha3: "SYR",
+    numeric: "760",
+    aliases: ["Syrian Arab Republic"],
+  },
+  TW: { label: "Taiwan", alpha3: "TWN", numeric: "158" },
+  TJ: { label: "Tajikistan", alpha3: "TJK", numeric: "762" },
+  TZ: {
+    label: "Tanzania",
+    alpha3: "TZA",
+    numeric: "834",
+    aliases: ["United Republic of Tanzania"],
+  },
+  TH: { label: "Thailand", alpha3: "THA", numeric: "764" },
+  TL: {
+    label: "Timor-Leste",
+    alpha3: "TLS",
+    numeric: "626",
+    aliases: ["East Timor"],
+  },
+  TG: { label: "Togo", alpha3: "TGO", numeric: "768" },
+  TK: { label: "Tokelau", alpha3: "TKL", numeric: "772" },
+  TO: { label: "Tonga", alpha3: "TON", numeric: "776" },
+  TT: { label: "Trinidad and Tobago", alpha3: "TTO", numeric: "780" },
+  TN: { label: "Tunisia", alpha3: "TUN", numeric: "788" },
+  TR: { label: "Türkiye", alpha3: "TUR", numeric: "792", aliases: ["Turkey"] },
+  TM: { label: "Turkmenistan", alpha3: "TKM", numeric: "795" },
+  TC: { label: "Turks and Caicos Islands", alpha3: "TCA", numeric: "796" },
+  TV: { label: "Tuvalu", alpha3: "TUV", numeric: "798" },
+  UG: { label: "Uganda", alpha3: "UGA", numeric: "800" },
+  UA: { label: "Ukraine", alpha3: "UKR", numeric: "804" },
+  AE: {
+    label: "United Arab Emirates",
+    alpha3: "ARE",
+    numeric: "784",
+    aliases: ["UAE"],
+  },
+  GB: {
+    label: "United Kingdom",
+    alpha3: "GBR",
+    numeric: "826",
+    aliases: [
+      "United Kingdom of Great Britain and Northern Ireland",
+      "Great Britain",
+      "Britain",
+      "UK",
+      "England",
+      "Scotland",
+      "Wales",
+      "Northern Ireland",
+    ],
+  },
+  US: {
+    label: "United States",
+    alpha3: "USA",
+    numeric: "840",
+    aliases: ["United States of America", "America"],
+  },
+  UM: {
+    label: "United States Minor Outlying Islands",
+    alpha3: "UMI",
+    numeric: "581",
+  },
+  UY: { label: "Uruguay", alpha3: "URY", numeric: "858" },
+  UZ: { label: "Uzbekistan", alpha3: "UZB", numeric: "860" },
+  VU: { label: "Vanuatu", alpha3: "VUT", numeric: "548" },
+  VE: {
+    label: "Venezuela",
+    alpha3: "VEN",
+    numeric: "862",
+    aliases: ["Venezuela (Bolivarian Republic of)"],
+  },
+  VN: {
+    label: "Vietnam",
+    alpha3: "VNM",
+    numeric: "704",
+    aliases: ["Viet Nam"],
+  },
+  VG: { label: "British Virgin Islands", alpha3: "VGB", numeric: "092" },
+  VI: { label: "United States Virgin Islands", alpha3: "VIR", numeric: "850" },
+  WF: { label: "Wallis and Futuna", alpha3: "WLF", numeric: "876" },
+  EH: { label: "Western Sahara", alpha3: "ESH", numeric: "732" },
+  YE: { label: "Yemen", alpha3: "YEM", numeric: "887" },
+  ZM: { label: "Zambia", alpha3: "ZMB", numeric: "894" },
+  ZW: { label: "Zimbabwe", alpha3: "ZWE", numeric: "716" },
+});
+
+/**
+ * ISO 3166-1 alpha-2 country code
+ */
+export type CountryCode = keyof typeof COUNTRY.values;
+
+/**
+ * How to write a country
+ * - alpha2: ISO 3166-1 alpha-2 code ("US")
+ * - alpha3: ISO 3166-1 alpha-3 code ("USA")
+ * - numeric: ISO 3166-1 numeric code ("840")
+ * - name: English short name ("United States")
+ */
+export type CountryFormat = "alpha2" | "alpha3" | "numeric" | "name";
+
+/**
+ * Options for normalizing countries
+ */
+export interface NormalizeCountryOptions<T> {
+  /**
+   * How to write the country
+   * @default "alpha2"
+   */
+  format?: CountryFormat;
+  /**
+   * Value to return when the country is not recognized (default: null)
+   */
+  defaultValue?: T;
+}
+
+/**
+ * Normalizes a country written as a name, an ISO 3166-1 code or a common alternative name
+ *
+ * Matching ignores case, accents and periods, so "U.K.", "mexico" and "MÉXICO" are all recognized.
+ *
+ * @param country - The country to normalize (name, alpha-2, alpha-3 or numeric code)
+ * @param options - Normalization options
+ * @returns The country in the requested format, or the default value if it is not recognized
+ *
+ * @example
+ * ```ts
+ * normalizeCountry("United States of America") // "US"
+ * normalizeCountry("deu") // "DE"
+ * normalizeCountry(826, { format: "name" }) // "United Kingdom"
+ * normalizeCountry("Deutschland", { format: "alpha3" }) // "DEU"
+ * normalizeCountry("U.K.", { format: "numeric" }) // "826"
+ * normalizeCountry("Atlantis") // null
+ * ```
+ */
+export function normalizeCountry<T extends string | null | undefined>(
+  country: unknown,
+  options: NormalizeCountryOptions<T> = {}
+): string | T {
+  const { format = "alpha2", defaultValue = null as T } = options;
+
+  const code = findCountryCode(country);
+  if (code === null) {
+    return defaultValue as string | T;
+  }
+
+  const entry = COUNTRY.enumMap[code];
+  if (format === "alpha3") return entry.alpha3;
+  if (format === "numeric") return entry.numeric;
+  if (format === "name") return entry.label;
+  return code;
+}
+
+/**
+ * Finds the alpha-2 code of a country written in any supported form
+ * @internal
+ */
+export function findCountryCode(country: unknown): CountryCode | null {
+  if (isNullOrUndefined(country)) {
+    return null;
+  }
+  const text = toString(country, "").trim();
+  if (text === "") {
+    return null;
+  }
+
+  // Numeric codes may be written without leading zeros
+  if (/^\d{1,3}$/.test(text)) {
+    const numeric = text.padStart(3, "0");
+    const entry = COUNTRY.options.find((option) => option.numeric === numeric);
+    return entry ? entry.value : null;
+  }
+
+  const key = toLookupKey(text);
+  const entry = COUNTRY.options.find(
+    (option) =>
+      option.value.toLowerCase() === key ||
+      option.alpha3.toLowerCase() === key ||
+      getNameKeys(option).includes(key)
+  );
+  return entry ? entry.value : null;
+}
+
+/**
+ * Gets the lookup keys of an entry's label and aliases
+ * @internal
+ */
+export function getNameKeys(entry: {
+  label: string;
+  aliases?: unknown;
+}): string[] {
+  const aliases = (entry.aliases as readonly string[] | undefined) ?? [];
+  return [entry.label, ...aliases].map(toLookupKey);
+}
+
+/**
+ * Simplifies a name or code for matching: lowercase, without accents, periods or apostrophes,
+ * with "&" written as "and" and hyphens, commas and repeated spaces as a single space
+ * @internal
+ */
+export function toLookupKey(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[.'’]/g, "")
+    .replace(/[\s,_-]+/g, " ")
+    .trim();
+}
@@ -1,14 +1,20 @@
 /**
  * Address formatting utilities
  *
- * This module provides functions for:
- * - Formatting postal codes (US and international formats)
- * - Formatting city/region/country combinations
- * - Formatting full addresses with various output formats
+ * Functions for formatting postal codes, city/region/country combinations and full addresses
  */
 
-import { toString } from "./string";
-import { isNullOrUndefined } from "./is";
+import { toString } from "../string";
+import { isNullOrUndefined } from "../is";
+import {
+  AddressField,
+  AddressTemplate,
+  DEFAULT_ADDRESS_TEMPLATE,
+  getAddressTemplate,
+} from "./templates";
+import { validatePostalCode } from "./postal";
+import { CountryFormat, normalizeCountry } from "./countries";
+import { RegionFormat, normalizeRegion } from "./regions";
 
 /**
  * Address component interface
@@ -40,6 +46,23 @@ export interface FormatAddressOptions {
    * @default ', '
    */
   separator?: string;
+  /**
+   * ISO 3166-1 alpha-2 code of the country whose address layout to use (see `getAddressTemplate`)
+   * Countries without a bundled template use the US layout. When not specified, the city,
+   * region and postal code are written as "City, Region PostalCode" (one per line in multi-line format)
+   */
+  country?: string;
+  /**
+   * How to write the region: "code" ("CA"), "iso" ("US-CA") or "name" ("California") (see `normalizeRegion`)
+   * Regions that are not recognized are written as given. When not specified, the region is written as given
+   */
+  regionFormat?: RegionFormat;
+  /**
+   * How to write the country: "alpha2" ("US"), "alpha3" ("USA"), "numeric" ("840") or "name" ("United States")
+   * (see `normalizeCountry`). Countries that are not recognized are written as given. When not specified,
+   * the country is written as given
+   */
+  countryFormat?: CountryFormat;
 }
 
 /**
@@ -50,6 +73,7 @@ export interface FormatAddressOptions {
  * @param options - Formatting options
  * @param options.format - Format style: 'standard' (12345 or 12345-6789), 'digits-only' (removes all non-digits), or 'hyphenated' (forces hyphen for 9-digit US codes)
  * @param options.defaultValue - Default value to return if postalCode is null/undefined (default: null)
+ * @param options.country - ISO 3166-1 alpha-2 country code; valid codes are written in the country's standard form (see validatePostalCode)
  * @returns Formatted postal code string, or the default value
  *
  * @example
@@ -60,6 +84,7 @@ export interface FormatAddressOptions {
  * formatPostalCode("SW1A 1AA") // "SW1A 1AA" (UK postcode)
  * formatPostalCode("123456789", { format: "digits-only" }) // "123456789"
  * formatPostalCode("12345-6789", { format: "hyphenated" }) // "12345-6789"
+ * formatPostalCode("k1a0b1", { country: "CA" }) // "K1A 0B1"
  * ```
  */
 export function formatPostalCode<T extends string | null | undefined>(
@@ -67,9 +92,10 @@ export function formatPostalCode<T extends string | null | undefined>(
   options: {
     format?: "standard" | "digits-only" | "hyphenated";
     defaultValue?: T;
+    country?: string;
   } = {}
 ): string | T {
-  const { format = "standard", defaultValue = null as T } = options;
+  const { format = "standard", defaultValue = null as T, country } = options;
 
   if (isNullOrUndefined(postalCode)) {
     return defaultValue as string | T;
@@ -81,6 +107,14 @@ export function formatPostalCode<T extends string | null | undefined>(
     return defaultValue as string | T;
   }
 
+  // Country formats: write valid codes in the country's standard form
+  if (country && format !== "digits-only") {
+    const { value } = validatePostalCode(postalStr, country);
+    if (value !== null) {
+      return value;
+    }
+  }
+
   // If format is digits-only, remove spaces and special characters but keep alphanumeric
   if (format === "digits-only") {
     return postalStr.replace(/[^a-zA-Z0-9]/g, "");
@@ -115,6 +149,8 @@ export function formatPostalCode<T extends string | null | undefined>(
  * @param options - Formatting options
  * @param options.separator - Separator between components (default: ", ")
  * @param options.defaultValue - Default value to return if all components are empty (default: null)
+ * @param options.regionFormat - How to write recognized regions: 'code', 'iso' or 'name' (default: as given)
+ * @param options.countryFormat - How to write recognized countries: 'alpha2', 'alpha3', 'numeric' or 'name' (default: as given)
  * @returns Formatted string, or the default value
  *
  * @example
@@ -123,6 +159,8 @@ export function formatPostalCode<T extends string | null | undefined>(
  * formatCityStateCountry({ city: "London", country: "UK" }) // "London, UK"
  * formatCityStateCountry({ city: "Paris", region: "Île-de-France", country: "France" }) // "Paris, Île-de-France, France"
  * formatCityStateCountry({ city: "New York", region: "NY", country: "USA" }, { separator: " | " }) // "New York | NY | USA"
+ * formatCityStateCountry({ city: "Los Angeles", region: "Calif.", country: "USA" }, { regionFormat: "code", countryFormat: "alpha2" }) // "Los Angeles, CA, US"
+ * formatCityStateCountry({ city: "Toronto", region: "ON", country: "CA" }, { regionFormat: "name", countryFormat: "name" }) // "Toronto, Ontario, Canada"
  * ```
  */
 export function formatCityStateCountry<T extends string | null | undefined>(
@@ -134,9 +172,12 @@ export function formatCityStateCountry<T extends string | null | undefined>(
   options: {
     separator?: string;
     defaultValue?: T;
+    regionFormat?: RegionFormat;
+    countryFormat?: CountryFormat;
   } = {}
 ): string | T {
   const { separator = ", ", defaultValue = null as T } = options;
+  components = formatRegionAndCountry(components, options);
 
   const parts: string[] = [];
 
@@ -190,6 +231,18 @@ export function formatCityStateCountry<T extends string | null | undefined>(
  * // URL query string (for Google Maps)
  * formatAddress(address, { style: "url-query" })
  * // "123+Main+St,+Apt+4B,+New+York,+NY+10001,+USA"
+ *
+ * // Country-specific layouts
+ * formatAddress({ street: "Unter den Linden 77", city: "Berlin", postalCode: "10117", country: "Germany" }, { country: "DE" })
+ * // "Unter den Linden 77, 10117 Berlin, Germany"
+ * formatAddress({ street: "10 Downing Street", city: "London", postalCode: "sw1a 2aa", country: "United Kingdom" }, { style: "multi-line", country: "GB" })
+ * // "10 Downing Street\nLONDON\nSW1A 2AA\nUnited Kingdom"
+ * formatAddress({ street: "1-1 Chiyoda", city: "Chiyoda-ku", region: "Tokyo", postalCode: "100-0001" }, { style: "multi-line", country: "JP" })
+ * // "〒100-0001\nTokyoChiyoda-ku\n1-1 Chiyoda"
+ *
+ * // Normalized region and country
+ * formatAddress({ street: "1 Infinite Loop", city: "Cupertino", region: "California", postalCode: "95014", country: "United States" }, { regionFormat: "code", countryFormat: "alpha3" })
+ * // "1 Infinite Loop, Cupertino, CA 95014, USA"
  * ```
  */
 export function formatAddress(
@@ -197,11 +250,20 @@ export function formatAddress(
   options: FormatAddressOptions = {}
 ): string {
   const { style = "single-line", html = false, separator = ", " } = options;
+  address = formatRegionAndCountry(address, options);
 
   const parts: string[] = [];
 
+  // Country-specific layout
+  const template = options.country
+    ? (getAddressTemplate(options.country) ?? DEFAULT_ADDRESS_TEMPLATE)
+    : null;
+  if (template) {
+    parts.push(...formatTemplateLines(address, template));
+  }
+
   // Street address - handle both string and array
-  if (address.street) {
+  if (!template && address.street) {
     if (Array.isArray(address.street)) {
       // Filter out empty strings and trim each line
       const streetLines = address.street
@@ -225,7 +287,7 @@ export function formatAddress(
   let cityRegionPostalCombined: string | null = null;
 
   // Only process city/region/postalCode if at least one has a value
-  if (hasCity || hasRegion || hasPostalCode) {
+  if (!template && (hasCity || hasRegion || hasPostalCode)) {
     const cityPart = address.city ? address.city.trim() : null;
     const regionPart = address.region ? address.region.trim() : null;
     const postalPart = address.postalCode ? address.postalCode.trim() : null;
@@ -298,3 +360,88 @@ export function formatAddress(
   // Single-line format (default)
   return parts.join(separator);
 }
+
+/**
+ * Rewrites recognized regions and countries in the requested formats
+ * The region is looked up in the layout country, or else in the address's country
+ */
+function formatRegionAndCountry<
+  C extends { region?: string | null; country?: string | null },
+>(
+  components: C,
+  options: {
+    regionFormat?: RegionFormat;
+    countryFormat?: CountryFormat;
+    country?: string;
+  }
+): C {
+  const { regionFormat, countryFormat } = options;
+  const { region, country } = components;
+  if (!regionFormat && !countryFormat) {
+    return components;
+  }
+
+  return {
+    ...components,
+    region:
+      regionFormat && region
+        ? normalizeRegion(region, {
+            country: options.country ?? country ?? undefined,
+            format: regionFormat,
+            defaultValue: region,
+          })
+        : region,
+    country:
+      countryFormat && country
+        ? normalizeCountry(country, {
+            format: countryFormat,
+            defaultValue: country,
+          })
+        : country,
+  };
+}
+
+/**
+ * Formats the lines of an address (without the country) using a country template
+ */
+function formatTemplateLines(
+  address: AddressComponents,
+  template: AddressTemplate
+): string[] {
+  const streetLines = (
+    Array.isArray(address.street) ? address.street : [address.street]
+  )
+    .map((line) => (line ? line.trim() : ""))
+    .filter((line) => line !== "");
+
+  const values: Record<AddressField, string> = {
+    street: streetLines.join(", "),
+    city: address.city ? address.city.trim() : "",
+    region: address.region ? address.region.trim() : "",
+    postalCode: address.postalCode ? address.postalCode.trim() : "",
+  };
+  template.uppercase?.forEach((field) => {
+    values[field] = values[field].toUpperCase();
+  });
+
+  const lines: string[] = [];
+  template.lines.forEach((line) => {
+    if (line === "{street}") {
+      lines.push(...streetLines);
+      return;
+    }
+    // Odd indexes are field names, even indexes the text around them
+    const tokens = line.split(/\{(street|city|region|postalCode)\}/);
+    let text = "";
+    for (let index = 1; index < tokens.length; index += 2) {
+      const value = values[tokens[index] as AddressField];
+      if (value === "") continue;
+      // Text before a field is dropped when nothing precedes it, except at the start of the line
+      text += text !== "" || index === 1 ? tokens[index - 1] + value : value;
+    }
+    if (text !== "") {
+      lines.push(text);
+    }
+  });
+  return lines;
+}
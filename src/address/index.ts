@@ -0,0 +1,52 @@
+/**
+ * Address utilities
+ *
+ * This module provides functions for:
+ * - Formatting postal codes (US and international formats)
+ * - Formatting city/region/country combinations
+ * - Formatting full addresses with various output formats
+ * - Laying out addresses using bundled country templates
+ * - Validating postal codes against bundled country formats
+ * - Parsing free-form address strings into components
+ * - Standardizing street lines (USPS Publication 28) and comparing addresses
+ * - Normalizing countries (ISO 3166-1) and regions (ISO 3166-2) written as names, abbreviations or codes
+ */
+
+// Export address templates
+export { getAddressTemplate } from "./templates";
+export type { AddressField, AddressTemplate } from "./templates";
+
+// Export formatting functions
+export * from "./formatting";
+
+// Export postal code validation
+export * from "./postal";
+
+// Export parsing functions
+export * from "./parsing";
+
+// Export standardization and comparison
+export * from "./standardization";
+
+// Export ISO 3166 countries and regions
+export { COUNTRY, normalizeCountry } from "./countries";
+export type {
+  CountryCode,
+  CountryFormat,
+  NormalizeCountryOptions,
+} from "./countries";
+export {
+  US_STATE,
+  CA_PROVINCE,
+  AU_STATE,
+  MX_STATE,
+  normalizeRegion,
+} from "./regions";
+export type {
+  UsStateCode,
+  CaProvinceCode,
+  AuStateCode,
+  MxStateCode,
+  RegionFormat,
+  NormalizeRegionOptions,
+} from "./regions";
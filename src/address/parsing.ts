@@ -0,0 +1,407 @@
+/**
+ * Address parsing utilities
+ *
+ * Functions for splitting free-form address strings into address components
+ */
+
+import { toString } from "../string";
+import { isNullOrUndefined } from "../is";
+import { AddressComponents } from "./formatting";
+import { validatePostalCode } from "./postal";
+import { findCountryCode } from "./countries";
+import { hasSubdivisions, normalizeRegion } from "./regions";
+import {
+  AddressField,
+  DEFAULT_ADDRESS_TEMPLATE,
+  getAddressTemplate,
+} from "./templates";
+
+/**
+ * Options for parsing addresses
+ */
+export interface ParseAddressOptions {
+  /**
+   * ISO 3166-1 alpha-2 code of the country to assume when the text does not name one
+   * @default "US"
+   */
+  country?: string;
+}
+
+/**
+ * An address parsed from free-form text
+ * Components are returned as written; pass the result to `formatAddress` to rebuild the string
+ */
+export interface ParsedAddress extends AddressComponents {
+  /** Street lines, including unit lines such as "Apt 4B" */
+  street: string[];
+  city: string | null;
+  region: string | null;
+  postalCode: string | null;
+  /** Country as written in the text, or null if the text does not name one */
+  country: string | null;
+  /** ISO 3166-1 alpha-2 code of the country named in the text, or of the assumed country */
+  countryCode: string;
+  /** Unit designator found in the street lines ("Apt 4B", "Suite 200", "#12"), or null */
+  unit: string | null;
+  /**
+   * How confident the parse is, from 0 to 1
+   * Based on which components were recognized and whether the postal code and region
+   * are valid for the country
+   */
+  confidence: number;
+}
+
+/**
+ * Common street suffixes, used to find where a street ends when there are no commas
+ */
+const STREET_SUFFIX_PATTERN =
+  "street|st|avenue|ave|road|rd|boulevard|blvd|drive|dr|lane|ln|court|ct|place|pl|way|terrace|ter|circle|cir|parkway|pkwy|highway|hwy|square|sq|trail|trl|alley|aly|plaza|plz";
+
+/**
+ * Unit designators: "Apt 4B", "Suite 200", "Unit 3", "#12"
+ */
+const UNIT_PATTERN =
+  "(?:apartment|apt|suite|ste|unit|room|rm|floor|fl|building|bldg|department|dept|lot|space|spc|trailer|trlr)\\b\\.?\\s*#?\\s*[\\w-]+|#\\s*[\\w-]+";
+
+/**
+ * Weight of each component in the confidence score
+ */
+const CONFIDENCE_WEIGHTS: Record<AddressField, number> = {
+  street: 0.3,
+  city: 0.25,
+  region: 0.15,
+  postalCode: 0.3,
+};
+
+/**
+ * Parses a free-form address string into address components
+ *
+ * Reads addresses written the way `formatAddress` writes them in the "single-line" style, using
+ * the layout of the country named at the end of the text (or `options.country`) to tell the city,
+ * region and postal code apart. Lines may be separated by commas or newlines; US-style addresses
+ * without commas ("123 Main St Springfield IL 62701") are also recognized.
+ *
+ * @param text - The address text
+ * @param options - Parsing options
+ * @returns The parsed address with a confidence score, or null if the text is empty
+ *
+ * @example
+ * ```ts
+ * parseAddress("123 Main St, Apt 4B, New York, NY 10001, USA")
+ * // {
+ * //   street: ["123 Main St", "Apt 4B"], city: "New York", region: "NY", postalCode: "10001",
+ * //   country: "USA", countryCode: "US", unit: "Apt 4B", confidence: 1
+ * // }
+ * parseAddress("Unter den Linden 77, 10117 Berlin, Germany")
+ * // { street: ["Unter den Linden 77"], city: "Berlin", region: null, postalCode: "10117", country: "Germany", countryCode: "DE", ... }
+ * parseAddress("10 Downing Street, London SW1A 2AA", { country: "GB" }).postalCode // "SW1A 2AA"
+ * parseAddress("123 Main St Springfield IL 62701").city // "Springfield"
+ * parseAddress("   ") // null
+ * ```
+ */
+export function parseAddress(
+  text: unknown,
+  options: ParseAddressOptions = {}
+): ParsedAddress | null {
+  const input = isNullOrUndefined(text) ? "" : toString(text, "").trim();
+  const parts = input
+    .split(/\s*[,\n]\s*/)
+    .map((part) => part.trim())
+    .filter((part) => part !== "");
+  if (parts.length === 0) {
+    return null;
+  }
+
+  const result: ParsedAddress = {
+    street: [],
+    city: null,
+    region: null,
+    postalCode: null,
+    country: null,
+    countryCode: (options.country ?? "US").trim().toUpperCase(),
+    unit: null,
+    confidence: 0,
+  };
+
+  // Country: the last part, if it names one
+  const countryCode = findAddressCountry(parts[parts.length - 1]);
+  if (countryCode) {
+    result.country = parts.pop()!;
+    result.countryCode = countryCode;
+  }
+
+  const code = result.countryCode;
+  const fields = getLayoutFields(code);
+  const postalIndex = fields.indexOf("postalCode");
+
+  // Postal code: searched for in the last parts, at the start or end of a part
+  const postal = findPostalCode(parts, code);
+  let before: string[];
+  let after: string[];
+  if (postal) {
+    result.postalCode = postal.value;
+    before = [...parts.slice(0, postal.index), postal.before];
+    after = [postal.after, ...parts.slice(postal.index + 1)];
+  } else {
+    before = [...parts];
+    after = [];
+  }
+  before = before.filter((part) => part !== "");
+  after = after.filter((part) => part !== "");
+
+  // Fields written after the postal code ("10117 Berlin"), in order
+  const afterFields = postal ? fields.slice(postalIndex + 1) : [];
+  afterFields.forEach((field, index) => {
+    if (after.length === 0 || (field === "region" && result.region)) return;
+    // A city followed by a region in the same part ("00186 Roma RM")
+    if (after.length === 1 && afterFields[index + 1] === "region") {
+      const split = splitRegion(after[0], code, false);
+      if (split.region) {
+        result.region = split.region;
+        after[0] = split.rest;
+      }
+    }
+    setField(result, field, after.shift()!);
+  });
+
+  // Fields written before the postal code ("New York, NY 10001"), from the end
+  const beforeFields = (
+    postal
+      ? fields.slice(0, postalIndex)
+      : fields.filter((field) => field !== "postalCode")
+  ).reverse();
+  beforeFields.forEach((field) => {
+    if (before.length === 0) return;
+    const last = before[before.length - 1];
+    if (field === "region") {
+      const split = splitRegion(last, code, before.length > 1);
+      if (split.region) {
+        result.region = split.region;
+        if (split.rest === "") before.pop();
+        else before[before.length - 1] = split.rest;
+      } else if (
+        !hasSubdivisions(code) &&
+        before.length >= 3 &&
+        !isStreetLike(last) &&
+        !isStreetLike(before[before.length - 2])
+      ) {
+        // Without a list of regions, a region is only read when a city still precedes it
+        result.region = before.pop()!;
+      }
+    } else if (field === "city") {
+      if (!isStreetLike(last)) {
+        result.city = before.pop()!;
+      } else if (before.length === 1) {
+        // "123 Main St Springfield" written without a comma
+        const split = splitStreetAndCity(last);
+        if (split) {
+          before[0] = split.street;
+          result.city = split.city;
+        }
+      }
+    }
+  });
+
+  result.street = before;
+  const unitMatch = before
+    .map((line) =>
+      line.match(new RegExp(`(?:^|\\s)(${UNIT_PATTERN})(?=\\s|$)`, "i"))
+    )
+    .find((match) => match);
+  result.unit = unitMatch ? unitMatch[1] : null;
+
+  result.confidence = getConfidence(
+    result,
+    after.length > 0,
+    !!countryCode || !!options.country
+  );
+  return result;
+}
+
+/**
+ * Finds the ISO code of a country named at the end of an address
+ * Two-letter and numeric codes are not recognized because they clash with region abbreviations ("CA") and numbers
+ */
+function findAddressCountry(text: string): string | null {
+  if (/^(?:[a-z]{2}|\d+)$/i.test(text.trim())) {
+    return null;
+  }
+  return findCountryCode(text);
+}
+
+/**
+ * Gets the order of the city, region and postal code in a country's layout
+ * Countries that write the street last (e.g. Japan) use the US order, the usual order in one-line addresses
+ */
+function getLayoutFields(country: string): AddressField[] {
+  const template = getAddressTemplate(country) ?? DEFAULT_ADDRESS_TEMPLATE;
+  const layout =
+    template.lines[0] === "{street}" ? template : DEFAULT_ADDRESS_TEMPLATE;
+  return Array.from(
+    layout.lines.join(" ").matchAll(/\{(city|region|postalCode)\}/g),
+    (match) => match[1] as AddressField
+  );
+}
+
+/**
+ * Finds a postal code at the start or end of one of the last three parts
+ */
+function findPostalCode(
+  parts: string[],
+  country: string
+): { index: number; value: string; before: string; after: string } | null {
+  for (
+    let index = parts.length - 1;
+    index >= Math.max(0, parts.length - 3);
+    index--
+  ) {
+    const words = parts[index].replace(/^〒\s*/, "").split(/\s+/);
+    const candidates: [number, number][] = [
+      [words.length - 2, words.length],
+      [words.length - 1, words.length],
+      [0, 2],
+      [0, 1],
+    ];
+    for (const [start, end] of candidates) {
+      if (start < 0 || end > words.length || start >= end) continue;
+      const value = words.slice(start, end).join(" ");
+      if (!isPostalCode(value, country)) continue;
+      return {
+        index,
+        value,
+        before: words.slice(0, start).join(" "),
+        after: words.slice(end).join(" "),
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks if text is a postal code for a country
+ * Countries without a bundled format accept any 3-10 character code containing digits
+ */
+function isPostalCode(value: string, country: string): boolean {
+  const { status } = validatePostalCode(value, country);
+  if (status === "unsupported-country") {
+    return (
+      /^(?=.*\d)[A-Z\d][A-Z\d -]{1,8}[A-Z\d]$/i.test(value) &&
+      !/^\d{1,2}$/.test(value)
+    );
+  }
+  return status === "valid";
+}
+
+/**
+ * Splits a region from the end of a part ("New York NY" → "New York" + "NY")
+ * Without a list of regions for the country, only an uppercase 2-3 letter code after other words
+ * or joined with "-" or "/" is read
+ */
+function splitRegion(
+  text: string,
+  country: string,
+  allowWhole: boolean
+): { rest: string; region: string | null } {
+  const words = text.split(/\s+/);
+  const hasRegions = hasSubdivisions(country);
+
+  // Region codes joined to the city ("São Paulo-SP")
+  const joined = text.match(/^(.*\S)\s*[-/]\s*([A-Z]{2,3})$/);
+  if (!hasRegions && joined) {
+    return { rest: joined[1], region: joined[2] };
+  }
+
+  for (let count = Math.min(4, words.length); count >= 1; count--) {
+    if (count === words.length && !allowWhole) continue;
+    const candidate = words.slice(words.length - count).join(" ");
+    const isRegion = hasRegions
+      ? normalizeRegion(candidate, { country }) !== null
+      : count === 1 && words.length > 1 && /^[A-Z]{2,3}$/.test(candidate);
+    if (isRegion) {
+      return {
+        rest: words.slice(0, words.length - count).join(" "),
+        region: candidate,
+      };
+    }
+  }
+  return { rest: text, region: null };
+}
+
+/**
+ * Checks if a part looks like a street line: a house number, a unit, a PO box or a street suffix
+ */
+function isStreetLike(text: string): boolean {
+  return (
+    /^\d/.test(text) ||
+    new RegExp(`^(?:${UNIT_PATTERN})`, "i").test(text) ||
+    /^p\.?\s*o\.?\s*box\b/i.test(text) ||
+    new RegExp(`\\b(?:${STREET_SUFFIX_PATTERN})\\.?$`, "i").test(text)
+  );
+}
+
+/**
+ * Splits "123 Main St Apt 4 Springfield" at the first street suffix (and unit) into street and city
+ */
+function splitStreetAndCity(
+  text: string
+): { street: string; city: string } | null {
+  const match = text.match(
+    new RegExp(
+      `^(\\d.*?\\b(?:${STREET_SUFFIX_PATTERN})\\.?(?:\\s+(?:N|S|E|W|NE|NW|SE|SW)\\b\\.?)?(?:\\s+(?:${UNIT_PATTERN}))?)\\s+([^\\d].*)$`,
+      "i"
+    )
+  );
+  return match ? { street: match[1], city: match[2] } : null;
+}
+
+/**
+ * Sets a parsed component
+ */
+function setField(
+  result: ParsedAddress,
+  field: AddressField,
+  value: string
+): void {
+  if (field === "city") result.city = value;
+  else if (field === "region") result.region = value;
+}
+
+/**
+ * Scores a parsed address by the components it found, relative to those the country uses
+ */
+function getConfidence(
+  address: ParsedAddress,
+  hasLeftover: boolean,
+  hasCountry: boolean
+): number {
+  const expectsRegion = hasSubdivisions(address.countryCode);
+  let expected =
+    CONFIDENCE_WEIGHTS.street +
+    CONFIDENCE_WEIGHTS.city +
+    CONFIDENCE_WEIGHTS.postalCode;
+  let found = 0;
+
+  if (address.street.length > 0) {
+    found += address.street.some((line) => /\d/.test(line))
+      ? CONFIDENCE_WEIGHTS.street
+      : CONFIDENCE_WEIGHTS.street / 2;
+  }
+  if (address.city) {
+    found += CONFIDENCE_WEIGHTS.city;
+  }
+  if (address.postalCode) {
+    found += validatePostalCode(address.postalCode, address.countryCode).valid
+      ? CONFIDENCE_WEIGHTS.postalCode
+      : CONFIDENCE_WEIGHTS.postalCode / 2;
+  }
+  if (expectsRegion) {
+    expected += CONFIDENCE_WEIGHTS.region;
+    if (address.region) found += CONFIDENCE_WEIGHTS.region;
+  }
+
+  let confidence = found / expected;
+  // Text that fit no component, or a country that had to be assumed, makes the parse less certain
+  if (hasLeftover) confidence *= 0.8;
+  if (!hasCountry) confidence *= 0.9;
+  return Math.round(Math.min(confidence, 1) * 100) / 100;
+}
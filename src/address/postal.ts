@@ -0,0 +1,286 @@
+/**
+ * Postal code validation utilities
+ *
+ * Functions for checking postal codes against bundled country formats
+ */
+
+import { toString } from "../string";
+import { isNullOrUndefined } from "../is";
+
+/**
+ * Outcome of validating a postal code
+ * - "valid": the postal code matches the country's format
+ * - "invalid-format": the length is right but the characters are not in the country's format
+ * - "invalid-length": the postal code has a length the country does not use
+ * - "invalid-characters": the postal code contains characters other than letters, digits, spaces and hyphens
+ * - "unsupported-country": the country has no bundled postal code format
+ * - "empty": no postal code was provided
+ */
+export type PostalCodeValidationStatus =
+  | "valid"
+  | "invalid-format"
+  | "invalid-length"
+  | "invalid-characters"
+  | "unsupported-country"
+  | "empty";
+
+/**
+ * Result of validating a postal code
+ */
+export interface PostalCodeValidationResult {
+  /** Whether the postal code is valid for the country */
+  valid: boolean;
+  /** Detailed validation outcome */
+  status: PostalCodeValidationStatus;
+  /** The postal code in the country's standard form, or null if it is not valid */
+  value: string | null;
+  /** ISO 3166-1 alpha-2 country code (uppercase), or null if the country is not bundled */
+  country: string | null;
+  /** An example postal code for the country (e.g. for error messages), or null if the country is not bundled */
+  example: string | null;
+}
+
+/**
+ * Postal code format for a country
+ * @internal
+ */
+interface PostalCodeFormat {
+  /** ISO 3166-1 alpha-2 country code */
+  country: string;
+  /** Pattern for the postal code in uppercase with spaces and hyphens removed */
+  pattern: RegExp;
+  /** Replacement that writes a matching code in its standard form (default: unchanged) */
+  format?: string | ((match: RegExpMatchArray) => string);
+  /** Lengths of valid codes, with spaces and hyphens removed */
+  lengths: number[];
+  /** An example postal code */
+  example: string;
+}
+
+/**
+ * Bundled postal code formats
+ */
+const POSTAL_CODE_FORMATS: PostalCodeFormat[] = [
+  {
+    country: "US",
+    pattern: /^(\d{5})(\d{4})?$/,
+    format: (match) => (match[2] ? `${match[1]}-${match[2]}` : match[1]),
+    lengths: [5, 9],
+    example: "12345",
+  },
+  {
+    country: "CA",
+    pattern:
+      /^([ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPR-TV-Z])(\d[ABCEGHJ-NPR-TV-Z]\d)$/,
+    format: "$1 $2",
+    lengths: [6],
+    example: "K1A 0B1",
+  },
+  {
+    country: "GB",
+    pattern: /^([A-Z]{1,2}\d[A-Z\d]?|GIR)(\d[A-Z]{2})$/,
+    format: "$1 $2",
+    lengths: [5, 6, 7],
+    example: "SW1A 1AA",
+  },
+  {
+    country: "IE",
+    pattern: /^([AC-FHKNPRTV-Y]\d{2}|D6W)([\dAC-FHKNPRTV-Y]{4})$/,
+    format: "$1 $2",
+    lengths: [7],
+    example: "D02 X285",
+  },
+  {
+    country: "NL",
+    pattern: /^([1-9]\d{3})([A-Z]{2})$/,
+    format: "$1 $2",
+    lengths: [6],
+    example: "1012 AB",
+  },
+  {
+    country: "JP",
+    pattern: /^(\d{3})(\d{4})$/,
+    format: "$1-$2",
+    lengths: [7],
+    example: "100-0001",
+  },
+  {
+    country: "BR",
+    pattern: /^(\d{5})(\d{3})$/,
+    format: "$1-$2",
+    lengths: [8],
+    example: "01310-200",
+  },
+  {
+    country: "PT",
+    pattern: /^(\d{4})(\d{3})$/,
+    format: "$1-$2",
+    lengths: [7],
+    example: "1000-001",
+  },
+  {
+    country: "PL",
+    pattern: /^(\d{2})(\d{3})$/,
+    format: "$1-$2",
+    lengths: [5],
+    example: "00-950",
+  },
+  {
+    country: "SE",
+    pattern: /^(\d{3})(\d{2})$/,
+    format: "$1 $2",
+    lengths: [5],
+    example: "113 51",
+  },
+  {
+    country: "CZ",
+    pattern: /^(\d{3})(\d{2})$/,
+    format: "$1 $2",
+    lengths: [5],
+    example: "110 00",
+  },
+  {
+    country: "SK",
+    pattern: /^(\d{3})(\d{2})$/,
+    format: "$1 $2",
+    lengths: [5],
+    example: "811 01",
+  },
+  {
+    country: "GR",
+    pattern: /^(\d{3})(\d{2})$/,
+    format: "$1 $2",
+    lengths: [5],
+    example: "105 57",
+  },
+  {
+    country: "AR",
+    pattern: /^(?:\d{4}|[A-HJ-NP-Z]\d{4}[A-Z]{3})$/,
+    lengths: [4, 8],
+    example: "C1425ABC",
+  },
+  { country: "DE", pattern: /^\d{5}$/, lengths: [5], example: "10117" },
+  { country: "FR", pattern: /^\d{5}$/, lengths: [5], example: "75008" },
+  { country: "IT", pattern: /^\d{5}$/, lengths: [5], example: "00186" },
+  {
+    country: "ES",
+    pattern: /^(?:0[1-9]|[1-4]\d|5[0-2])\d{3}$/,
+    lengths: [5],
+    example: "28013",
+  },
+  { country: "FI", pattern: /^\d{5}$/, lengths: [5], example: "00100" },
+  { country: "MX", pattern: /^\d{5}$/, lengths: [5], example: "06600" },
+  { country: "TR", pattern: /^\d{5}$/, lengths: [5], example: "34000" },
+  { country: "KR", pattern: /^\d{5}$/, lengths: [5], example: "03154" },
+  { country: "TH", pattern: /^\d{5}$/, lengths: [5], example: "10200" },
+  { country: "MY", pattern: /^\d{5}$/, lengths: [5], example: "50050" },
+  { country: "ID", pattern: /^\d{5}$/, lengths: [5], example: "10110" },
+  { country: "AU", pattern: /^\d{4}$/, lengths: [4], example: "2600" },
+  { country: "NZ", pattern: /^\d{4}$/, lengths: [4], example: "6011" },
+  { country: "AT", pattern: /^\d{4}$/, lengths: [4], example: "1010" },
+  { country: "BE", pattern: /^\d{4}$/, lengths: [4], example: "1000" },
+  { country: "CH", pattern: /^\d{4}$/, lengths: [4], example: "8001" },
+  { country: "DK", pattern: /^\d{4}$/, lengths: [4], example: "1050" },
+  { country: "NO", pattern: /^\d{4}$/, lengths: [4], example: "0150" },
+  { country: "HU", pattern: /^\d{4}$/, lengths: [4], example: "1052" },
+  { country: "ZA", pattern: /^\d{4}$/, lengths: [4], example: "8001" },
+  { country: "PH", pattern: /^\d{4}$/, lengths: [4], example: "1000" },
+  { country: "IN", pattern: /^[1-9]\d{5}$/, lengths: [6], example: "110001" },
+  { country: "RU", pattern: /^\d{6}$/, lengths: [6], example: "101000" },
+  { country: "CN", pattern: /^\d{6}$/, lengths: [6], example: "100000" },
+  { country: "SG", pattern: /^\d{6}$/, lengths: [6], example: "018956" },
+  { country: "IL", pattern: /^\d{7}$/, lengths: [7], example: "9100000" },
+];
+
+/**
+ * Validates a postal code against the bundled format for a country
+ *
+ * Letters are uppercased and spaces and hyphens are ignored, so codes can be typed in any case
+ * and with or without separators; valid codes are returned in the country's standard form.
+ *
+ * @param postalCode - The postal code to validate (string or number)
+ * @param country - ISO 3166-1 alpha-2 country code (case-insensitive)
+ * @returns The validation result with the normalized postal code
+ *
+ * @example
+ * ```ts
+ * validatePostalCode("k1a0b1", "CA") // { valid: true, status: "valid", value: "K1A 0B1", country: "CA", example: "K1A 0B1" }
+ * validatePostalCode("123456789", "US").value // "12345-6789"
+ * validatePostalCode("sw1a2aa", "gb").value // "SW1A 2AA"
+ * validatePostalCode("1000001", "JP").value // "100-0001"
+ * validatePostalCode("1234", "DE").status // "invalid-length"
+ * validatePostalCode("D1A 0B1", "CA").status // "invalid-format"
+ * validatePostalCode("12345", "ZZ").status // "unsupported-country"
+ * ```
+ */
+export function validatePostalCode(
+  postalCode: unknown,
+  country: string
+): PostalCodeValidationResult {
+  const format = POSTAL_CODE_FORMATS.find(
+    (candidate) => candidate.country === country.trim().toUpperCase()
+  );
+  const result: PostalCodeValidationResult = {
+    valid: false,
+    status: "empty",
+    value: null,
+    country: format ? format.country : null,
+    example: format ? format.example : null,
+  };
+
+  const code = isNullOrUndefined(postalCode)
+    ? ""
+    : toString(postalCode, "").trim().toUpperCase();
+  if (code === "") {
+    return result;
+  }
+  if (!format) {
+    result.status = "unsupported-country";
+    return result;
+  }
+  if (/[^A-Z\d\s-]/.test(code)) {
+    result.status = "invalid-characters";
+    return result;
+  }
+
+  const compact = code.replace(/[\s-]/g, "");
+  if (!format.lengths.includes(compact.length)) {
+    result.status = "invalid-length";
+    return result;
+  }
+
+  const match = compact.match(format.pattern);
+  if (!match) {
+    result.status = "invalid-format";
+    return result;
+  }
+
+  result.valid = true;
+  result.status = "valid";
+  result.value =
+    typeof format.format === "function"
+      ? format.format(match)
+      : compact.replace(format.pattern, format.format ?? "$&");
+  return result;
+}
+
+/**
+ * Checks if a postal code is valid for a country
+ *
+ * @param postalCode - The postal code to check
+ * @param country - ISO 3166-1 alpha-2 country code (case-insensitive)
+ * @returns True if the postal code matches the country's bundled format
+ *
+ * @example
+ * ```ts
+ * isValidPostalCode("90210", "US") // true
+ * isValidPostalCode("9021", "US") // false
+ * isValidPostalCode("1012ab", "NL") // true
+ * ```
+ */
+export function isValidPostalCode(
+  postalCode: unknown,
+  country: string
+): boolean {
+  return validatePostalCode(postalCode, country).valid;
+}
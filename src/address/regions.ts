@@ -0,0 +1,378 @@
+/**
+ * Region utilities
+ *
+ * ISO 3166-2 subdivisions of the United States, Canada, Australia and Mexico, and functions
+ * for normalizing how a region is written
+ */
+
+import { toString } from "../string";
+import { isNullOrUndefined } from "../is";
+import { createTypedEnum } from "../enum";
+import { findCountryCode, getNameKeys, toLookupKey } from "./countries";
+
+/**
+ * ISO 3166-2 subdivisions of the United States (states, the District of Columbia and outlying areas),
+ * keyed by USPS code
+ * Aliases are the abbreviations used in running text ("Calif.")
+ *
+ * @example
+ * ```ts
+ * US_STATE.getLabel("CA") // "California"
+ * US_STATE.enumMap.CA.isoCode // "US-CA"
+ * ```
+ */
+export const US_STATE = createTypedEnum({
+  AL: { label: "Alabama", isoCode: "US-AL", aliases: ["Ala."] },
+  AK: { label: "Alaska", isoCode: "US-AK" },
+  AZ: { label: "Arizona", isoCode: "US-AZ", aliases: ["Ariz."] },
+  AR: { label: "Arkansas", isoCode: "US-AR", aliases: ["Ark."] },
+  CA: { label: "California", isoCode: "US-CA", aliases: ["Calif.", "Cal."] },
+  CO: { label: "Colorado", isoCode: "US-CO", aliases: ["Colo."] },
+  CT: { label: "Connecticut", isoCode: "US-CT", aliases: ["Conn."] },
+  DE: { label: "Delaware", isoCode: "US-DE", aliases: ["Del."] },
+  DC: {
+    label: "District of Columbia",
+    isoCode: "US-DC",
+    aliases: ["Washington D.C."],
+  },
+  FL: { label: "Florida", isoCode: "US-FL", aliases: ["Fla."] },
+  GA: { label: "Georgia", isoCode: "US-GA" },
+  HI: { label: "Hawaii", isoCode: "US-HI" },
+  ID: { label: "Idaho", isoCode: "US-ID" },
+  IL: { label: "Illinois", isoCode: "US-IL", aliases: ["Ill."] },
+  IN: { label: "Indiana", isoCode: "US-IN", aliases: ["Ind."] },
+  IA: { label: "Iowa", isoCode: "US-IA" },
+  KS: { label: "Kansas", isoCode: "US-KS", aliases: ["Kan.", "Kans."] },
+  KY: { label: "Kentucky", isoCode: "US-KY" },
+  LA: { label: "Louisiana", isoCode: "US-LA" },
+  ME: { label: "Maine", isoCode: "US-ME" },
+  MD: { label: "Maryland", isoCode: "US-MD" },
+  MA: { label: "Massachusetts", isoCode: "US-MA", aliases: ["Mass."] },
+  MI: { label: "Michigan", isoCode: "US-MI", aliases: ["Mich."] },
+  MN: { label: "Minnesota", isoCode: "US-MN", aliases: ["Minn."] },
+  MS: { label: "Mississippi", isoCode: "US-MS", aliases: ["Miss."] },
+  MO: { label: "Missouri", isoCode: "US-MO" },
+  MT: { label: "Montana", isoCode: "US-MT", aliases: ["Mont."] },
+  NE: { label: "Nebraska", isoCode: "US-NE", aliases: ["Neb.", "Nebr."] },
+  NV: { label: "Nevada", isoCode: "US-NV", aliases: ["Nev."] },
+  NH: { label: "New Hampshire", isoCode: "US-NH", aliases: ["N.H."] },
+  NJ: { label: "New Jersey", isoCode: "US-NJ", aliases: ["N.J."] },
+  NM: { label: "New Mexico", isoCode: "US-NM", aliases: ["N.M.", "N.Mex."] },
+  NY: { label: "New York", isoCode: "US-NY", aliases: ["N.Y."] },
+  NC: { label: "North Carolina", isoCode: "US-NC", aliases: ["N.C."] },
+  ND: { label: "North Dakota", isoCode: "US-ND", aliases: ["N.D.", "N.Dak."] },
+  OH: { label: "Ohio", isoCode: "US-OH" },
+  OK: { label: "Oklahoma", isoCode: "US-OK", aliases: ["Okla."] },
+  OR: { label: "Oregon", isoCode: "US-OR", aliases: ["Ore.", "Oreg."] },
+  PA: { label: "Pennsylvania", isoCode: "US-PA", aliases: ["Penn.", "Penna."] },
+  RI: { label: "Rhode Island", isoCode: "US-RI", aliases: ["R.I."] },
+  SC: { label: "South Carolina", isoCode: "US-SC", aliases: ["S.C."] },
+  SD: { label: "South Dakota", isoCode: "US-SD", aliases: ["S.D.", "S.Dak."] },
+  TN: { label: "Tennessee", isoCode: "US-TN", aliases: ["Tenn."] },
+  TX: { label: "Texas", isoCode: "US-TX", aliases: ["Tex."] },
+  UT: { label: "Utah", isoCode: "US-UT" },
+  VT: { label: "Vermont", isoCode: "US-VT" },
+  VA: { label: "Virginia", isoCode: "US-VA" },
+  WA: { label: "Washington", isoCode: "US-WA", aliases: ["Wash."] },
+  WV: { label: "West Virginia", isoCode: "US-WV", aliases: ["W.Va."] },
+  WI: { label: "Wisconsin", isoCode: "US-WI", aliases: ["Wis.", "Wisc."] },
+  WY: { label: "Wyoming", isoCode: "US-WY", aliases: ["Wyo."] },
+  AS: { label: "American Samoa", isoCode: "US-AS" },
+  GU: { label: "Guam", isoCode: "US-GU" },
+  MP: { label: "Northern Mariana Islands", isoCode: "US-MP" },
+  PR: { label: "Puerto Rico", isoCode: "US-PR" },
+  UM: {
+    label: "United States Minor Outlying Islands",
+    isoCode: "US-UM",
+  },
+  VI: {
+    label: "U.S. Virgin Islands",
+    isoCode: "US-VI",
+    aliases: ["United States Virgin Islands"],
+  },
+});
+
+/**
+ * ISO 3166-2 subdivisions of Canada (provinces and territories), keyed by Canada Post code
+ *
+ * @example
+ * ```ts
+ * CA_PROVINCE.getLabel("QC") // "Quebec"
+ * CA_PROVINCE.enumMap.ON.isoCode // "CA-ON"
+ * ```
+ */
+export const CA_PROVINCE = createTypedEnum({
+  AB: { label: "Alberta", isoCode: "CA-AB", aliases: ["Alta."] },
+  BC: { label: "British Columbia", isoCode: "CA-BC" },
+  MB: { label: "Manitoba", isoCode: "CA-MB", aliases: ["Man."] },
+  NB: { label: "New Brunswick", isoCode: "CA-NB" },
+  NL: {
+    label: "Newfoundland and Labrador",
+    isoCode: "CA-NL",
+    aliases: ["Newfoundland", "Nfld.", "NF"],
+  },
+  NS: { label: "Nova Scotia", isoCode: "CA-NS" },
+  NT: {
+    label: "Northwest Territories",
+    isoCode: "CA-NT",
+    aliases: ["N.W.T."],
+  },
+  NU: { label: "Nunavut", isoCode: "CA-NU" },
+  ON: { label: "Ontario", isoCode: "CA-ON", aliases: ["Ont."] },
+  PE: {
+    label: "Prince Edward Island",
+    isoCode: "CA-PE",
+    aliases: ["P.E.I."],
+  },
+  QC: { label: "Quebec", isoCode: "CA-QC", aliases: ["Que.", "PQ"] },
+  SK: { label: "Saskatchewan", isoCode: "CA-SK", aliases: ["Sask."] },
+  YT: { label: "Yukon", isoCode: "CA-YT", aliases: ["Yukon Territory", "YK"] },
+});
+
+/**
+ * ISO 3166-2 subdivisions of Australia (states and territories), keyed by Australia Post code
+ *
+ * @example
+ * ```ts
+ * AU_STATE.getLabel("NSW") // "New South Wales"
+ * ```
+ */
+export const AU_STATE = createTypedEnum({
+  ACT: { label: "Australian Capital Territory", isoCode: "AU-ACT" },
+  NSW: { label: "New South Wales", isoCode: "AU-NSW" },
+  NT: { label: "Northern Territory", isoCode: "AU-NT" },
+  QLD: { label: "Queensland", isoCode: "AU-QLD" },
+  SA: { label: "South Australia", isoCode: "AU-SA" },
+  TAS: { label: "Tasmania", isoCode: "AU-TAS" },
+  VIC: { label: "Victoria", isoCode: "AU-VIC" },
+  WA: { label: "Western Australia", isoCode: "AU-WA" },
+});
+
+/**
+ * ISO 3166-2 subdivisions of Mexico (states and Mexico City), keyed by ISO code
+ * Aliases include the official full names and the abbreviations used by Correos de México
+ *
+ * @example
+ * ```ts
+ * MX_STATE.getLabel("JAL") // "Jalisco"
+ * MX_STATE.find("CMX")?.aliases // ["CDMX", "Mexico City", "Distrito Federal", "D.F."]
+ * ```
+ */
+export const MX_STATE = createTypedEnum({
+  AGU: { label: "Aguascalientes", isoCode: "MX-AGU", aliases: ["Ags."] },
+  BCN: { label: "Baja California", isoCode: "MX-BCN", aliases: ["B.C."] },
+  BCS: {
+    label: "Baja California Sur",
+    isoCode: "MX-BCS",
+    aliases: ["B.C.S."],
+  },
+  CAM: { label: "Campeche", isoCode: "MX-CAM", aliases: ["Camp."] },
+  CHP: { label: "Chiapas", isoCode: "MX-CHP", aliases: ["Chis."] },
+  CHH: { label: "Chihuahua", isoCode: "MX-CHH", aliases: ["Chih."] },
+  CMX: {
+    label: "Ciudad de México",
+    isoCode: "MX-CMX",
+    aliases: ["CDMX", "Mexico City", "Distrito Federal", "D.F."],
+  },
+  COA: {
+    label: "Coahuila",
+    isoCode: "MX-COA",
+    aliases: ["Coahuila de Zaragoza", "Coah."],
+  },
+  COL: { label: "Colima", isoCode: "MX-COL" },
+  DUR: { label: "Durango", isoCode: "MX-DUR", aliases: ["Dgo."] },
+  GUA: { label: "Guanajuato", isoCode: "MX-GUA", aliases: ["Gto."] },
+  GRO: { label: "Guerrero", isoCode: "MX-GRO" },
+  HID: { label: "Hidalgo", isoCode: "MX-HID", aliases: ["Hgo."] },
+  JAL: { label: "Jalisco", isoCode: "MX-JAL" },
+  MEX: {
+    label: "México",
+    isoCode: "MX-MEX",
+    aliases: ["Estado de México", "State of Mexico", "Edomex"],
+  },
+  MIC: {
+    label: "Michoacán",
+    isoCode: "MX-MIC",
+    aliases: ["Michoacán de Ocampo", "Mich."],
+  },
+  MOR: { label: "Morelos", isoCode: "MX-MOR" },
+  NAY: { label: "Nayarit", isoCode: "MX-NAY" },
+  NLE: { label: "Nuevo León", isoCode: "MX-NLE", aliases: ["N.L."] },
+  OAX: { label: "Oaxaca", isoCode: "MX-OAX" },
+  PUE: { label: "Puebla", isoCode: "MX-PUE" },
+  QUE: { label: "Querétaro", isoCode: "MX-QUE", aliases: ["Qro."] },
+  ROO: {
+    label: "Quintana Roo",
+    isoCode: "MX-ROO",
+    aliases: ["Q.R.", "Q. Roo"],
+  },
+  SLP: { label: "San Luis Potosí", isoCode: "MX-SLP" },
+  SIN: { label: "Sinaloa", isoCode: "MX-SIN" },
+  SON: { label: "Sonora", isoCode: "MX-SON" },
+  TAB: { label: "Tabasco", isoCode: "MX-TAB" },
+  TAM: { label: "Tamaulipas", isoCode: "MX-TAM", aliases: ["Tamps."] },
+  TLA: { label: "Tlaxcala", isoCode: "MX-TLA", aliases: ["Tlax."] },
+  VER: {
+    label: "Veracruz",
+    isoCode: "MX-VER",
+    aliases: ["Veracruz de Ignacio de la Llave"],
+  },
+  YUC: { label: "Yucatán", isoCode: "MX-YUC" },
+  ZAC: { label: "Zacatecas", isoCode: "MX-ZAC" },
+});
+
+/**
+ * USPS code of a US state, district or outlying area
+ */
+export type UsStateCode = keyof typeof US_STATE.values;
+
+/**
+ * Canada Post code of a Canadian province or territory
+ */
+export type CaProvinceCode = keyof typeof CA_PROVINCE.values;
+
+/**
+ * Australia Post code of an Australian state or territory
+ */
+export type AuStateCode = keyof typeof AU_STATE.values;
+
+/**
+ * ISO 3166-2 code (without the "MX-" prefix) of a Mexican state
+ */
+export type MxStateCode = keyof typeof MX_STATE.values;
+
+/**
+ * How to write a region
+ * - code: the postal abbreviation ("CA", "ON", "NSW", "JAL")
+ * - iso: the ISO 3166-2 code ("US-CA")
+ * - name: the region's name ("California")
+ */
+export type RegionFormat = "code" | "iso" | "name";
+
+/**
+ * Options for normalizing regions
+ */
+export interface NormalizeRegionOptions<T> {
+  /**
+   * Country of the region, written in any form `normalizeCountry` accepts
+   * Ignored when the region is written as an ISO 3166-2 code ("CA-ON")
+   * @default "US"
+   */
+  country?: string;
+  /**
+   * How to write the region
+   * @default "code"
+   */
+  format?: RegionFormat;
+  /**
+   * Value to return when the region is not recognized (default: null)
+   */
+  defaultValue?: T;
+}
+
+/**
+ * An entry of a subdivision enum
+ * @internal
+ */
+interface SubdivisionEntry {
+  value: string;
+  label: string;
+  isoCode: string;
+  aliases?: unknown;
+}
+
+/**
+ * Subdivisions by ISO 3166-1 alpha-2 country code
+ */
+const SUBDIVISIONS: Record<string, readonly SubdivisionEntry[]> = {
+  US: US_STATE.options,
+  CA: CA_PROVINCE.options,
+  AU: AU_STATE.options,
+  MX: MX_STATE.options,
+};
+
+/**
+ * Normalizes a region written as a name, a postal abbreviation or an ISO 3166-2 code
+ *
+ * Regions are known for the United States, Canada, Australia and Mexico. Matching ignores case,
+ * accents and periods, so "calif", "Calif." and "CALIFORNIA" are all recognized.
+ *
+ * @param region - The region to normalize
+ * @param options - Normalization options
+ * @returns The region in the requested format, or the default value if it is not recognized
+ *
+ * @example
+ * ```ts
+ * normalizeRegion("California") // "CA"
+ * normalizeRegion("Calif.", { format: "name" }) // "California"
+ * normalizeRegion("ca", { format: "iso" }) // "US-CA"
+ * normalizeRegion("Québec", { country: "Canada" }) // "QC"
+ * normalizeRegion("CA-ON", { format: "name" }) // "Ontario"
+ * normalizeRegion("Jalisco", { country: "MX", format: "iso" }) // "MX-JAL"
+ * normalizeRegion("Bavaria", { country: "DE" }) // null (no bundled regions)
+ * ```
+ */
+export function normalizeRegion<T extends string | null | undefined>(
+  region: unknown,
+  options: NormalizeRegionOptions<T> = {}
+): string | T {
+  const { format = "code", defaultValue = null as T } = options;
+
+  const entry = findSubdivision(region, options.country);
+  if (!entry) {
+    return defaultValue as string | T;
+  }
+
+  if (format === "iso") return entry.isoCode;
+  if (format === "name") return entry.label;
+  return entry.value;
+}
+
+/**
+ * Checks if a country has bundled regions
+ * @internal
+ */
+export function hasSubdivisions(country: string): boolean {
+  return country.trim().toUpperCase() in SUBDIVISIONS;
+}
+
+/**
+ * Finds the subdivision entry for a region written in any supported form
+ */
+function findSubdivision(
+  region: unknown,
+  country: string = "US"
+): SubdivisionEntry | null {
+  if (isNullOrUndefined(region)) {
+    return null;
+  }
+  const text = toString(region, "").trim();
+  if (text === "") {
+    return null;
+  }
+
+  // ISO 3166-2 codes name their country
+  const iso = text.match(/^([a-z]{2})-([a-z\d]{1,3})$/i);
+  if (iso && SUBDIVISIONS[iso[1].toUpperCase()]) {
+    const isoCode = text.toUpperCase();
+    return (
+      SUBDIVISIONS[iso[1].toUpperCase()].find(
+        (entry) => entry.isoCode === isoCode
+      ) ?? null
+    );
+  }
+
+  const countryCode = findCountryCode(country);
+  const entries = countryCode ? SUBDIVISIONS[countryCode] : undefined;
+  if (!entries) {
+    return null;
+  }
+
+  const key = toLookupKey(text);
+  return (
+    entries.find(
+      (entry) =>
+        entry.value.toLowerCase() === key || getNameKeys(entry).includes(key)
+    ) ?? null
+  );
+}
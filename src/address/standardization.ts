@@ -0,0 +1,522 @@
+/**
+ * Address standardization utilities
+ *
+ * Functions for writing street lines in USPS Publication 28 form and for telling whether
+ * two addresses are the same location
+ */
+
+import { toString } from "../string";
+import { isNullOrUndefined } from "../is";
+import { AddressComponents, formatPostalCode } from "./formatting";
+import { normalizeCountry } from "./countries";
+import { normalizeRegion } from "./regions";
+
+/**
+ * Options for comparing addresses
+ */
+export interface CompareAddressesOptions {
+  /**
+   * Country to assume for addresses that do not name one, in any form `normalizeCountry` accepts
+   * @default "US"
+   */
+  country?: string;
+}
+
+/**
+ * Street suffix abbreviations (USPS Publication 28, Appendix C1)
+ * Each standard abbreviation lists the names and common abbreviations it replaces
+ */
+const STREET_SUFFIXES: Record<string, string[]> = {
+  ALY: ["ALLEE", "ALLEY", "ALLY"],
+  ANX: ["ANEX", "ANNEX", "ANNX"],
+  ARC: ["ARCADE"],
+  AVE: ["AV", "AVEN", "AVENU", "AVENUE", "AVN", "AVNUE"],
+  BYU: ["BAYOO", "BAYOU"],
+  BCH: ["BEACH"],
+  BND: ["BEND"],
+  BLF: ["BLUF", "BLUFF"],
+  BLFS: ["BLUFFS"],
+  BTM: ["BOT", "BOTTM", "BOTTOM"],
+  BLVD: ["BOUL", "BOULEVARD", "BOULV"],
+  BR: ["BRNCH", "BRANCH"],
+  BRG: ["BRDGE", "BRIDGE"],
+  BRK: ["BROOK"],
+  BRKS: ["BROOKS"],
+  BG: ["BURG"],
+  BGS: ["BURGS"],
+  BYP: ["BYPA", "BYPAS", "BYPASS", "BYPS"],
+  CP: ["CAMP", "CMP"],
+  CYN: ["CANYN", "CANYON", "CNYN"],
+  CPE: ["CAPE"],
+  CSWY: ["CAUSEWAY", "CAUSWA"],
+  CTR: ["CEN", "CENT", "CENTER", "CENTR", "CENTRE", "CNTER", "CNTR"],
+  CTRS: ["CENTERS"],
+  CIR: ["CIRC", "CIRCL", "CIRCLE", "CRCL", "CRCLE"],
+  CIRS: ["CIRCLES"],
+  CLF: ["CLIFF"],
+  CLFS: ["CLIFFS"],
+  CLB: ["CLUB"],
+  CMN: ["COMMON"],
+  CMNS: ["COMMONS"],
+  COR: ["CORNER"],
+  CORS: ["CORNERS"],
+  CRSE: ["COURSE"],
+  CT: ["COURT"],
+  CTS: ["COURTS"],
+  CV: ["COVE"],
+  CVS: ["COVES"],
+  CRK: ["CREEK"],
+  CRES: ["CRESCENT", "CRSENT", "CRSNT"],
+  CRST: ["CREST"],
+  XING: ["CROSSING", "CRSSNG"],
+  XRD: ["CROSSROAD"],
+  XRDS: ["CROSSROADS"],
+  CURV: ["CURVE"],
+  DL: ["DALE"],
+  DM: ["DAM"],
+  DV: ["DIV", "DIVIDE", "DVD"],
+  DR: ["DRIV", "DRIVE", "DRV"],
+  DRS: ["DRIVES"],
+  EST: ["ESTATE"],
+  ESTS: ["ESTATES"],
+  EXPY: ["EXP", "EXPR", "EXPRESS", "EXPRESSWAY", "EXPW"],
+  EXT: ["EXTENSION", "EXTN", "EXTNSN"],
+  EXTS: ["EXTENSIONS"],
+  FLS: ["FALLS"],
+  FRY: ["FERRY", "FRRY"],
+  FLD: ["FIELD"],
+  FLDS: ["FIELDS"],
+  FLT: ["FLAT"],
+  FLTS: ["FLATS"],
+  FRD: ["FORD"],
+  FRDS: ["FORDS"],
+  FRST: ["FOREST", "FORESTS"],
+  FRG: ["FORG", "FORGE"],
+  FRGS: ["FORGES"],
+  FRK: ["FORK"],
+  FRKS: ["FORKS"],
+  FT: ["FORT", "FRT"],
+  FWY: ["FREEWAY", "FREEWY", "FRWAY", "FRWY"],
+  GDN: ["GARDEN", "GARDN", "GRDEN", "GRDN"],
+  GDNS: ["GARDENS", "GRDNS"],
+  GTWY: ["GATEWAY", "GATEWY", "GATWAY", "GTWAY"],
+  GLN: ["GLEN"],
+  GLNS: ["GLENS"],
+  GRN: ["GREEN"],
+  GRNS: ["GREENS"],
+  GRV: ["GROV", "GROVE"],
+  GRVS: ["GROVES"],
+  HBR: ["HARB", "HARBOR", "HARBR", "HRBOR"],
+  HBRS: ["HARBORS"],
+  HVN: ["HAVEN"],
+  HTS: ["HT", "HEIGHTS"],
+  HWY: ["HIGHWAY", "HIGHWY", "HIWAY", "HIWY", "HWAY"],
+  HL: ["HILL"],
+  HLS: ["HILLS"],
+  HOLW: ["HLLW", "HOLLOW", "HOLLOWS", "HOLWS"],
+  INLT: ["INLET"],
+  IS: ["ISLAND", "ISLND"],
+  ISS: ["ISLANDS", "ISLNDS"],
+  ISLE: ["ISLES"],
+  JCT: ["JCTION", "JCTN", "JUNCTION", "JUNCTN", "JUNCTON"],
+  JCTS: ["JCTNS", "JUNCTIONS"],
+  KY: ["KEY"],
+  KYS: ["KEYS"],
+  KNL: ["KNOL", "KNOLL"],
+  KNLS: ["KNOLLS"],
+  LK: ["LAKE"],
+  LKS: ["LAKES"],
+  LNDG: ["LANDING", "LNDNG"],
+  LN: ["LANE"],
+  LGT: ["LIGHT"],
+  LGTS: ["LIGHTS"],
+  LF: ["LOAF"],
+  LCK: ["LOCK"],
+  LCKS: ["LOCKS"],
+  LDG: ["LDGE", "LODG", "LODGE"],
+  LOOP: ["LOOPS"],
+  MALL: [],
+  MNR: ["MANOR"],
+  MNRS: ["MANORS"],
+  MDW: ["MEADOW"],
+  MDWS: ["MEADOWS", "MEDOWS"],
+  MEWS: [],
+  ML: ["MILL"],
+  MLS: ["MILLS"],
+  MSN: ["MISSN", "MSSN", "MISSION"],
+  MTWY: ["MOTORWAY"],
+  MT: ["MNT", "MOUNT"],
+  MTN: ["MNTAIN", "MNTN", "MOUNTAIN", "MOUNTIN", "MTIN"],
+  MTNS: ["MNTNS", "MOUNTAINS"],
+  NCK: ["NECK"],
+  ORCH: ["ORCHARD", "ORCHRD"],
+  OVAL: ["OVL"],
+  OPAS: ["OVERPASS"],
+  PARK: ["PRK", "PARKS"],
+  PKWY: ["PARKWAY", "PARKWY", "PKWAY", "PKY", "PARKWAYS", "PKWYS"],
+  PASS: [],
+  PSGE: ["PASSAGE"],
+  PATH: ["PATHS"],
+  PIKE: ["PIKES"],
+  PNE: ["PINE"],
+  PNES: ["PINES"],
+  PL: ["PLACE"],
+  PLN: ["PLAIN"],
+  PLNS: ["PLAINS"],
+  PLZ: ["PLAZA", "PLZA"],
+  PT: ["POINT"],
+  PTS: ["POINTS"],
+  PRT: ["PORT"],
+  PRTS: ["PORTS"],
+  PR: ["PRAIRIE", "PRR"],
+  RADL: ["RAD", "RADIAL", "RADIEL"],
+  RAMP: [],
+  RNCH: ["RANCH", "RANCHES", "RNCHS"],
+  RPD: ["RAPID"],
+  RPDS: ["RAPIDS"],
+  RST: ["REST"],
+  RDG: ["RDGE", "RIDGE"],
+  RDGS: ["RIDGES"],
+  RIV: ["RIVER", "RVR", "RIVR"],
+  RD: ["ROAD"],
+  RDS: ["ROADS"],
+  RTE: ["ROUTE"],
+  ROW: [],
+  RUE: [],
+  RUN: [],
+  SHL: ["SHOAL"],
+  SHLS: ["SHOALS"],
+  SHR: ["SHOAR", "SHORE"],
+  SHRS: ["SHOARS", "SHORES"],
+  SKWY: ["SKYWAY"],
+  SPG: ["SPNG", "SPRING", "SPRNG"],
+  SPGS: ["SPNGS", "SPRINGS", "SPRNGS"],
+  SPUR: ["SPURS"],
+  SQ: ["SQR", "SQRE", "SQU", "SQUARE"],
+  SQS: ["SQRS", "SQUARES"],
+  STA: ["STATION", "STATN", "STN"],
+  STRA: ["STRAV", "STRAVEN", "STRAVENUE", "STRAVN", "STRVN", "STRVNUE"],
+  STRM: ["STREAM", "STREME"],
+  ST: ["STREET", "STRT", "STR"],
+  STS: ["STREETS"],
+  SMT: ["SUMIT", "SUMITT", "SUMMIT"],
+  TER: ["TERR", "TERRACE"],
+  TRWY: ["THROUGHWAY"],
+  TRCE: ["TRACE", "TRACES"],
+  TRAK: ["TRACK", "TRACKS", "TRK", "TRKS"],
+  TRFY: ["TRAFFICWAY"],
+  TRL: ["TRAIL", "TRAILS", "TRLS"],
+  TUNL: ["TUNEL", "TUNLS", "TUNNEL", "TUNNELS", "TUNNL"],
+  TPKE: ["TRNPK", "TURNPIKE", "TURNPK"],
+  UPAS: ["UNDERPASS"],
+  UN: ["UNION"],
+  UNS: ["UNIONS"],
+  VLY: ["VALLEY", "VALLY", "VLLY"],
+  VLYS: ["VALLEYS"],
+  VIA: ["VDCT", "VIADCT", "VIADUCT"],
+  VW: ["VIEW"],
+  VWS: ["VIEWS"],
+  VLG: ["VILL", "VILLAG", "VILLAGE", "VILLG", "VILLIAGE"],
+  VLGS: ["VILLAGES"],
+  VL: ["VILLE"],
+  VIS: ["VIST", "VISTA", "VST", "VSTA"],
+  WALK: ["WALKS"],
+  WALL: [],
+  WAY: ["WY"],
+  WAYS: [],
+  WL: ["WELL"],
+  WLS: ["WELLS"],
+};
+
+/**
+ * Secondary unit designator abbreviations (USPS Publication 28, Appendix C2)
+ */
+const UNIT_DESIGNATORS: Record<string, string[]> = {
+  APT: ["APARTMENT"],
+  BSMT: ["BASEMENT"],
+  BLDG: ["BUILDING"],
+  DEPT: ["DEPARTMENT"],
+  FL: ["FLOOR"],
+  FRNT: ["FRONT"],
+  HNGR: ["HANGAR"],
+  KEY: [],
+  LBBY: ["LOBBY"],
+  LOT: [],
+  LOWR: ["LOWER"],
+  OFC: ["OFFICE"],
+  PH: ["PENTHOUSE"],
+  PIER: [],
+  REAR: [],
+  RM: ["ROOM"],
+  SIDE: [],
+  SLIP: [],
+  SPC: ["SPACE"],
+  STOP: [],
+  STE: ["SUITE"],
+  TRLR: ["TRAILER"],
+  UNIT: [],
+  UPPR: ["UPPER"],
+};
+
+/**
+ * Designators written without a unit number
+ */
+const STANDALONE_DESIGNATORS = [
+  "BSMT",
+  "FRNT",
+  "LBBY",
+  "LOWR",
+  "OFC",
+  "PH",
+  "REAR",
+  "SIDE",
+  "UPPR",
+];
+
+/**
+ * Directional abbreviations
+ */
+const DIRECTIONALS: Record<string, string> = {
+  NORTH: "N",
+  SOUTH: "S",
+  EAST: "E",
+  WEST: "W",
+  NORTHEAST: "NE",
+  NORTHWEST: "NW",
+  SOUTHEAST: "SE",
+  SOUTHWEST: "SW",
+};
+
+/**
+ * Standardizes a street line the way USPS Publication 28 writes delivery address lines
+ *
+ * The line is uppercased and punctuation is removed; directionals ("North" → "N"), the street
+ * suffix ("Street" → "ST") and secondary unit designators ("Apartment" → "APT") are abbreviated.
+ * A directional or suffix that is the street's whole name is kept as written ("123 North St",
+ * "10 Avenue Rd"). Unit designators that are not known are written as "#".
+ *
+ * @param street - The street line, or an array of street lines (joined with spaces)
+ * @param options - Standardization options
+ * @param options.defaultValue - Default value to return if the street is empty (default: null)
+ * @returns The standardized street line, or the default value
+ *
+ * @example
+ * ```ts
+ * standardizeStreet("123 North Main Street Apartment 4") // "123 N MAIN ST APT 4"
+ * standardizeStreet("456 Elm Avenue, Suite #200") // "456 ELM AVE STE 200"
+ * standardizeStreet("789 Oak Blvd. South West") // "789 OAK BLVD SW"
+ * standardizeStreet(["1 Park Place", "#12"]) // "1 PARK PL # 12"
+ * standardizeStreet("P.O. Box 42") // "PO BOX 42"
+ * standardizeStreet("123 North Street") // "123 NORTH ST"
+ * ```
+ */
+export function standardizeStreet<T extends string | null | undefined>(
+  street: unknown,
+  options: { defaultValue?: T } = {}
+): string | T {
+  const { defaultValue = null as T } = options;
+
+  const lines = Array.isArray(street) ? street : [street];
+  const text = lines
+    .filter((line) => !isNullOrUndefined(line))
+    .map((line) => toString(line, ""))
+    .join(" ");
+
+  const tokens = text
+    .toUpperCase()
+    .replace(/\./g, "")
+    .replace(/#/g, " # ")
+    .replace(/[^A-Z\d#/&\s-]/g, " ")
+    .split(/\s+/)
+    .filter((token) => token !== "" && token !== "-" && token !== "/");
+  if (tokens.length === 0) {
+    return defaultValue as string | T;
+  }
+
+  // PO boxes
+  const box = tokens.join(" ").match(/^(?:P\s*O|POST\s+OFFICE)\s+BOX\s+(.+)$/);
+  if (box) {
+    return `PO BOX ${box[1]}`;
+  }
+
+  // Secondary unit: the first designator after the street name
+  const unitIndex = tokens.findIndex(
+    (token, index) =>
+      index >= 2 &&
+      (token === "#" || findAbbreviation(UNIT_DESIGNATORS, token) !== null) &&
+      (index < tokens.length - 1 ||
+        STANDALONE_DESIGNATORS.includes(
+          findAbbreviation(UNIT_DESIGNATORS, token) ?? ""
+        ))
+  );
+  const primary = unitIndex === -1 ? tokens : tokens.slice(0, unitIndex);
+  const secondary =
+    unitIndex === -1 ? [] : standardizeUnit(tokens.slice(unitIndex));
+
+  // House number (with fractions, "123 1/2") before the name
+  let start = 0;
+  while (start < primary.length && /^\d/.test(primary[start])) {
+    start++;
+  }
+  let end = primary.length;
+
+  // Post-directional, then the suffix, then the pre-directional; each only when a name remains
+  const words = primary.slice();
+  if (end - start > 2 && isDirectionalPair(words[end - 2], words[end - 1])) {
+    // "South West" written as two words
+    words.splice(
+      end - 2,
+      2,
+      DIRECTIONALS[words[end - 2]] + DIRECTIONALS[words[end - 1]]
+    );
+    end -= 2;
+  } else if (end - start > 1 && DIRECTIONALS[words[end - 1]]) {
+    words[end - 1] = DIRECTIONALS[words[end - 1]];
+    end--;
+  }
+  const suffix =
+    end - start > 1 ? findAbbreviation(STREET_SUFFIXES, words[end - 1]) : null;
+  if (suffix) {
+    words[end - 1] = suffix;
+    end--;
+  }
+  if (end - start > 1 && DIRECTIONALS[words[start]]) {
+    words[start] = DIRECTIONALS[words[start]];
+  }
+
+  return [...words, ...secondary].join(" ");
+}
+
+/**
+ * Checks if two addresses are the same location
+ *
+ * Street lines are compared in their `standardizeStreet` form, with unit designators ignored
+ * ("APT 4" and "# 4" are the same unit). Postal codes are compared in their `formatPostalCode`
+ * form, and a US ZIP code matches the ZIP+4 codes within it. When both addresses have a postal
+ * code the city and region are not compared (the postal code decides them); otherwise
+ * the city is compared without case and the region with `normalizeRegion`. Countries are compared
+ * with `normalizeCountry` when both addresses name one.
+ *
+ * @param a - The first address
+ * @param b - The second address
+ * @param options - Comparison options
+ * @returns True if the addresses are the same location
+ *
+ * @example
+ * ```ts
+ * compareAddresses(
+ *   { street: "123 North Main Street Apartment 4", city: "Springfield", region: "Illinois", postalCode: "62701" },
+ *   { street: ["123 N Main St", "#4"], city: "SPRINGFIELD", region: "IL", postalCode: "62701-1234", country: "USA" }
+ * ) // true
+ * compareAddresses({ street: "123 Main St", postalCode: "62701" }, { street: "125 Main St", postalCode: "62701" }) // false
+ * compareAddresses({ street: "1 Elm St", city: "Portland", region: "OR" }, { street: "1 Elm St", city: "Portland", region: "ME" }) // false
+ * ```
+ */
+export function compareAddresses(
+  a: AddressComponents,
+  b: AddressComponents,
+  options: CompareAddressesOptions = {}
+): boolean {
+  const assumedCountry = normalizeCountry(options.country ?? "US", {
+    defaultValue: "US",
+  });
+  const countryA = a.country
+    ? normalizeCountry(a.country, {
+        defaultValue: a.country.trim().toUpperCase(),
+      })
+    : null;
+  const countryB = b.country
+    ? normalizeCountry(b.country, {
+        defaultValue: b.country.trim().toUpperCase(),
+      })
+    : null;
+  if (countryA && countryB && countryA !== countryB) {
+    return false;
+  }
+  const country = countryA ?? countryB ?? assumedCountry;
+
+  if (getComparableStreet(a.street) !== getComparableStreet(b.street)) {
+    return false;
+  }
+
+  const postalA = formatPostalCode(a.postalCode, { country });
+  const postalB = formatPostalCode(b.postalCode, { country });
+  if (postalA && postalB) {
+    return country === "US"
+      ? postalA.slice(0, 5) === postalB.slice(0, 5) &&
+          (postalA.length === 5 || postalB.length === 5 || postalA === postalB)
+      : postalA.replace(/[\s-]/g, "") === postalB.replace(/[\s-]/g, "");
+  }
+
+  return (
+    getComparableText(a.city) === getComparableText(b.city) &&
+    normalizeRegion(a.region, {
+      country,
+      defaultValue: getComparableText(a.region),
+    }) ===
+      normalizeRegion(b.region, {
+        country,
+        defaultValue: getComparableText(b.region),
+      })
+  );
+}
+
+/**
+ * Finds the standard abbreviation for a word in an abbreviation table
+ */
+function findAbbreviation(
+  table: Record<string, string[]>,
+  word: string
+): string | null {
+  if (word in table) {
+    return word;
+  }
+  const entry = Object.entries(table).find(([, words]) => words.includes(word));
+  return entry ? entry[0] : null;
+}
+
+/**
+ * Checks if two words are a directional written in two parts ("SOUTH WEST")
+ */
+function isDirectionalPair(first: string, second: string): boolean {
+  return (
+    (first === "NORTH" || first === "SOUTH") &&
+    (second === "EAST" || second === "WEST")
+  );
+}
+
+/**
+ * Standardizes the secondary unit tokens ("APARTMENT # 4" → ["APT", "4"])
+ */
+function standardizeUnit(tokens: string[]): string[] {
+  const [designator, ...rest] = tokens;
+  const abbreviation =
+    designator === "#" ? "#" : findAbbreviation(UNIT_DESIGNATORS, designator)!;
+  const identifier = rest.filter((token, index) => index > 0 || token !== "#");
+  return [abbreviation, ...identifier];
+}
+
+/**
+ * Gets the standardized street with unit designators replaced by "#", for comparison
+ */
+function getComparableStreet(street: AddressComponents["street"]): string {
+  const standardized = standardizeStreet(street, { defaultValue: "" });
+  const designators = Object.keys(UNIT_DESIGNATORS).filter(
+    (designator) => !STANDALONE_DESIGNATORS.includes(designator)
+  );
+  return standardized.replace(
+    new RegExp(`(^|\\s)(?:${designators.join("|")})(?=\\s)`, "g"),
+    "$1#"
+  );
+}
+
+/**
+ * Simplifies a city or region for comparison: uppercase, without periods and repeated spaces
+ */
+function getComparableText(text: string | null | undefined): string {
+  return (text ?? "")
+    .toUpperCase()
+    .replace(/\./g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
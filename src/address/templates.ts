@@ -0,0 +1,161 @@
+/**
+ * Bundled address layout templates
+ *
+ * Each template describes how a country lays out the lines of a postal address:
+ * the order of the street, city, region and postal code, the separators between
+ * them and which components the postal service expects in uppercase.
+ */
+
+/**
+ * Address component that can appear in a template
+ */
+export type AddressField = "street" | "city" | "region" | "postalCode";
+
+/**
+ * Postal address layout for a country
+ */
+export interface AddressTemplate {
+  /**
+   * ISO 3166-1 alpha-2 country code
+   */
+  country: string;
+  /**
+   * Lines of the address, above the country line
+   * Placeholders: {street}, {city}, {region} and {postalCode}. "{street}" expands to one line
+   * per street line. Text between placeholders is only kept when the components on both
+   * sides are present; text before the first placeholder is kept when that component is present.
+   */
+  lines: readonly string[];
+  /**
+   * Components written in uppercase
+   */
+  uppercase?: readonly AddressField[];
+}
+
+/**
+ * Layout used for countries without a bundled template (the US layout)
+ * @internal
+ */
+export const DEFAULT_ADDRESS_TEMPLATE: AddressTemplate = {
+  country: "US",
+  lines: ["{street}", "{city}, {region} {postalCode}"],
+};
+
+/**
+ * Bundled templates, based on the layouts recommended by each country's postal service
+ */
+const ADDRESS_TEMPLATES: AddressTemplate[] = [
+  DEFAULT_ADDRESS_TEMPLATE,
+  {
+    country: "CA",
+    lines: ["{street}", "{city} {region}  {postalCode}"],
+    uppercase: ["city", "region", "postalCode"],
+  },
+  {
+    country: "MX",
+    lines: ["{street}", "{postalCode} {city}, {region}"],
+  },
+  {
+    country: "BR",
+    lines: ["{street}", "{city}-{region}", "{postalCode}"],
+    uppercase: ["city", "region"],
+  },
+  {
+    country: "AR",
+    lines: ["{street}", "{postalCode} {city}", "{region}"],
+    uppercase: ["city", "region"],
+  },
+  {
+    country: "GB",
+    lines: ["{street}", "{city}", "{region}", "{postalCode}"],
+    uppercase: ["city", "postalCode"],
+  },
+  {
+    country: "IE",
+    lines: ["{street}", "{city}", "{region}", "{postalCode}"],
+    uppercase: ["postalCode"],
+  },
+  { country: "DE", lines: ["{street}", "{postalCode} {city}"] },
+  {
+    country: "FR",
+    lines: ["{street}", "{postalCode} {city}"],
+    uppercase: ["city"],
+  },
+  {
+    country: "IT",
+    lines: ["{street}", "{postalCode} {city} {region}"],
+    uppercase: ["city", "region"],
+  },
+  { country: "ES", lines: ["{street}", "{postalCode} {city}", "{region}"] },
+  { country: "PT", lines: ["{street}", "{postalCode} {city}"] },
+  {
+    country: "NL",
+    lines: ["{street}", "{postalCode} {city}"],
+    uppercase: ["postalCode"],
+  },
+  { country: "BE", lines: ["{street}", "{postalCode} {city}"] },
+  { country: "CH", lines: ["{street}", "{postalCode} {city}"] },
+  { country: "AT", lines: ["{street}", "{postalCode} {city}"] },
+  { country: "SE", lines: ["{street}", "{postalCode} {city}"] },
+  { country: "NO", lines: ["{street}", "{postalCode} {city}"] },
+  { country: "DK", lines: ["{street}", "{postalCode} {city}"] },
+  { country: "FI", lines: ["{street}", "{postalCode} {city}"] },
+  { country: "PL", lines: ["{street}", "{postalCode} {city}"] },
+  { country: "CZ", lines: ["{street}", "{postalCode} {city}"] },
+  { country: "GR", lines: ["{street}", "{postalCode} {city}"] },
+  { country: "HU", lines: ["{city}", "{street}", "{postalCode}"] },
+  { country: "TR", lines: ["{street}", "{postalCode} {city}/{region}"] },
+  {
+    country: "RU",
+    lines: ["{street}", "{city}", "{region}", "{postalCode}"],
+  },
+  { country: "IL", lines: ["{street}", "{city} {postalCode}"] },
+  { country: "SA", lines: ["{street}", "{city} {postalCode}"] },
+  { country: "AE", lines: ["{street}", "{city}", "{region}"] },
+  { country: "ZA", lines: ["{street}", "{city}", "{postalCode}"] },
+  { country: "IN", lines: ["{street}", "{city} {postalCode}", "{region}"] },
+  { country: "JP", lines: ["〒{postalCode}", "{region}{city}", "{street}"] },
+  { country: "CN", lines: ["{postalCode}", "{region}{city}", "{street}"] },
+  { country: "TW", lines: ["{postalCode}", "{region}{city}", "{street}"] },
+  { country: "KR", lines: ["{region} {city}", "{street}", "{postalCode}"] },
+  { country: "HK", lines: ["{street}", "{city}", "{region}"] },
+  {
+    country: "SG",
+    lines: ["{street}", "{city} {postalCode}"],
+    uppercase: ["city"],
+  },
+  {
+    country: "MY",
+    lines: ["{street}", "{postalCode} {city}", "{region}"],
+    uppercase: ["city", "region"],
+  },
+  { country: "TH", lines: ["{street}", "{city}", "{region} {postalCode}"] },
+  { country: "ID", lines: ["{street}", "{city}", "{region} {postalCode}"] },
+  { country: "PH", lines: ["{street}", "{city}", "{postalCode} {region}"] },
+  {
+    country: "AU",
+    lines: ["{street}", "{city} {region} {postalCode}"],
+    uppercase: ["city", "region"],
+  },
+  { country: "NZ", lines: ["{street}", "{city} {postalCode}"] },
+];
+
+/**
+ * Gets the bundled address template for a country
+ *
+ * @param country - ISO 3166-1 alpha-2 country code (case-insensitive)
+ * @returns The address template, or undefined if the country is not bundled
+ *
+ * @example
+ * ```ts
+ * getAddressTemplate("DE")?.lines // ["{street}", "{postalCode} {city}"]
+ * getAddressTemplate("gb")?.uppercase // ["city", "postalCode"]
+ * getAddressTemplate("ZZ") // undefined
+ * ```
+ */
+export function getAddressTemplate(
+  country: string
+): AddressTemplate | undefined {
+  const code = country.trim().toUpperCase();
+  return ADDRESS_TEMPLATES.find((template) => template.country === code);
+}
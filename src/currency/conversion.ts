@@ -0,0 +1,302 @@
+/**
+ * Currency conversion utilities
+ *
+ * Converting amounts between currencies with a table of exchange rates
+ */
+
+import { round } from "../number";
+import { toDecimal } from "../decimal";
+import { getCurrencyInfo } from "./metadata";
+import { Money, toMoney } from "./money";
+
+/**
+ * Exchange rates keyed by ISO 4217 code, as units of each currency per one unit of the base currency
+ *
+ * @example
+ * ```ts
+ * // With a USD base: 1 USD = 0.92 EUR = 151.3 JPY
+ * const rates: ExchangeRates = { EUR: 0.92, JPY: 151.3 };
+ * ```
+ */
+export type ExchangeRates = Record<string, number>;
+
+/**
+ * A table of exchange rates and when it was published
+ */
+export interface ExchangeRateSnapshot {
+  /** ISO 4217 code of the currency the rates are relative to */
+  base: string;
+  /** Units of each currency per one unit of the base currency */
+  rates: Readonly<ExchangeRates>;
+  /** When the rates were published, or null if unknown */
+  timestamp: Date | null;
+}
+
+/**
+ * A source of exchange rates, such as a rates API
+ */
+export interface ExchangeRateProvider {
+  /**
+   * Fetches the latest rates relative to a base currency
+   * @param base - ISO 4217 code of the base currency
+   * @returns The rates, and when they were published (defaults to when they were fetched)
+   */
+  getRates(base: string): Promise<{ rates: ExchangeRates; timestamp?: Date }>;
+}
+
+/**
+ * Options for creating a currency converter
+ */
+export interface CurrencyConverterOptions {
+  /**
+   * ISO 4217 code of the currency the rates are relative to
+   * @default "USD"
+   */
+  base?: string;
+  /**
+   * Initial rates, as units of each currency per one unit of the base currency
+   * @default {}
+   */
+  rates?: ExchangeRates;
+  /**
+   * When the initial rates were published
+   * @default null
+   */
+  timestamp?: Date | null;
+  /**
+   * Decimal places to round converted amounts to, by target currency (null to not round)
+   * Currencies not listed are rounded to their ISO 4217 minor units (2 if unknown)
+   * Converted money is always rounded to whole minor units afterwards
+   */
+  decimalPlaces?: Record<string, number | null>;
+  /**
+   * Source of the latest rates, used by `refresh`
+   */
+  provider?: ExchangeRateProvider;
+  /**
+   * How long rates stay fresh, in milliseconds
+   * @default 3600000 (1 hour)
+   */
+  maxAge?: number;
+}
+
+/**
+ * Converts amounts between currencies
+ */
+export interface CurrencyConverter {
+  /** ISO 4217 code of the currency the rates are relative to */
+  readonly base: string;
+  /** The current rates and when they were published */
+  readonly snapshot: ExchangeRateSnapshot;
+  /**
+   * Gets the rate between two currencies, derived through the base currency if needed
+   * @param from - ISO 4217 code to convert from
+   * @param to - ISO 4217 code to convert to
+   * @returns Units of `to` per one unit of `from`, or undefined if either rate is missing
+   */
+  getRate(from: string, to: string): number | undefined;
+  /**
+   * Converts an amount and rounds it for the target currency
+   * @param amount - The amount in major units of `from`
+   * @param from - ISO 4217 code to convert from
+   * @param to - ISO 4217 code to convert to
+   * @returns The amount in major units of `to`
+   * @throws Error if there is no rate between the currencies
+   */
+  convert(amount: number, from: string, to: string): number;
+  /**
+   * Converts an amount of money to another currency, rounded to the `decimalPlaces` configured
+   * for that currency and then to its minor units
+   * @param money - The amount to convert
+   * @param to - ISO 4217 code to convert to
+   * @returns The converted amount
+   * @throws Error if there is no rate between the currencies or the result is too large for whole minor units
+   */
+  convertMoney(money: Money, to: string): Money;
+  /**
+   * Replaces the rates
+   * @param rates - Units of each currency per one unit of the base currency
+   * @param timestamp - When the rates were published (default: now)
+   * @throws Error if a rate is not a positive number
+   */
+  setRates(rates: ExchangeRates, timestamp?: Date | null): void;
+  /**
+   * Checks if the rates are missing or older than `maxAge`
+   * @param now - The time to check against (default: now)
+   */
+  isStale(now?: Date): boolean;
+  /**
+   * Fetches rates from the provider if they are stale
+   * Calls made while a fetch is in flight share it
+   * @param options.force - Fetch even if the rates are fresh
+   * @returns The current rates
+   * @throws Error if the rates are stale and there is no provider
+   */
+  refresh(options?: { force?: boolean }): Promise<ExchangeRateSnapshot>;
+}
+
+/**
+ * Creates a converter between currencies from a table of rates relative to a base currency
+ * Rates between two non-base currencies are derived through the base (cross rates)
+ *
+ * @param options - The base currency, rates, rounding and an optional rate provider
+ * @returns The currency converter
+ * @throws Error if a currency code is not valid or a rate is not a positive number
+ *
+ * @example
+ * ```ts
+ * const converter = createCurrencyConverter({
+ *   base: "USD",
+ *   rates: { EUR: 0.9, GBP: 0.8, JPY: 150 },
+ * });
+ * converter.convert(100, "USD", "EUR") // 90
+ * converter.convert(100, "EUR", "GBP") // 88.89
+ * converter.convert(10, "USD", "JPY") // 1500
+ * converter.getRate("GBP", "EUR") // 1.125
+ *
+ * const live = createCurrencyConverter({ provider: ratesApi, maxAge: 15 * 60 * 1000 });
+ * await live.refresh();
+ * live.convert(25, "USD", "CAD");
+ * ```
+ */
+export function createCurrencyConverter(
+  options: CurrencyConverterOptions = {}
+): CurrencyConverter {
+  const base = toCurrencyCode(options.base ?? "USD");
+  const maxAge = options.maxAge ?? 60 * 60 * 1000;
+  const decimalPlaces = new Map(
+    Object.entries(options.decimalPlaces ?? {}).map(([code, places]) => [
+      toCurrencyCode(code),
+      places,
+    ])
+  );
+
+  let snapshot: ExchangeRateSnapshot = {
+    base,
+    rates: toRateTable(base, options.rates ?? {}),
+    timestamp: options.timestamp ?? null,
+  };
+  let pending: Promise<ExchangeRateSnapshot> | null = null;
+
+  const getRate = (from: string, to: string): number | undefined => {
+    const fromRate = snapshot.rates[toCurrencyCode(from)];
+    const toRate = snapshot.rates[toCurrencyCode(to)];
+    if (fromRate === undefined || toRate === undefined) return undefined;
+    return toRate / fromRate;
+  };
+
+  const getDecimalPlaces = (to: string): number | null => {
+    const code = toCurrencyCode(to);
+    return decimalPlaces.has(code)
+      ? (decimalPlaces.get(code) ?? null)
+      : (getCurrencyInfo(code)?.minorUnits ?? 2);
+  };
+
+  const getConversionRate = (from: string, to: string): number => {
+    const rate = getRate(from, to);
+    if (rate === undefined) {
+      throw new Error(`No exchange rate from ${from} to ${to}`);
+    }
+    return rate;
+  };
+
+  const setRates = (
+    rates: ExchangeRates,
+    timestamp: Date | null = new Date()
+  ): void => {
+    snapshot = { base, rates: toRateTable(base, rates), timestamp };
+  };
+
+  const isStale = (now: Date = new Date()): boolean =>
+    snapshot.timestamp === null ||
+    Object.keys(snapshot.rates).length <= 1 ||
+    now.getTime() - snapshot.timestamp.getTime() > maxAge;
+
+  const converter: CurrencyConverter = {
+    base,
+    get snapshot(): ExchangeRateSnapshot {
+      return snapshot;
+    },
+    getRate,
+    convert(amount: number, from: string, to: string): number {
+      const converted = amount * getConversionRate(from, to);
+      const places = getDecimalPlaces(to);
+      return places === null ? converted : round(converted, places);
+    },
+    convertMoney(money: Money, to: string): Money {
+      const rate = getConversionRate(money.currency, to);
+      // Scale by the decimal places exactly, so 1999 cents at 150 is 2998.5 and not 2998.4999...
+      const amount = toDecimal(money.minorUnits * rate)?.multiply(
+        `1e-${money.decimalPlaces}`
+      );
+      const places = getDecimalPlaces(to);
+      const rounded = amount && places !== null ? amount.round(places) : amount;
+      const converted = rounded ? toMoney(rounded.toString(), to) : null;
+      if (!converted) {
+        throw new Error(
+          `Converted amount cannot be represented as a whole number of ${to} minor units`
+        );
+      }
+      return converted;
+    },
+    setRates,
+    isStale,
+    refresh(
+      refreshOptions: { force?: boolean } = {}
+    ): Promise<ExchangeRateSnapshot> {
+      if (!refreshOptions.force && !isStale()) {
+        return Promise.resolve(snapshot);
+      }
+      const provider = options.provider;
+      if (!provider) {
+        return Promise.reject(
+          new Error("Exchange rates are stale and no rate provider is set")
+        );
+      }
+      if (!pending) {
+        pending = provider
+          .getRates(base)
+          .then((result) => {
+            setRates(result.rates, result.timestamp ?? new Date());
+            return snapshot;
+          })
+          .finally(() => {
+            pending = null;
+          });
+      }
+      return pending;
+    },
+  };
+
+  return Object.freeze(converter);
+}
+
+/**
+ * Normalizes a currency code
+ * @throws Error if the currency code is not valid
+ */
+function toCurrencyCode(currency: string): string {
+  const code = currency.trim().toUpperCase();
+  if (!/^[A-Z]{3}$/.test(code)) {
+    throw new Error(`Invalid currency code "${currency}"`);
+  }
+  return code;
+}
+
+/**
+ * Builds a frozen rate table with normalized codes and the base currency at 1
+ * @throws Error if a currency code is not valid or a rate is not a positive number
+ */
+function toRateTable(base: string, rates: ExchangeRates): ExchangeRates {
+  const table: ExchangeRates = {};
+  Object.entries(rates).forEach(([currency, rate]) => {
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw new Error(
+        `Exchange rate for ${currency} must be a positive number, got ${rate}`
+      );
+    }
+    table[toCurrencyCode(currency)] = rate;
+  });
+  table[base] = 1;
+  return Object.freeze(table);
+}
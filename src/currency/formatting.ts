@@ -0,0 +1,283 @@
+/**
+ * Currency formatting utilities
+ *
+ * Functions for formatting numbers as currency amounts
+ */
+
+import { toNumber, toNumberString, NumberStringOptions } from "../number";
+import { NumberConstraint, SignDisplay } from "../generics";
+import { escapeRegex } from "../string";
+import { getCurrencyInfo } from "./metadata";
+
+/** Placeholder for zero amounts in accounting notation */
+const ZERO_DASH = "\u2014";
+
+/** Widest column `width` pads to */
+const MAX_WIDTH = 1000;
+
+/**
+ * Currency formatting options
+ */
+export interface CurrencyFormatOptions {
+  /**
+   * Grain/format type for currency display
+   * - "cents": Always show the currency's minor units (e.g., "$1,234.00", "¥1,235")
+   * - "cents-optional": Show minor units only if non-zero (e.g., "$1,234", "$1,234.56")
+   * - "whole": Round to nearest whole unit, no cents (e.g., "$1,235")
+   * - "compact": Automatically group to K/M/B based on value magnitude with auto decimals
+   * - "accounting": Like "cents", with negatives in parentheses and "—" for zero (e.g., "($1,234.56)")
+   * @default "cents"
+   */
+  grain?: "cents" | "cents-optional" | "whole" | "compact" | "accounting";
+
+  /**
+   * ISO 4217 currency code (e.g., "USD", "EUR", "JPY")
+   * Sets the symbol and the default number of decimal places; separators follow `locale`
+   * @default "USD"
+   */
+  currency?: string;
+
+  /**
+   * Constraint on which values are allowed
+   * @default "all"
+   */
+  constraint?: NumberConstraint;
+
+  /**
+   * How to display signs
+   * @default "auto" ("parentheses" for the "accounting" grain)
+   */
+  signDisplay?: SignDisplay;
+
+  /**
+   * Value to return for null/undefined inputs
+   * @default "--"
+   */
+  nullValue?: string;
+
+  /**
+   * Maximum number of decimal places for minor units
+   * @default The currency's ISO 4217 minor units (2 for USD, 0 for JPY, 3 for KWD), or 2 if unknown
+   */
+  maxDecimalPlaces?: number;
+
+  /**
+   * Locale to use for formatting (e.g., "en-US", "de-DE", "fr-FR")
+   * @default "en-US"
+   */
+  locale?: Intl.LocalesArgument;
+
+  /**
+   * Additional Intl.NumberFormat options
+   */
+  intlOptions?: Intl.NumberFormatOptions;
+
+  /**
+   * Pads the result to at least this many characters, for monospaced columns
+   * Accounting amounts keep the symbol at the edge and leave room for a closing parenthesis
+   * (e.g., "$    1,234.56 ", "$   (1,234.56)"). Widths above 1000 are treated as 1000
+   */
+  width?: number;
+}
+
+export function toCurrency(
+  value: unknown,
+  opts: CurrencyFormatOptions = {}
+): string {
+  // Initialize defaults
+  const grain = opts.grain || "cents";
+  const locale: Intl.LocalesArgument = opts.locale || "en-US";
+  const currency = opts.currency || "USD";
+  const signDisplay =
+    opts.signDisplay ?? (grain === "accounting" ? "parentheses" : "auto");
+  const info = getCurrencyInfo(currency);
+  const minorUnits = info?.minorUnits ?? 2;
+
+  // Pre-processing: convert to number
+  let num = toNumber(value, null);
+  if (num === null) return opts.nullValue ?? "--";
+
+  // Round if needed
+  if (!["cents", "cents-optional", "accounting"].includes(grain)) {
+    num = Math.round(num);
+  }
+
+  // Calculate decimal places based on grain
+  let minimumFractionDigits = 0;
+  let maximumFractionDigits = 2;
+  const hasCents = num % 1 !== 0;
+  if (grain === "cents" || grain === "accounting") {
+    minimumFractionDigits = minorUnits;
+    maximumFractionDigits = opts.maxDecimalPlaces || minorUnits;
+  } else if (grain === "cents-optional") {
+    minimumFractionDigits = hasCents ? minorUnits : 0;
+    maximumFractionDigits = hasCents ? opts.maxDecimalPlaces || minorUnits : 0;
+  }
+
+  // Map currency options to toNumberString options
+  const numberStringOpts: NumberStringOptions = {
+    locale,
+    minDecimalPlaces: minimumFractionDigits,
+    maxDecimalPlaces: maximumFractionDigits,
+    constraint: opts.constraint,
+    signDisplay,
+    nullValue: opts.nullValue ?? "--",
+    intlOptions: {
+      style: "currency",
+      currency,
+      notation: grain === "compact" ? "compact" : "standard",
+      useGrouping: true,
+      currencyDisplay: "symbol",
+      currencySign: signDisplay === "parentheses" ? "accounting" : "standard",
+      ...opts.intlOptions,
+    },
+  };
+
+  // Call toNumberString
+  let formatted = toNumberString(num, numberStringOpts);
+
+  // Handle edge case of invalid currency (e.g. "XYZ 0.00", "(XYZ 0.00)", "0,00 XYZ"), change to $
+  // Known currencies without a symbol (e.g. "CHF 0.00") keep their code
+  if (!info) {
+    // Replace the currency code (and the space between it and a following number) with $
+    const code = escapeRegex(currency.toUpperCase());
+    formatted = formatted.replace(
+      new RegExp(`\\b${code}(?:\\s(?=[\\d-]))?`),
+      () => "$"
+    );
+  }
+
+  // Accounting shows a dash for amounts that round to zero
+  const nullValue = opts.nullValue ?? "--";
+  if (
+    grain === "accounting" &&
+    formatted !== nullValue &&
+    Math.abs(num) < 0.5 / 10 ** maximumFractionDigits
+  ) {
+    formatted = ZERO_DASH;
+  }
+
+  return opts.width ? alignAmounts([formatted], opts)[0] : formatted;
+}
+
+/**
+ * Formats a column of currency amounts so they line up in a monospaced table
+ *
+ * Every amount is padded to the same width with the decimal separators aligned. With the
+ * "accounting" grain, currency symbols line up at the edge of the column as well.
+ *
+ * @param values - The amounts to format
+ * @param opts - `toCurrency` options (`width` sets a minimum column width)
+ * @returns The formatted amounts, all the same length
+ *
+ * @example
+ * ```ts
+ * formatCurrencyColumn([1234.5, -20, 0], { grain: "accounting" })
+ * // ["$ 1,234.50 ", "$   (20.00)", "$     —    "]
+ *
+ * formatCurrencyColumn([1234.5, 20, 3.125], { maxDecimalPlaces: 3 })
+ * // ["$1,234.50 ", "   $20.00 ", "    $3.125"]
+ * ```
+ */
+export function formatCurrencyColumn(
+  values: unknown[],
+  opts: CurrencyFormatOptions = {}
+): string[] {
+  const formatted = values.map((value) =>
+    toCurrency(value, { ...opts, width: undefined })
+  );
+  return alignAmounts(formatted, opts);
+}
+
+/**
+ * Pads formatted amounts to a common width with their decimal separators aligned
+ * Accounting amounts are split from their symbol, which goes at the edge of the column
+ */
+function alignAmounts(
+  amounts: string[],
+  opts: CurrencyFormatOptions
+): string[] {
+  const nullValue = opts.nullValue ?? "--";
+  const accounting = opts.grain === "accounting";
+  const { symbol, symbolFirst, decimal } = getCurrencyParts(opts);
+
+  const rows = amounts.map((amount) => {
+    const hasSymbol = accounting && amount !== nullValue;
+    let text = amount;
+    if (hasSymbol) {
+      text = text
+        .replace(symbol, "")
+        .replace(/\(\s+/, "(")
+        .replace(/\s+\)/, ")")
+        .trim();
+      // Leave room for the closing parenthesis of negative amounts
+      if (!text.endsWith(")")) text += " ";
+    }
+
+    // Align on the decimal separator, or just after the last digit for whole amounts
+    const decimalIndex = text.search(
+      new RegExp(`${escapeRegex(decimal)}(?=\\d)`)
+    );
+    const lastDigit = text.search(/[\d\u2014][^\d\u2014]*$/);
+    let anchor = text.length;
+    if (decimalIndex !== -1) anchor = decimalIndex;
+    else if (lastDigit !== -1) anchor = lastDigit + 1;
+
+    return {
+      head: text.slice(0, anchor),
+      tail: text.slice(anchor),
+      symbol: hasSymbol ? symbol : "",
+    };
+  });
+
+  const headWidth = Math.max(0, ...rows.map((row) => row.head.length));
+  const tailWidth = Math.max(0, ...rows.map((row) => row.tail.length));
+  const symbolWidth = accounting ? symbol.length + 1 : 0;
+  const padding = Math.max(
+    0,
+    Math.min(opts.width ?? 0, MAX_WIDTH) - (headWidth + tailWidth + symbolWidth)
+  );
+
+  return rows.map((row) => {
+    const number =
+      row.head.padStart(headWidth + padding) + row.tail.padEnd(tailWidth);
+    if (!accounting) return number;
+    const edge = row.symbol.padEnd(symbol.length);
+    return symbolFirst ? `${edge} ${number}` : `${number} ${edge}`;
+  });
+}
+
+/**
+ * Gets the currency symbol, which side of the number it goes on, and the decimal separator
+ */
+function getCurrencyParts(opts: CurrencyFormatOptions): {
+  symbol: string;
+  symbolFirst: boolean;
+  decimal: string;
+} {
+  const currency = opts.currency || "USD";
+  let parts: Intl.NumberFormatPart[];
+  try {
+    parts = new Intl.NumberFormat(opts.locale || "en-US", {
+      style: "currency",
+      currency,
+      currencyDisplay: opts.intlOptions?.currencyDisplay ?? "symbol",
+    }).formatToParts(1.5);
+  } catch {
+    // toCurrency shows nullValue for options Intl rejects, so there is no symbol to align
+    return { symbol: "", symbolFirst: true, decimal: "." };
+  }
+
+  let symbol = parts.find((part) => part.type === "currency")?.value ?? "";
+  // Unknown currencies are shown with "$", as in toCurrency
+  if (!getCurrencyInfo(currency) && /^[A-Z]+$/.test(symbol)) {
+    symbol = "$";
+  }
+  return {
+    symbol,
+    symbolFirst:
+      parts.findIndex((part) => part.type === "currency") <
+      parts.findIndex((part) => part.type === "integer"),
+    decimal: parts.find((part) => part.type === "decimal")?.value ?? ".",
+  };
+}
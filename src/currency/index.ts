@@ -0,0 +1,25 @@
+/**
+ * Currency utilities
+ *
+ * This module provides functions for:
+ * - ISO 4217 currency metadata (codes, minor units, symbols)
+ * - Formatting numbers as currency amounts
+ * - Parsing formatted currency amounts back into numbers
+ * - Exact arithmetic on money amounts stored in minor units
+ * - Converting amounts between currencies with exchange rates
+ */
+
+// Export currency metadata
+export * from "./metadata";
+
+// Export formatting functions
+export * from "./formatting";
+
+// Export parsing functions
+export * from "./parsing";
+
+// Export money values
+export * from "./money";
+
+// Export currency conversion
+export * from "./conversion";
@@ -0,0 +1,1161 @@
+/**
+ * Currency metadata
+ *
+ * ISO 4217 currency codes, names, minor units and symbols
+ */
+
+import { createTypedEnum } from "../enum";
+
+/**
+ * ISO 4217 active currencies, keyed by alphabetic code
+ * Each entry has the English name as its label, the numeric code, the number of minor unit
+ * decimal places, and the symbol and narrow symbol used in US English formatting
+ *
+ * @example
+ * ```ts
+ * CURRENCY.getLabel("EUR") // "Euro"
+ * CURRENCY.enumMap.JPY.minorUnits // 0
+ * CURRENCY.isValueValid("XYZ") // false
+ * ```
+ */
+export const CURRENCY = createTypedEnum({
+  AED: {
+    label: "United Arab Emirates Dirham",
+    numeric: "784",
+    minorUnits: 2,
+    symbol: "AED",
+    narrowSymbol: "AED",
+  },
+  AFN: {
+    label: "Afghan Afghani",
+    numeric: "971",
+    minorUnits: 2,
+    symbol: "AFN",
+    narrowSymbol: "؋",
+  },
+  ALL: {
+    label: "Albanian Lek",
+    numeric: "008",
+    minorUnits: 2,
+    symbol: "ALL",
+    narrowSymbol: "ALL",
+  },
+  AMD: {
+    label: "Armenian Dram",
+    numeric: "051",
+    minorUnits: 2,
+    symbol: "AMD",
+    narrowSymbol: "֏",
+  },
+  AOA: {
+    label: "Angolan Kwanza",
+    numeric: "973",
+    minorUnits: 2,
+    symbol: "AOA",
+    narrowSymbol: "Kz",
+  },
+  ARS: {
+    label: "Argentine Peso",
+    numeric: "032",
+    minorUnits: 2,
+    symbol: "ARS",
+    narrowSymbol: "$",
+  },
+  AUD: {
+    label: "Australian Dollar",
+    numeric: "036",
+    minorUnits: 2,
+    symbol: "A$",
+    narrowSymbol: "$",
+  },
+  AWG: {
+    label: "Aruban Florin",
+    numeric: "533",
+    minorUnits: 2,
+    symbol: "AWG",
+    narrowSymbol: "AWG",
+  },
+  AZN: {
+    label: "Azerbaijani Manat",
+    numeric: "944",
+    minorUnits: 2,
+    symbol: "AZN",
+    narrowSymbol: "₼",
+  },
+  BAM: {
+    label: "Bosnia-Herzegovina Convertible Mark",
+    numeric: "977",
+    minorUnits: 2,
+    symbol: "BAM",
+    narrowSymbol: "KM",
+  },
+  BBD: {
+    label: "Barbadian Dollar",
+    numeric: "052",
+    minorUnits: 2,
+    symbol: "BBD",
+    narrowSymbol: "$",
+  },
+  BDT: {
+    label: "Bangladeshi Taka",
+    numeric: "050",
+    minorUnits: 2,
+    symbol: "BDT",
+    narrowSymbol: "৳",
+  },
+  BGN: {
+    label: "Bulgarian Lev",
+    numeric: "975",
+    minorUnits: 2,
+    symbol: "BGN",
+    narrowSymbol: "BGN",
+  },
+  BHD: {
+    label: "Bahraini Dinar",
+    numeric: "048",
+    minorUnits: 3,
+    symbol: "BHD",
+    narrowSymbol: "BHD",
+  },
+  BIF: {
+    label: "Burundian Franc",
+    numeric: "108",
+    minorUnits: 0,
+    symbol: "BIF",
+    narrowSymbol: "BIF",
+  },
+  BMD: {
+    label: "Bermudan Dollar",
+    numeric: "060",
+    minorUnits: 2,
+    symbol: "BMD",
+    narrowSymbol: "$",
+  },
+  BND: {
+    label: "Brunei Dollar",
+    numeric: "096",
+    minorUnits: 2,
+    symbol: "BND",
+    narrowSymbol: "$",
+  },
+  BOB: {
+    label: "Bolivian Boliviano",
+    numeric: "068",
+    minorUnits: 2,
+    symbol: "BOB",
+    narrowSymbol: "Bs",
+  },
+  BRL: {
+    label: "Brazilian Real",
+    numeric: "986",
+    minorUnits: 2,
+    symbol: "R$",
+    narrowSymbol: "R$",
+  },
+  BSD: {
+    label: "Bahamian Dollar",
+    numeric: "044",
+    minorUnits: 2,
+    symbol: "BSD",
+    narrowSymbol: "$",
+  },
+  BTN: {
+    label: "Bhutanese Ngultrum",
+    numeric: "064",
+    minorUnits: 2,
+    symbol: "BTN",
+    narrowSymbol: "BTN",
+  },
+  BWP: {
+    label: "Botswanan Pula",
+    numeric: "072",
+    minorUnits: 2,
+    symbol: "BWP",
+    narrowSymbol: "P",
+  },
+  BYN: {
+    label: "Belarusian Ruble",
+    numeric: "933",
+    minorUnits: 2,
+    symbol: "BYN",
+    narrowSymbol: "BYN",
+  },
+  BZD: {
+    label: "Belize Dollar",
+    numeric: "084",
+    minorUnits: 2,
+    symbol: "BZD",
+    narrowSymbol: "$",
+  },
+  CAD: {
+    label: "Canadian Dollar",
+    numeric: "124",
+    minorUnits: 2,
+    symbol: "CA$",
+    narrowSymbol: "$",
+  },
+  CDF: {
+    label: "Congolese Franc",
+    numeric: "976",
+    minorUnits: 2,
+    symbol: "CDF",
+    narrowSymbol: "CDF",
+  },
+  CHF: {
+    label: "Swiss Franc",
+    numeric: "756",
+    minorUnits: 2,
+    symbol: "CHF",
+    narrowSymbol: "CHF",
+  },
+  CLP: {
+    label: "Chilean Peso",
+    numeric: "152",
+    minorUnits: 0,
+    symbol: "CLP",
+    narrowSymbol: "$",
+  },
+  CNY: {
+    label: "Chinese Yuan",
+    numeric: "156",
+    minorUnits: 2,
+    symbol: "CN¥",
+    narrowSymbol: "¥",
+  },
+  COP: {
+    label: "Colombian Peso",
+    numeric: "170",
+    minorUnits: 2,
+    symbol: "COP",
+    narrowSymbol: "$",
+  },
+  CRC: {
+    label: "Costa Rican Colón",
+    numeric: "188",
+    minorUnits: 2,
+    symbol: "CRC",
+    narrowSymbol: "₡",
+  },
+  CUP: {
+    label: "Cuban Peso",
+    numeric: "192",
+    minorUnits: 2,
+    symbol: "CUP",
+    narrowSymbol: "$",
+  },
+  CVE: {
+    label: "Cape Verdean Escudo",
+    numeric: "132",
+    minorUnits: 2,
+    symbol: "CVE",
+    narrowSymbol: "CVE",
+  },
+  CZK: {
+    label: "Czech Koruna",
+    numeric: "203",
+    minorUnits: 2,
+    symbol: "CZK",
+    narrowSymbol: "Kč",
+  },
+  DJF: {
+    label: "Djiboutian Franc",
+    numeric: "262",
+    minorUnits: 0,
+    symbol: "DJF",
+    narrowSymbol: "DJF",
+  },
+  DKK: {
+    label: "Danish Krone",
+    numeric: "208",
+    minorUnits: 2,
+    symbol: "DKK",
+    narrowSymbol: "kr",
+  },
+  DOP: {
+    label: "Dominican Peso",
+    numeric: "214",
+    minorUnits: 2,
+    symbol: "DOP",
+    narrowSymbol: "$",
+  },
+  DZD: {
+    label: "Algerian Dinar",
+    numeric: "012",
+    minorUnits: 2,
+    symbol: "DZD",
+    narrowSymbol: "DZD",
+  },
+  EGP: {
+    label: "Egyptian Pound",
+    numeric: "818",
+    minorUnits: 2,
+    symbol: "EGP",
+    narrowSymbol: "E£",
+  },
+  ERN: {
+    label: "Eritrean Nakfa",
+    numeric: "232",
+    minorUnits: 2,
+    symbol: "ERN",
+    narrowSymbol: "ERN",
+  },
+  ETB: {
+    label: "Ethiopian Birr",
+    numeric: "230",
+    minorUnits: 2,
+    symbol: "ETB",
+    narrowSymbol: "ETB",
+  },
+  EUR: {
+    label: "Euro",
+    numeric: "978",
+    minorUnits: 2,
+    symbol: "€",
+    narrowSymbol: "€",
+  },
+  FJD: {
+    label: "Fijian Dollar",
+    numeric: "242",
+    minorUnits: 2,
+    symbol: "FJD",
+    narrowSymbol: "$",
+  },
+  FKP: {
+    label: "Falkland Islands Pound",
+    numeric: "238",
+    minorUnits: 2,
+    symbol: "FKP",
+    narrowSymbol: "£",
+  },
+  GBP: {
+    label: "British Pound",
+    numeric: "826",
+    minorUnits: 2,
+    symbol: "£",
+    narrowSymbol: "£",
+  },
+  GEL: {
+    label: "Georgian Lari",
+    numeric: "981",
+    minorUnits: 2,
+    symbol: "GEL",
+    narrowSymbol: "₾",
+  },
+  GHS: {
+    label: "Ghanaian Cedi",
+    numeric: "936",
+    minorUnits: 2,
+    symbol: "GHS",
+    narrowSymbol: "GH₵",
+  },
+  GIP: {
+    label: "Gibraltar Pound",
+    numeric: "292",
+    minorUnits: 2,
+    symbol: "GIP",
+    narrowSymbol: "£",
+  },
+  GMD: {
+    label: "Gambian Dalasi",
+    numeric: "270",
+    minorUnits: 2,
+    symbol: "GMD",
+    narrowSymbol: "GMD",
+  },
+  GNF: {
+    label: "Guinean Franc",
+    numeric: "324",
+    minorUnits: 0,
+    symbol: "GNF",
+    narrowSymbol: "FG",
+  },
+  GTQ: {
+    label: "Guatemalan Quetzal",
+    numeric: "320",
+    minorUnits: 2,
+    symbol: "GTQ",
+    narrowSymbol: "Q",
+  },
+  GYD: {
+    label: "Guyanaese Dollar",
+    numeric: "328",
+    minorUnits: 2,
+    symbol: "GYD",
+    narrowSymbol: "$",
+  },
+  HKD: {
+    label: "Hong Kong Dollar",
+    numeric: "344",
+    minorUnits: 2,
+    symbol: "HK$",
+    narrowSymbol: "$",
+  },
+  HNL: {
+    label: "Honduran Lempira",
+    numeric: "340",
+    minorUnits: 2,
+    symbol: "HNL",
+    narrowSymbol: "L",
+  },
+  HTG: {
+    label: "Haitian Gourde",
+    numeric: "332",
+    minorUnits: 2,
+    symbol: "HTG",
+    narrowSymbol: "HTG",
+  },
+  HUF: {
+    label: "Hungarian Forint",
+    numeric: "348",
+    minorUnits: 2,
+    symbol: "HUF",
+    narrowSymbol: "Ft",
+  },
+  IDR: {
+    label: "Indonesian Rupiah",
+    numeric: "360",
+    minorUnits: 2,
+    symbol: "IDR",
+    narrowSymbol: "Rp",
+  },
+  ILS: {
+    label: "Israeli New Shekel",
+    numeric: "376",
+    minorUnits: 2,
+    symbol: "₪",
+    narrowSymbol: "₪",
+  },
+  INR: {
+    label: "Indian Rupee",
+    numeric: "356",
+    minorUnits: 2,
+    symbol: "₹",
+    narrowSymbol: "₹",
+  },
+  IQD: {
+    label: "Iraqi Dinar",
+    numeric: "368",
+    minorUnits: 3,
+    symbol: "IQD",
+    narrowSymbol: "IQD",
+  },
+  IRR: {
+    label: "Iranian Rial",
+    numeric: "364",
+    minorUnits: 2,
+    symbol: "IRR",
+    narrowSymbol: "IRR",
+  },
+  ISK: {
+    label: "Icelandic Króna",
+    numeric: "352",
+    minorUnits: 0,
+    symbol: "ISK",
+    narrowSymbol: "kr",
+  },
+  JMD: {
+    label: "Jamaican Dollar",
+    numeric: "388",
+    minorUnits: 2,
+    symbol: "JMD",
+    narrowSymbol: "$",
+  },
+  JOD: {
+    label: "Jordanian Dinar",
+    numeric: "400",
+    minorUnits: 3,
+    symbol: "JOD",
+    narrowSymbol: "JOD",
+  },
+  JPY: {
+    label: "Japanese Yen",
+    numeric: "392",
+    minorUnits: 0,
+    symbol: "¥",
+    narrowSymbol: "¥",
+  },
+  KES: {
+    label: "Kenyan Shilling",
+    numeric: "404",
+    minorUnits: 2,
+    symbol: "KES",
+    narrowSymbol: "KES",
+  },
+  KGS: {
+    label: "Kyrgystani Som",
+    numeric: "417",
+    minorUnits: 2,
+    symbol: "KGS",
+    narrowSymbol: "⃀",
+  },
+  KHR: {
+    label: "Cambodian Riel",
+    numeric: "116",
+    minorUnits: 2,
+    symbol: "KHR",
+    narrowSymbol: "៛",
+  },
+  KMF: {
+    label: "Comorian Franc",
+    numeric: "174",
+    minorUnits: 0,
+    symbol: "KMF",
+    narrowSymbol: "CF",
+  },
+  KPW: {
+    label: "North Korean Won",
+    numeric: "408",
+    minorUnits: 2,
+    symbol: "KPW",
+    narrowSymbol: "₩",
+  },
+  KRW: {
+    label: "South Korean Won",
+    numeric: "410",
+    minorUnits: 0,
+    symbol: "₩",
+    narrowSymbol: "₩",
+  },
+  KWD: {
+    label: "Kuwaiti Dinar",
+    numeric: "414",
+    minorUnits: 3,
+    symbol: "KWD",
+    narrowSymbol: "KWD",
+  },
+  KYD: {
+    label: "Cayman Islands Dollar",
+    numeric: "136",
+    minorUnits: 2,
+    symbol: "KYD",
+    narrowSymbol: "$",
+  },
+  KZT: {
+    label: "Kazakhstani Tenge",
+    numeric: "398",
+    minorUnits: 2,
+    symbol: "KZT",
+    narrowSymbol: "₸",
+  },
+  LAK: {
+    label: "Laotian Kip",
+    numeric: "418",
+    minorUnits: 2,
+    symbol: "LAK",
+    narrowSymbol: "₭",
+  },
+  LBP: {
+    label: "Lebanese Pound",
+    numeric: "422",
+    minorUnits: 2,
+    symbol: "LBP",
+    narrowSymbol: "L£",
+  },
+  LKR: {
+    label: "Sri Lankan Rupee",
+    numeric: "144",
+    minorUnits: 2,
+    symbol: "LKR",
+    narrowSymbol: "Rs",
+  },
+  LRD: {
+    label: "Liberian Dollar",
+    numeric: "430",
+    minorUnits: 2,
+    symbol: "LRD",
+    narrowSymbol: "$",
+  },
+  LSL: {
+    label: "Lesotho Loti",
+    numeric: "426",
+    minorUnits: 2,
+    symbol: "LSL",
+    narrowSymbol: "LSL",
+  },
+  LYD: {
+    label: "Libyan Dinar",
+    numeric: "434",
+    minorUnits: 3,
+    symbol: "LYD",
+    narrowSymbol: "LYD",
+  },
+  MAD: {
+    label: "Moroccan Dirham",
+    numeric: "504",
+    minorUnits: 2,
+    symbol: "MAD",
+    narrowSymbol: "MAD",
+  },
+  MDL: {
+    label: "Moldovan Leu",
+    numeric: "498",
+    minorUnits: 2,
+    symbol: "MDL",
+    narrowSymbol: "MDL",
+  },
+  MGA: {
+    label: "Malagasy Ariary",
+    numeric: "969",
+    minorUnits: 2,
+    symbol: "MGA",
+    narrowSymbol: "Ar",
+  },
+  MKD: {
+    label: "Macedonian Denar",
+    numeric: "807",
+    minorUnits: 2,
+    symbol: "MKD",
+    narrowSymbol: "MKD",
+  },
+  MMK: {
+    label: "Myanmar Kyat",
+    numeric: "104",
+    minorUnits: 2,
+    symbol: "MMK",
+    narrowSymbol: "K",
+  },
+  MNT: {
+    label: "Mongolian Tugrik",
+    numeric: "496",
+    minorUnits: 2,
+    symbol: "MNT",
+    narrowSymbol: "₮",
+  },
+  MOP: {
+    label: "Macanese Pataca",
+    numeric: "446",
+    minorUnits: 2,
+    symbol: "MOP",
+    narrowSymbol: "MOP",
+  },
+  MRU: {
+    label: "Mauritanian Ouguiya",
+    numeric: "929",
+    minorUnits: 2,
+    symbol: "MRU",
+    narrowSymbol: "MRU",
+  },
+  MUR: {
+    label: "Mauritian Rupee",
+    numeric: "480",
+    minorUnits: 2,
+    symbol: "MUR",
+    narrowSymbol: "Rs",
+  },
+  MVR: {
+    label: "Maldivian Rufiyaa",
+    numeric: "462",
+    minorUnits: 2,
+    symbol: "MVR",
+    narrowSymbol: "MVR",
+  },
+  MWK: {
+    label: "Malawian Kwacha",
+    numeric: "454",
+    minorUnits: 2,
+    symbol: "MWK",
+    narrowSymbol: "MWK",
+  },
+  MXN: {
+    label: "Mexican Peso",
+    numeric: "484",
+    minorUnits: 2,
+    symbol: "MX$",
+    narrowSymbol: "$",
+  },
+  MYR: {
+    label: "Malaysian Ringgit",
+    numeric: "458",
+    minorUnits: 2,
+    symbol: "MYR",
+    narrowSymbol: "RM",
+  },
+  MZN: {
+    label: "Mozambican Metical",
+    numeric: "943",
+    minorUnits: 2,
+    symbol: "MZN",
+    narrowSymbol: "MZN",
+  },
+  NAD: {
+    label: "Namibian Dollar",
+    numeric: "516",
+    minorUnits: 2,
+    symbol: "NAD",
+    narrowSymbol: "$",
+  },
+  NGN: {
+    label: "Nigerian Naira",
+    numeric: "566",
+    minorUnits: 2,
+    symbol: "NGN",
+    narrowSymbol: "₦",
+  },
+  NIO: {
+    label: "Nicaraguan Córdoba",
+    numeric: "558",
+    minorUnits: 2,
+    symbol: "NIO",
+    narrowSymbol: "C$",
+  },
+  NOK: {
+    label: "Norwegian Krone",
+    numeric: "578",
+    minorUnits: 2,
+    symbol: "NOK",
+    narrowSymbol: "kr",
+  },
+  NPR: {
+    label: "Nepalese Rupee",
+    numeric: "524",
+    minorUnits: 2,
+    symbol: "NPR",
+    narrowSymbol: "Rs",
+  },
+  NZD: {
+    label: "New Zealand Dollar",
+    numeric: "554",
+    minorUnits: 2,
+    symbol: "NZ$",
+    narrowSymbol: "$",
+  },
+  OMR: {
+    label: "Omani Rial",
+    numeric: "512",
+    minorUnits: 3,
+    symbol: "OMR",
+    narrowSymbol: "OMR",
+  },
+  PAB: {
+    label: "Panamanian Balboa",
+    numeric: "590",
+    minorUnits: 2,
+    symbol: "PAB",
+    narrowSymbol: "PAB",
+  },
+  PEN: {
+    label: "Peruvian Sol",
+    numeric: "604",
+    minorUnits: 2,
+    symbol: "PEN",
+    narrowSymbol: "PEN",
+  },
+  PGK: {
+    label: "Papua New Guinean Kina",
+    numeric: "598",
+    minorUnits: 2,
+    symbol: "PGK",
+    narrowSymbol: "PGK",
+  },
+  PHP: {
+    label: "Philippine Peso",
+    numeric: "608",
+    minorUnits: 2,
+    symbol: "₱",
+    narrowSymbol: "₱",
+  },
+  PKR: {
+    label: "Pakistani Rupee",
+    numeric: "586",
+    minorUnits: 2,
+    symbol: "PKR",
+    narrowSymbol: "Rs",
+  },
+  PLN: {
+    label: "Polish Zloty",
+    numeric: "985",
+    minorUnits: 2,
+    symbol: "PLN",
+    narrowSymbol: "zł",
+  },
+  PYG: {
+    label: "Paraguayan Guarani",
+    numeric: "600",
+    minorUnits: 0,
+    symbol: "PYG",
+    narrowSymbol: "₲",
+  },
+  QAR: {
+    label: "Qatari Riyal",
+    numeric: "634",
+    minorUnits: 2,
+    symbol: "QAR",
+    narrowSymbol: "QAR",
+  },
+  RON: {
+    label: "Romanian Leu",
+    numeric: "946",
+    minorUnits: 2,
+    symbol: "RON",
+    narrowSymbol: "lei",
+  },
+  RSD: {
+    label: "Serbian Dinar",
+    numeric: "941",
+    minorUnits: 2,
+    symbol: "RSD",
+    narrowSymbol: "RSD",
+  },
+  RUB: {
+    label: "Russian Ruble",
+    numeric: "643",
+    minorUnits: 2,
+    symbol: "RUB",
+    narrowSymbol: "₽",
+  },
+  RWF: {
+    label: "Rwandan Franc",
+    numeric: "646",
+    minorUnits: 0,
+    symbol: "RWF",
+    narrowSymbol: "RF",
+  },
+  SAR: {
+    label: "Saudi Riyal",
+    numeric: "682",
+    minorUnits: 2,
+    symbol: "SAR",
+    narrowSymbol: "SAR",
+  },
+  SBD: {
+    label: "Solomon Islands Dollar",
+    numeric: "090",
+    minorUnits: 2,
+    symbol: "SBD",
+    narrowSymbol: "$",
+  },
+  SCR: {
+    label: "Seychellois Rupee",
+    numeric: "690",
+    minorUnits: 2,
+    symbol: "SCR",
+    narrowSymbol: "SCR",
+  },
+  SDG: {
+    label: "Sudanese Pound",
+    numeric: "938",
+    minorUnits: 2,
+    symbol: "SDG",
+    narrowSymbol: "SDG",
+  },
+  SEK: {
+    label: "Swedish Krona",
+    numeric: "752",
+    minorUnits: 2,
+    symbol: "SEK",
+    narrowSymbol: "kr",
+  },
+  SGD: {
+    label: "Singapore Dollar",
+    numeric: "702",
+    minorUnits: 2,
+    symbol: "SGD",
+    narrowSymbol: "$",
+  },
+  SHP: {
+    label: "St. Helena Pound",
+    numeric: "654",
+    minorUnits: 2,
+    symbol: "SHP",
+    narrowSymbol: "£",
+  },
+  SLE: {
+    label: "Sierra Leonean Leone",
+    numeric: "925",
+    minorUnits: 2,
+    symbol: "SLE",
+    narrowSymbol: "SLE",
+  },
+  SOS: {
+    label: "Somali Shilling",
+    numeric: "706",
+    minorUnits: 2,
+    symbol: "SOS",
+    narrowSymbol: "SOS",
+  },
+  SRD: {
+    label: "Surinamese Dollar",
+    numeric: "968",
+    minorUnits: 2,
+    symbol: "SRD",
+    narrowSymbol: "$",
+  },
+  SSP: {
+    label: "South Sudanese Pound",
+    numeric: "728",
+    minorUnits: 2,
+    symbol: "SSP",
+    narrowSymbol: "£",
+  },
+  STN: {
+    label: "São Tomé and Príncipe Dobra",
+    numeric: "930",
+    minorUnits: 2,
+    symbol: "STN",
+    narrowSymbol: "Db",
+  },
+  SVC: {
+    label: "Salvadoran Colón",
+    numeric: "222",
+    minorUnits: 2,
+    symbol: "SVC",
+    narrowSymbol: "SVC",
+  },
+  SYP: {
+    label: "Syrian Pound",
+    numeric: "760",
+    minorUnits: 2,
+    symbol: "SYP",
+    narrowSymbol: "£",
+  },
+  SZL: {
+    label: "Swazi Lilangeni",
+    numeric: "748",
+    minorUnits: 2,
+    symbol: "SZL",
+    narrowSymbol: "SZL",
+  },
+  THB: {
+    label: "Thai Baht",
+    numeric: "764",
+    minorUnits: 2,
+    symbol: "THB",
+    narrowSymbol: "฿",
+  },
+  TJS: {
+    label: "Tajikistani Somoni",
+    numeric: "972",
+    minorUnits: 2,
+    symbol: "TJS",
+    narrowSymbol: "TJS",
+  },
+  TMT: {
+    label: "Turkmenistani Manat",
+    numeric: "934",
+    minorUnits: 2,
+    symbol: "TMT",
+    narrowSymbol: "TMT",
+  },
+  TND: {
+    label: "Tunisian Dinar",
+    numeric: "788",
+    minorUnits: 3,
+    symbol: "TND",
+    narrowSymbol: "TND",
+  },
+  TOP: {
+    label: "Tongan Paʻanga",
+    numeric: "776",
+    minorUnits: 2,
+    symbol: "TOP",
+    narrowSymbol: "T$",
+  },
+  TRY: {
+    label: "Turkish Lira",
+    numeric: "949",
+    minorUnits: 2,
+    symbol: "TRY",
+    narrowSymbol: "₺",
+  },
+  TTD: {
+    label: "Trinidad and Tobago Dollar",
+    numeric: "780",
+    minorUnits: 2,
+    symbol: "TTD",
+    narrowSymbol: "$",
+  },
+  TWD: {
+    label: "New Taiwan Dollar",
+    numeric: "901",
+    minorUnits: 2,
+    symbol: "NT$",
+    narrowSymbol: "$",
+  },
+  TZS: {
+    label: "Tanzanian Shilling",
+    numeric: "834",
+    minorUnits: 2,
+    symbol: "TZS",
+    narrowSymbol: "TZS",
+  },
+  UAH: {
+    label: "Ukrainian Hryvnia",
+    numeric: "980",
+    minorUnits: 2,
+    symbol: "UAH",
+    narrowSymbol: "₴",
+  },
+  UGX: {
+    label: "Ugandan Shilling",
+    numeric: "800",
+    minorUnits: 0,
+    symbol: "UGX",
+    narrowSymbol: "UGX",
+  },
+  USD: {
+    label: "US Dollar",
+    numeric: "840",
+    minorUnits: 2,
+    symbol: "$",
+    narrowSymbol: "$",
+  },
+  UYU: {
+    label: "Uruguayan Peso",
+    numeric: "858",
+    minorUnits: 2,
+    symbol: "UYU",
+    narrowSymbol: "$",
+  },
+  UZS: {
+    label: "Uzbekistani Som",
+    numeric: "860",
+    minorUnits: 2,
+    symbol: "UZS",
+    narrowSymbol: "UZS",
+  },
+  VES: {
+    label: "Venezuelan Bolívar",
+    numeric: "928",
+    minorUnits: 2,
+    symbol: "VES",
+    narrowSymbol: "VES",
+  },
+  VND: {
+    label: "Vietnamese Dong",
+    numeric: "704",
+    minorUnits: 0,
+    symbol: "₫",
+    narrowSymbol: "₫",
+  },
+  VUV: {
+    label: "Vanuatu Vatu",
+    numeric: "548",
+    minorUnits: 0,
+    symbol: "VUV",
+    narrowSymbol: "VUV",
+  },
+  WST: {
+    label: "Samoan Tala",
+    numeric: "882",
+    minorUnits: 2,
+    symbol: "WST",
+    narrowSymbol: "WST",
+  },
+  XAF: {
+    label: "Central African CFA Franc",
+    numeric: "950",
+    minorUnits: 0,
+    symbol: "FCFA",
+    narrowSymbol: "FCFA",
+  },
+  XCD: {
+    label: "East Caribbean Dollar",
+    numeric: "951",
+    minorUnits: 2,
+    symbol: "EC$",
+    narrowSymbol: "$",
+  },
+  XCG: {
+    label: "Caribbean Guilder",
+    numeric: "532",
+    minorUnits: 2,
+    symbol: "Cg.",
+    narrowSymbol: "Cg.",
+  },
+  XOF: {
+    label: "West African CFA Franc",
+    numeric: "952",
+    minorUnits: 0,
+    symbol: "F CFA",
+    narrowSymbol: "F CFA",
+  },
+  XPF: {
+    label: "CFP Franc",
+    numeric: "953",
+    minorUnits: 0,
+    symbol: "CFPF",
+    narrowSymbol: "CFPF",
+  },
+  YER: {
+    label: "Yemeni Rial",
+    numeric: "886",
+    minorUnits: 2,
+    symbol: "YER",
+    narrowSymbol: "YER",
+  },
+  ZAR: {
+    label: "South African Rand",
+    numeric: "710",
+    minorUnits: 2,
+    symbol: "ZAR",
+    narrowSymbol: "R",
+  },
+  ZMW: {
+    label: "Zambian Kwacha",
+    numeric: "967",
+    minorUnits: 2,
+    symbol: "ZMW",
+    narrowSymbol: "ZK",
+  },
+  ZWG: {
+    label: "Zimbabwean Gold",
+    numeric: "924",
+    minorUnits: 2,
+    symbol: "ZWG",
+    narrowSymbol: "ZWG",
+  },
+});
+
+/**
+ * ISO 4217 alphabetic currency code
+ */
+export type CurrencyCode = keyof typeof CURRENCY.values;
+
+/**
+ * Metadata for an ISO 4217 currency
+ */
+export interface CurrencyInfo {
+  /** ISO 4217 alphabetic code (e.g. "USD") */
+  code: CurrencyCode;
+  /** ISO 4217 numeric code, zero-padded to 3 digits (e.g. "840") */
+  numeric: string;
+  /** Number of decimal places of the minor unit (2 for USD, 0 for JPY, 3 for KWD) */
+  minorUnits: number;
+  /** Symbol in US English formatting (e.g. "CA$" for CAD) */
+  symbol: string;
+  /** Narrow symbol, which may be shared by several currencies (e.g. "$" for CAD) */
+  narrowSymbol: string;
+  /** English name (e.g. "Canadian Dollar") */
+  name: string;
+}
+
+/**
+ * Gets the bundled ISO 4217 metadata for a currency
+ *
+ * @param currency - ISO 4217 alphabetic or numeric code (case-insensitive)
+ * @returns The currency metadata, or undefined if the currency is not bundled
+ *
+ * @example
+ * ```ts
+ * getCurrencyInfo("JPY")?.minorUnits // 0
+ * getCurrencyInfo("kwd")?.minorUnits // 3
+ * getCurrencyInfo("978")?.code // "EUR"
+ * getCurrencyInfo("XYZ") // undefined
+ * ```
+ */
+export function getCurrencyInfo(currency: string): CurrencyInfo | undefined {
+  const key = currency.trim().toUpperCase();
+  const entry = CURRENCY.options.find(
+    (option) => option.value === key || option.numeric === key
+  );
+  if (!entry) return undefined;
+
+  return {
+    code: entry.value,
+    numeric: entry.numeric,
+    minorUnits: entry.minorUnits,
+    symbol: entry.symbol,
+    narrowSymbol: entry.narrowSymbol,
+    name: entry.label,
+  };
+}
@@ -0,0 +1,330 @@
+/**
+ * Money values
+ *
+ * An immutable amount of money stored as an integer number of minor units (cents),
+ * so sums of invoice lines have no floating-point rounding errors
+ */
+
+import { toString } from "../string";
+import { isNullOrUndefined } from "../is";
+import { CurrencyFormatOptions, toCurrency } from "./formatting";
+import { getCurrencyInfo } from "./metadata";
+
+/** Largest exponent accepted when reading an amount ("1e1000") */
+const MAX_EXPONENT = 1000;
+
+/** Amounts whose commas are all thousands separators ("1,234,567.89") */
+const GROUPED_AMOUNT = /^[+-]?\d{1,3}(?:,\d{3})+(?:\.\d*)?(?:e[+-]?\d+)?$/i;
+
+/**
+ * An amount of money in a single currency
+ */
+export interface Money {
+  /** Amount in minor units of the currency (e.g. cents), always an integer */
+  readonly minorUnits: number;
+  /** ISO 4217 currency code (uppercase) */
+  readonly currency: string;
+  /** Number of decimal places of the currency's minor unit (2 for USD, 0 for JPY, 3 for KWD) */
+  readonly decimalPlaces: number;
+  /**
+   * Gets the amount in major units (e.g. dollars)
+   * @returns The amount as a number
+   */
+  toNumber(): number;
+  /**
+   * Adds amounts of the same currency
+   * @param others - The amounts to add
+   * @returns The sum
+   * @throws CurrencyMismatchError if an amount is in another currency
+   */
+  add(...others: Money[]): Money;
+  /**
+   * Subtracts amounts of the same currency
+   * @param others - The amounts to subtract
+   * @returns The difference
+   * @throws CurrencyMismatchError if an amount is in another currency
+   */
+  subtract(...others: Money[]): Money;
+  /**
+   * Multiplies the amount by a factor, rounding half away from zero to a whole minor unit
+   * @param factor - The factor (e.g. a quantity or a tax rate)
+   * @returns The product
+   */
+  multiply(factor: number): Money;
+  /**
+   * Splits the amount into parts without losing minor units
+   * The minor units left over after rounding down go to the first parts, one each
+   * @param ratios - The number of equal parts, or the ratio of each part
+   * @returns The parts, which add up to the amount
+   */
+  allocate(ratios: number | number[]): Money[];
+  /**
+   * Compares with an amount of the same currency
+   * @param other - The amount to compare with
+   * @returns -1 if this amount is less, 0 if equal and 1 if greater
+   * @throws CurrencyMismatchError if the amount is in another currency
+   */
+  compare(other: Money): -1 | 0 | 1;
+  /**
+   * Checks if another amount has the same currency and value
+   * @param other - The amount to compare with
+   * @returns True if both amounts are equal
+   */
+  equals(other: Money): boolean;
+  /** Checks if the amount is zero */
+  isZero(): boolean;
+  /** Checks if the amount is less than zero */
+  isNegative(): boolean;
+  /** Checks if the amount is greater than zero */
+  isPositive(): boolean;
+  /**
+   * Formats the amount with `toCurrency`
+   * @param options - `toCurrency` options (the currency is always this amount's currency)
+   * @returns The formatted amount
+   */
+  format(options?: Omit<CurrencyFormatOptions, "currency">): string;
+}
+
+/**
+ * Error thrown when amounts in different currencies are combined or compared
+ */
+export class CurrencyMismatchError extends Error {
+  /** Currency of the amount the operation was called on */
+  readonly expected: string;
+  /** Currency of the other amount */
+  readonly actual: string;
+
+  constructor(expected: string, actual: string) {
+    super(`Cannot combine amounts in ${expected} and ${actual}`);
+    this.name = "CurrencyMismatchError";
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+/**
+ * Creates an amount of money from an integer number of minor units
+ *
+ * @param minorUnits - Amount in minor units (e.g. cents); must be a safe integer
+ * @param currency - ISO 4217 currency code (default: "USD")
+ * @returns The amount of money
+ * @throws Error if the amount is not a safe integer or the currency code is not valid
+ *
+ * @example
+ * ```ts
+ * createMoney(1999, "USD").toNumber() // 19.99
+ * createMoney(500, "JPY").toNumber() // 500
+ * createMoney(1999, "EUR").format() // "€19.99"
+ * ```
+ */
+export function createMoney(
+  minorUnits: number,
+  currency: string = "USD"
+): Money {
+  if (!Number.isSafeInteger(minorUnits)) {
+    throw new Error(
+      `Money amounts must be a whole number of minor units, got ${minorUnits}`
+    );
+  }
+  const code = currency.trim().toUpperCase();
+  const decimalPlaces = getDecimalPlaces(code);
+
+  const assertSameCurrency = (other: Money): void => {
+    if (other.currency !== code) {
+      throw new CurrencyMismatchError(code, other.currency);
+    }
+  };
+
+  // Normalize -0 so amounts that add up to zero format as zero
+  const units = minorUnits === 0 ? 0 : minorUnits;
+
+  const money: Money = {
+    minorUnits: units,
+    currency: code,
+    decimalPlaces,
+    toNumber(): number {
+      return units / 10 ** decimalPlaces;
+    },
+    add(...others: Money[]): Money {
+      others.forEach(assertSameCurrency);
+      return createMoney(
+        others.reduce((sum, other) => sum + other.minorUnits, units),
+        code
+      );
+    },
+    subtract(...others: Money[]): Money {
+      others.forEach(assertSameCurrency);
+      return createMoney(
+        others.reduce((sum, other) => sum - other.minorUnits, units),
+        code
+      );
+    },
+    multiply(factor: number): Money {
+      const product = units * factor;
+      return createMoney(
+        Math.sign(product) * Math.round(Math.abs(product)),
+        code
+      );
+    },
+    allocate(ratios: number | number[]): Money[] {
+      return allocateMinorUnits(units, ratios).map((part) =>
+        createMoney(part, code)
+      );
+    },
+    compare(other: Money): -1 | 0 | 1 {
+      assertSameCurrency(other);
+      if (units < other.minorUnits) return -1;
+      if (units > other.minorUnits) return 1;
+      return 0;
+    },
+    equals(other: Money): boolean {
+      return other.currency === code && other.minorUnits === units;
+    },
+    isZero(): boolean {
+      return units === 0;
+    },
+    isNegative(): boolean {
+      return units < 0;
+    },
+    isPositive(): boolean {
+      return units > 0;
+    },
+    format(options: Omit<CurrencyFormatOptions, "currency"> = {}): string {
+      return toCurrency(money.toNumber(), { ...options, currency: code });
+    },
+  };
+
+  return Object.freeze(money);
+}
+
+/**
+ * Converts an amount in major units (e.g. dollars) to money
+ *
+ * Strings are read digit by digit, so "0.1" and "1.005" are exact; numbers are read from their
+ * shortest decimal form. Amounts with more decimals than the currency uses are rounded half away from zero.
+ *
+ * @param value - The amount in major units (number or numeric string)
+ * @param currency - ISO 4217 currency code (default: "USD")
+ * @returns The amount of money, or null if the value is not a finite number
+ *
+ * @example
+ * ```ts
+ * toMoney(19.99)?.minorUnits // 1999
+ * toMoney("1.005")?.minorUnits // 101
+ * toMoney(0.1)!.add(toMoney(0.2)!).toNumber() // 0.3
+ * toMoney(1234.5, "JPY")?.minorUnits // 1235
+ * toMoney("1,234.50")?.minorUnits // 123450
+ * toMoney("1,5", "EUR") // null (commas are thousands separators)
+ * toMoney("abc") // null
+ * ```
+ */
+export function toMoney(
+  value: unknown,
+  currency: string = "USD"
+): Money | null {
+  if (isNullOrUndefined(value)) return null;
+  if (typeof value === "number" && !Number.isFinite(value)) return null;
+
+  const text = toString(value, "").trim();
+  // Commas are only read as thousands separators ("1,234.50"), never as decimal points ("1,5")
+  if (text.includes(",") && !GROUPED_AMOUNT.test(text)) return null;
+  const decimalPlaces = getDecimalPlaces(currency.trim().toUpperCase());
+  const minorUnits = parseMinorUnits(text.replace(/,/g, ""), decimalPlaces);
+  return minorUnits === null ? null : createMoney(minorUnits, currency);
+}
+
+/**
+ * Checks if a value is an amount of money created by `createMoney` or `toMoney`
+ *
+ * @param value - The value to check
+ * @returns True if the value is a money amount
+ *
+ * @example
+ * ```ts
+ * isMoney(toMoney(5)) // true
+ * isMoney({ minorUnits: 500, currency: "USD" }) // false
+ * ```
+ */
+export function isMoney(value: unknown): value is Money {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "minorUnits" in value &&
+    "currency" in value &&
+    typeof (value as Money).allocate === "function"
+  );
+}
+
+/**
+ * Gets the number of decimal places of a currency's minor unit
+ * @throws Error if the currency code is not valid
+ */
+function getDecimalPlaces(currency: string): number {
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    throw new Error(`Invalid currency code "${currency}"`);
+  }
+  return getCurrencyInfo(currency)?.minorUnits ?? 2;
+}
+
+/**
+ * Reads a decimal number string as a whole number of minor units
+ */
+function parseMinorUnits(text: string, decimalPlaces: number): number | null {
+  const match = text.match(/^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i);
+  if (!match || (match[2] === "" && !match[3])) return null;
+
+  const [, sign, whole, fraction = "", exponent = "0"] = match;
+  // Refuse exponents that would build enormous strings
+  if (Math.abs(Number(exponent)) > MAX_EXPONENT) return null;
+  // Shift the decimal point by the exponent and the currency's decimal places
+  const digits = whole + fraction;
+  const point = whole.length + Number(exponent) + decimalPlaces;
+  if (point > digits.length + 15) return null;
+
+  const padded =
+    point < 0 ? "0".repeat(-point) + digits : digits.padEnd(point, "0");
+  const integerEnd = Math.max(point, 0);
+  const integerPart = padded.slice(0, integerEnd) || "0";
+  const roundUp = Number(padded.charAt(integerEnd) || "0") >= 5;
+
+  const minorUnits = Number(integerPart) + (roundUp ? 1 : 0);
+  if (!Number.isSafeInteger(minorUnits)) return null;
+  return sign === "-" && minorUnits !== 0 ? -minorUnits : minorUnits;
+}
+
+/**
+ * Splits an integer amount into parts by ratio, giving leftover units to the first parts
+ * @throws Error if the ratios are empty, negative or add up to zero
+ */
+function allocateMinorUnits(
+  amount: number,
+  ratios: number | number[]
+): number[] {
+  const weights =
+    typeof ratios === "number"
+      ? Array.from({ length: Math.max(0, Math.trunc(ratios)) }, () => 1)
+      : ratios;
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (
+    weights.length === 0 ||
+    weights.some((weight) => !Number.isFinite(weight) || weight < 0) ||
+    total <= 0
+  ) {
+    throw new Error(
+      "Allocation ratios must be non-negative numbers that add up to more than zero"
+    );
+  }
+
+  const sign = amount < 0 ? -1 : 1;
+  const absolute = Math.abs(amount);
+  const parts = weights.map((weight) =>
+    Math.floor((absolute * weight) / total)
+  );
+  let remainder = absolute - parts.reduce((sum, part) => sum + part, 0);
+  for (let index = 0; remainder > 0; index = (index + 1) % parts.length) {
+    if (weights[index] === 0) continue;
+    parts[index]++;
+    remainder--;
+  }
+  return parts.map((part) => (part === 0 ? 0 : sign * part));
+}
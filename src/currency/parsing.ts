@@ -0,0 +1,295 @@
+/**
+ * Currency parsing utilities
+ *
+ * Functions for reading formatted currency amounts back into numbers
+ */
+
+import { toString } from "../string";
+import { isNullOrUndefined } from "../is";
+import { CURRENCY, CurrencyCode, getCurrencyInfo } from "./metadata";
+
+/**
+ * Options for parsing currency amounts
+ */
+export interface ParseCurrencyOptions {
+  /**
+   * Locale whose grouping and decimal separators and compact suffixes the text uses
+   * @default "en-US"
+   */
+  locale?: Intl.LocalesArgument;
+  /**
+   * ISO 4217 code to assume when the text has no symbol or code, and to prefer when a
+   * symbol is shared by several currencies (e.g. "$" for CAD)
+   */
+  currency?: string;
+}
+
+/**
+ * A currency amount read from text
+ */
+export interface ParsedCurrency {
+  /** The amount in major units (e.g. dollars) */
+  amount: number;
+  /** ISO 4217 code of the symbol or code in the text, or null if it has none */
+  currency: CurrencyCode | null;
+}
+
+/**
+ * Separators and compact suffixes of a locale
+ */
+interface LocaleNumberFormat {
+  group: string;
+  decimal: string;
+  /** Compact suffixes (e.g. "K", "Mio.") and the power of ten they stand for */
+  compact: Array<{ suffix: string; exponent: number }>;
+  /** Currency symbols in this locale, by symbol */
+  symbols: Map<string, CurrencyCode>;
+}
+
+/** Suffixes always understood, as produced by the en-US "compact" grain */
+const COMPACT_SUFFIXES: Record<string, number> = { K: 3, M: 6, B: 9, T: 12 };
+
+const LOCALE_FORMATS = new Map<string, LocaleNumberFormat>();
+
+/**
+ * Parses a formatted currency amount into a number and currency code
+ *
+ * Understands the locale's grouping and decimal separators, symbols and ISO codes before or
+ * after the number, leading or trailing minus signs (including "−"), accounting-style
+ * negatives in parentheses and compact suffixes like the ones the "compact" grain produces.
+ * Reads `formatCurrencyColumn` output as well, including padded accounting amounts and "—" zeros.
+ *
+ * @param value - The text to parse (numbers are returned as they are)
+ * @param options - Parsing options
+ * @returns The amount and currency, or null if the text is not a currency amount
+ *
+ * @example
+ * ```ts
+ * parseCurrency("$1,234.56") // { amount: 1234.56, currency: "USD" }
+ * parseCurrency("(1,200.00)") // { amount: -1200, currency: null }
+ * parseCurrency("-¥5,000") // { amount: -5000, currency: "JPY" }
+ * parseCurrency("1.234,56 €", { locale: "de-DE" }) // { amount: 1234.56, currency: "EUR" }
+ * parseCurrency("$1.2K") // { amount: 1200, currency: "USD" }
+ * parseCurrency("CA$10") // { amount: 10, currency: "CAD" }
+ * parseCurrency("$   (1,234.50)") // { amount: -1234.5, currency: "USD" }
+ * parseCurrency("$     —    ") // { amount: 0, currency: "USD" }
+ * parseCurrency("1,2,3") // null (misplaced group separators)
+ * parseCurrency("abc") // null
+ * ```
+ */
+export function parseCurrency(
+  value: unknown,
+  options: ParseCurrencyOptions = {}
+): ParsedCurrency | null {
+  const fallback = options.currency
+    ? (getCurrencyInfo(options.currency)?.code ?? null)
+    : null;
+  if (isNullOrUndefined(value)) return null;
+  if (typeof value === "number") {
+    return Number.isFinite(value)
+      ? { amount: value, currency: fallback }
+      : null;
+  }
+
+  let text = toString(value, "")
+    .trim()
+    .replace(/\u2212/g, "-");
+  // Accounting amounts write zero as a dash, with or without a symbol ("—", "$ —")
+  if (!/\d/.test(text)) text = text.replace("\u2014", "0");
+  let format: LocaleNumberFormat;
+  try {
+    format = getLocaleNumberFormat(options.locale || "en-US");
+  } catch {
+    // Invalid locale tags
+    return null;
+  }
+
+  // The number runs from the first digit (or a separator just before it) to the last digit
+  const firstDigit = text.search(/\d/);
+  if (firstDigit === -1) return null;
+  const lastDigit = text.search(/\d\D*$/);
+  const start =
+    firstDigit > 0 && text[firstDigit - 1] === format.decimal
+      ? firstDigit - 1
+      : firstDigit;
+
+  const number = readNumber(text.slice(start, lastDigit + 1), format);
+  if (number === null) return null;
+
+  let prefix = text.slice(0, start).trim();
+  let suffix = text.slice(lastDigit + 1).trim();
+  let negative = false;
+
+  // Accounting negatives: "(1,200.00)", "($1,200.00)" or, in columns, "$ (1,200.00)"
+  if (prefix.includes("(") || suffix.includes(")")) {
+    if (!/^\(|\($/.test(prefix) || !/^\)|\)$/.test(suffix)) return null;
+    negative = true;
+    prefix = prefix.replace(/^\(|\($/, "").trim();
+    suffix = suffix.replace(/^\)|\)$/, "").trim();
+  }
+
+  // Signs may come before or after a prefixed symbol ("-$5", "$-5"), or trail the amount
+  if (/[-+]/.test(prefix)) {
+    negative = negative || prefix.includes("-");
+    prefix = prefix.replace(/[-+]/g, "").trim();
+  }
+  if (/-$/.test(suffix)) {
+    negative = true;
+    suffix = suffix.slice(0, -1).trim();
+  }
+
+  const compact = readCompactSuffix(suffix, format);
+  if (compact) {
+    suffix = suffix.slice(compact.suffix.length).trim();
+  }
+
+  if (prefix && suffix) return null;
+  const symbol = prefix || suffix;
+  const currency = symbol ? findCurrency(symbol, format, fallback) : fallback;
+  if (symbol && !currency) return null;
+
+  const amount = Number(`${number}e${compact ? compact.exponent : 0}`);
+  return { amount: negative && amount !== 0 ? -amount : amount, currency };
+}
+
+/**
+ * Reads the digits and separators of a number as a plain decimal string (e.g. "1234.56")
+ */
+function readNumber(text: string, format: LocaleNumberFormat): string | null {
+  const spaceGroup = /^\s$/.test(format.group);
+  const decimalIndex = text.indexOf(format.decimal);
+  if (
+    decimalIndex !== -1 &&
+    text.indexOf(format.decimal, decimalIndex + 1) !== -1
+  ) {
+    return null;
+  }
+
+  const whole = decimalIndex === -1 ? text : text.slice(0, decimalIndex);
+  const fraction = decimalIndex === -1 ? "" : text.slice(decimalIndex + 1);
+  const groups = spaceGroup ? whole.split(/\s/) : whole.split(format.group);
+  if (!groups.every((group) => /^\d*$/.test(group))) return null;
+  if (!/^\d*$/.test(fraction) || !hasValidGroups(groups)) return null;
+
+  const digits = groups.join("");
+  return fraction ? `${digits || "0"}.${fraction}` : digits;
+}
+
+/**
+ * Checks that group separators sit at thousands ("1,234,567") or Indian ("12,34,567") positions
+ */
+function hasValidGroups(groups: string[]): boolean {
+  if (groups.length === 1) return true;
+  const [first, ...rest] = groups;
+  const last = rest.pop()!;
+  return (
+    /^\d{1,3}$/.test(first) &&
+    last.length === 3 &&
+    rest.every((group) => group.length === rest[0].length) &&
+    rest.every((group) => group.length === 2 || group.length === 3)
+  );
+}
+
+/**
+ * Finds a compact suffix at the start of the text after a number
+ */
+function readCompactSuffix(
+  text: string,
+  format: LocaleNumberFormat
+): { suffix: string; exponent: number } | null {
+  const localized = format.compact.find(({ suffix }) => isWordAt(text, suffix));
+  if (localized) return localized;
+
+  const letter = text.charAt(0).toUpperCase();
+  if (letter in COMPACT_SUFFIXES && isWordAt(text, text.charAt(0))) {
+    return { suffix: text.charAt(0), exponent: COMPACT_SUFFIXES[letter] };
+  }
+  return null;
+}
+
+/**
+ * Checks if the text starts with a word that is not followed by another letter
+ */
+function isWordAt(text: string, word: string): boolean {
+  return text.startsWith(word) && !/\p{L}/u.test(text.charAt(word.length));
+}
+
+/**
+ * Finds the currency of a symbol or ISO code
+ * Symbols of the preferred currency win, then US English symbols, then the locale's symbols,
+ * then narrow symbols
+ */
+function findCurrency(
+  symbol: string,
+  format: LocaleNumberFormat,
+  preferred: CurrencyCode | null
+): CurrencyCode | null {
+  const code = symbol.toUpperCase();
+  if (CURRENCY.isValueValid(code)) return code as CurrencyCode;
+
+  if (preferred) {
+    const entry = CURRENCY.enumMap[preferred];
+    if (
+      entry.symbol === symbol ||
+      entry.narrowSymbol === symbol ||
+      format.symbols.get(symbol) === preferred
+    ) {
+      return preferred;
+    }
+  }
+
+  const match =
+    CURRENCY.options.find((option) => option.symbol === symbol)?.value ??
+    format.symbols.get(symbol) ??
+    CURRENCY.options.find((option) => option.narrowSymbol === symbol)?.value;
+  return match ?? null;
+}
+
+/**
+ * Gets the separators, compact suffixes and currency symbols of a locale from Intl
+ */
+function getLocaleNumberFormat(
+  locale: Intl.LocalesArgument
+): LocaleNumberFormat {
+  const key = String(locale);
+  const cached = LOCALE_FORMATS.get(key);
+  if (cached) return cached;
+
+  const parts = new Intl.NumberFormat(locale, {
+    numberingSystem: "latn",
+  }).formatToParts(1234567.8);
+  const group = parts.find((part) => part.type === "group")?.value ?? ",";
+  const decimal = parts.find((part) => part.type === "decimal")?.value ?? ".";
+
+  // Compact suffixes may stand for any power of ten (e.g. "万" for 10^4, "L" for 10^5)
+  const compactFormat = new Intl.NumberFormat(locale, {
+    notation: "compact",
+    numberingSystem: "latn",
+  });
+  const compact: LocaleNumberFormat["compact"] = [];
+  for (let exponent = 3; exponent <= 15; exponent++) {
+    const compactParts = compactFormat.formatToParts(10 ** exponent);
+    const suffix = compactParts.find((part) => part.type === "compact")?.value;
+    const integer = compactParts.find((part) => part.type === "integer")?.value;
+    if (!suffix || !integer || compact.some((item) => item.suffix === suffix)) {
+      continue;
+    }
+    compact.push({ suffix, exponent: exponent - (integer.length - 1) });
+  }
+  compact.sort((a, b) => b.suffix.length - a.suffix.length);
+
+  const symbols = new Map<string, CurrencyCode>();
+  CURRENCY.options.forEach((option) => {
+    const symbol = new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency: option.value,
+    })
+      .formatToParts(1)
+      .find((part) => part.type === "currency")?.value;
+    if (symbol && !symbols.has(symbol)) symbols.set(symbol, option.value);
+  });
+
+  const format = { group, decimal, compact, symbols };
+  LOCALE_FORMATS.set(key, format);
+  return format;
+}
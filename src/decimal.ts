@@ -0,0 +1,349 @@
+import { toString } from "./string";
+import { RoundingMode } from "./generics";
+
+/**
+ * Decimal number utilities
+ *
+ * This module provides functions for:
+ * - Exact decimal arithmetic without floating-point errors
+ * - Rounding decimals with an explicit rounding mode
+ */
+
+/** Largest exponent accepted when reading a decimal ("1e1000") */
+const MAX_EXPONENT = 1000;
+
+/** Numbers whose commas are all thousands separators ("1,234,567.89") */
+const GROUPED_NUMBER = /^[+-]?\d{1,3}(?:,\d{3})+(?:\.\d*)?(?:e[+-]?\d+)?$/i;
+
+/**
+ * A value that can be read as a decimal
+ */
+export type DecimalInput = Decimal | string | number | bigint;
+
+/**
+ * An immutable decimal number, stored as an integer scaled by a power of ten
+ */
+export interface Decimal {
+  /** The value as an integer number of 10^-scale units (1.25 is 125n at scale 2) */
+  readonly units: bigint;
+  /** Number of decimal places */
+  readonly scale: number;
+  /**
+   * Adds decimals
+   * @param others - The values to add
+   * @returns The exact sum
+   */
+  add(...others: DecimalInput[]): Decimal;
+  /**
+   * Subtracts decimals
+   * @param others - The values to subtract
+   * @returns The exact difference
+   */
+  subtract(...others: DecimalInput[]): Decimal;
+  /**
+   * Multiplies by a decimal
+   * @param other - The factor
+   * @returns The exact product, with the decimal places of both factors
+   */
+  multiply(other: DecimalInput): Decimal;
+  /**
+   * Divides by a decimal
+   * @param other - The divisor
+   * @param decimalPlaces - Decimal places of the quotient
+   * @param mode - How to round the quotient (default: "halfExpand")
+   * @returns The rounded quotient
+   * @throws Error if the divisor is zero or the decimal places are not a finite number
+   */
+  divide(
+    other: DecimalInput,
+    decimalPlaces: number,
+    mode?: RoundingMode
+  ): Decimal;
+  /**
+   * Rounds to a number of decimal places
+   * @param decimalPlaces - Decimal places to keep; negative values round to tens, hundreds, etc. (default: 0)
+   * @param mode - How to round (default: "halfExpand")
+   * @returns The rounded value
+   * @throws Error if the decimal places are not a finite number
+   */
+  round(decimalPlaces?: number, mode?: RoundingMode): Decimal;
+  /**
+   * Compares with another decimal
+   * @param other - The value to compare with
+   * @returns -1 if this value is less, 0 if equal and 1 if greater
+   */
+  compare(other: DecimalInput): -1 | 0 | 1;
+  /**
+   * Checks if another decimal has the same value, regardless of scale
+   * @param other - The value to compare with
+   * @returns True if both values are equal
+   */
+  equals(other: DecimalInput): boolean;
+  /** Gets the value with the opposite sign */
+  negate(): Decimal;
+  /** Gets the absolute value */
+  abs(): Decimal;
+  /** Checks if the value is zero */
+  isZero(): boolean;
+  /** Checks if the value is less than zero */
+  isNegative(): boolean;
+  /** Checks if the value is greater than zero */
+  isPositive(): boolean;
+  /**
+   * Gets the closest JavaScript number
+   * @returns The value as a number
+   */
+  toNumber(): number;
+  /**
+   * Writes the value in plain decimal notation, with all `scale` decimal places
+   * @returns The value as a string (e.g. "-1234.50")
+   */
+  toString(): string;
+}
+
+/**
+ * Converts a value to an exact decimal
+ *
+ * Strings are read digit by digit (commas are read as thousands separators and exponents are
+ * allowed), so "0.1" and "1.005" are exact; numbers are read from their shortest decimal form.
+ *
+ * @param value - The value to convert (decimal, numeric string, number or bigint)
+ * @returns The decimal, or null if the value is not a finite number
+ *
+ * @example
+ * ```ts
+ * toDecimal("0.1")!.add("0.2").toString() // "0.3"
+ * toDecimal(1.005)!.round(2).toString() // "1.01"
+ * toDecimal("2.5")!.round(0, "halfEven").toString() // "2"
+ * toDecimal("10")!.divide(3, 4).toString() // "3.3333"
+ * toDecimal("1,234.5")!.toString() // "1234.5"
+ * toDecimal("1,5") // null
+ * toDecimal("abc") // null
+ * ```
+ */
+export function toDecimal(value: unknown): Decimal | null {
+  if (isDecimal(value)) return value;
+  if (typeof value === "bigint") return createDecimal(value, 0);
+  if (typeof value === "number" && !Number.isFinite(value)) return null;
+  if (typeof value !== "number" && typeof value !== "string") return null;
+
+  let text = toString(value, "").trim();
+  // Commas are only read as thousands separators ("1,234.5"), never as decimal points ("1,5")
+  if (text.includes(",")) {
+    if (!GROUPED_NUMBER.test(text)) return null;
+    text = text.replace(/,/g, "");
+  }
+  const match = text.match(/^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i);
+  if (!match || (match[2] === "" && !match[3])) return null;
+
+  const [, sign, whole, fraction = "", exponent = "0"] = match;
+  const shift = Number(exponent);
+  // Refuse exponents that would build enormous integers
+  if (Math.abs(shift) > MAX_EXPONENT) return null;
+  let units = BigInt(whole + fraction || "0");
+  let scale = fraction.length - shift;
+  if (scale < 0) {
+    units *= 10n ** BigInt(-scale);
+    scale = 0;
+  }
+  return createDecimal(sign === "-" ? -units : units, scale);
+}
+
+/**
+ * Checks if a value is a decimal created by `toDecimal`
+ *
+ * @param value - The value to check
+ * @returns True if the value is a decimal
+ *
+ * @example
+ * ```ts
+ * isDecimal(toDecimal("1.5")) // true
+ * isDecimal(1.5) // false
+ * ```
+ */
+export function isDecimal(value: unknown): value is Decimal {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as Decimal).units === "bigint" &&
+    typeof (value as Decimal).divide === "function"
+  );
+}
+
+/**
+ * Truncates a number of decimal places to a whole number
+ */
+function toDecimalPlaces(decimalPlaces: number): number {
+  if (!Number.isFinite(decimalPlaces)) {
+    throw new Error(`Invalid number of decimal places "${decimalPlaces}"`);
+  }
+  return Math.trunc(decimalPlaces);
+}
+
+/**
+ * Rounds an integer after dropping a number of its last digits
+ */
+function roundUnits(
+  units: bigint,
+  digits: number,
+  mode: RoundingMode
+): bigint {
+  if (digits <= 0) return units;
+  const divisor = 10n ** BigInt(digits);
+  return roundQuotient(units / divisor, units % divisor, divisor, mode);
+}
+
+/**
+ * Rounds a truncated quotient using its remainder and (positive) divisor
+ */
+function roundQuotient(
+  quotient: bigint,
+  remainder: bigint,
+  divisor: bigint,
+  mode: RoundingMode
+): bigint {
+  if (remainder === 0n) return quotient;
+
+  const negative = quotient < 0n || remainder < 0n;
+  const twiceRemainder = (negative ? -remainder : remainder) * 2n;
+  let awayFromZero: boolean;
+  if (mode === "expand") awayFromZero = true;
+  else if (mode === "trunc") awayFromZero = false;
+  else if (mode === "ceil") awayFromZero = !negative;
+  else if (mode === "floor") awayFromZero = negative;
+  else if (twiceRemainder !== divisor) awayFromZero = twiceRemainder > divisor;
+  else if (mode === "halfExpand") awayFromZero = true;
+  else if (mode === "halfTrunc") awayFromZero = false;
+  else if (mode === "halfCeil") awayFromZero = !negative;
+  else if (mode === "halfFloor") awayFromZero = negative;
+  else awayFromZero = quotient % 2n !== 0n;
+
+  if (!awayFromZero) return quotient;
+  return negative ? quotient - 1n : quotient + 1n;
+}
+
+/**
+ * Creates a decimal from an integer number of 10^-scale units
+ */
+function createDecimal(units: bigint, scale: number): Decimal {
+  const decimal: Decimal = {
+    units,
+    scale,
+    add(...others: DecimalInput[]): Decimal {
+      return others.reduce<Decimal>((sum, other) => {
+        const [a, b, commonScale] = align(sum, toOperand(other));
+        return createDecimal(a + b, commonScale);
+      }, decimal);
+    },
+    subtract(...others: DecimalInput[]): Decimal {
+      return others.reduce<Decimal>((difference, other) => {
+        const [a, b, commonScale] = align(difference, toOperand(other));
+        return createDecimal(a - b, commonScale);
+      }, decimal);
+    },
+    multiply(other: DecimalInput): Decimal {
+      const factor = toOperand(other);
+      return createDecimal(units * factor.units, scale + factor.scale);
+    },
+    divide(
+      other: DecimalInput,
+      decimalPlaces: number,
+      mode: RoundingMode = "halfExpand"
+    ): Decimal {
+      const divisor = toOperand(other);
+      if (divisor.units === 0n) {
+        throw new Error("Cannot divide a decimal by zero");
+      }
+      // Scale the numerator so the integer quotient has the requested decimal places
+      const places = Math.max(0, toDecimalPlaces(decimalPlaces));
+      const shift = places + divisor.scale - scale;
+      let numerator = shift >= 0 ? units * 10n ** BigInt(shift) : units;
+      let denominator =
+        shift >= 0 ? divisor.units : divisor.units * 10n ** BigInt(-shift);
+      if (denominator < 0n) {
+        numerator = -numerator;
+        denominator = -denominator;
+      }
+      const quotient = roundQuotient(
+        numerator / denominator,
+        numerator % denominator,
+        denominator,
+        mode
+      );
+      return createDecimal(quotient, places);
+    },
+    round(
+      decimalPlaces: number = 0,
+      mode: RoundingMode = "halfExpand"
+    ): Decimal {
+      const places = toDecimalPlaces(decimalPlaces);
+      if (places >= scale) return decimal;
+      const rounded = roundUnits(units, scale - places, mode);
+      return places >= 0
+        ? createDecimal(rounded, places)
+        : createDecimal(rounded * 10n ** BigInt(-places), 0);
+    },
+    compare(other: DecimalInput): -1 | 0 | 1 {
+      const [a, b] = align(decimal, toOperand(other));
+      if (a < b) return -1;
+      if (a > b) return 1;
+      return 0;
+    },
+    equals(other: DecimalInput): boolean {
+      const operand = toDecimal(other);
+      return operand !== null && decimal.compare(operand) === 0;
+    },
+    negate(): Decimal {
+      return createDecimal(-units, scale);
+    },
+    abs(): Decimal {
+      return units < 0n ? createDecimal(-units, scale) : decimal;
+    },
+    isZero(): boolean {
+      return units === 0n;
+    },
+    isNegative(): boolean {
+      return units < 0n;
+    },
+    isPositive(): boolean {
+      return units > 0n;
+    },
+    toNumber(): number {
+      return Number(decimal.toString());
+    },
+    toString(): string {
+      const digits = (units < 0n ? -units : units)
+        .toString()
+        .padStart(scale + 1, "0");
+      const whole = digits.slice(0, digits.length - scale);
+      const fraction = scale > 0 ? `.${digits.slice(-scale)}` : "";
+      return `${units < 0n ? "-" : ""}${whole}${fraction}`;
+    },
+  };
+
+  return Object.freeze(decimal);
+}
+
+/**
+ * Converts an operand to a decimal
+ * @throws Error if the operand is not a finite number
+ */
+function toOperand(value: DecimalInput): Decimal {
+  const decimal = toDecimal(value);
+  if (decimal === null) {
+    throw new Error(`Invalid decimal value "${String(value)}"`);
+  }
+  return decimal;
+}
+
+/**
+ * Scales two decimals to the same number of decimal places
+ */
+function align(a: Decimal, b: Decimal): [bigint, bigint, number] {
+  const scale = Math.max(a.scale, b.scale);
+  return [
+    a.units * 10n ** BigInt(scale - a.scale),
+    b.units * 10n ** BigInt(scale - b.scale),
+    scale,
+  ];
+}
@@ -186,3 +186,17 @@ export type SignDisplay =
   | "negative" // Only show - for negatives (same as auto)
   | "never" // Never show sign
   | "parentheses"; // Use parentheses for negatives: (100), no sign for positives
+
+/**
+ * Rounding mode type - determines which way values are rounded (same names as Intl.NumberFormat)
+ */
+export type RoundingMode =
+  | "ceil" // Toward positive infinity
+  | "floor" // Toward negative infinity
+  | "expand" // Away from zero
+  | "trunc" // Toward zero
+  | "halfCeil" // Nearest, ties toward positive infinity (like Math.round)
+  | "halfFloor" // Nearest, ties toward negative infinity
+  | "halfExpand" // Nearest, ties away from zero
+  | "halfTrunc" // Nearest, ties toward zero
+  | "halfEven"; // Nearest, ties to the even neighbor (banker's rounding)
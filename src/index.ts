@@ -1,6 +1,7 @@
 import * as date from "./date";
 import * as currency from "./currency";
 import * as number from "./number";
+import * as decimal from "./decimal";
 import * as string from "./string";
 import * as util from "./util";
 import * as object from "./object";
@@ -23,6 +24,7 @@ export * from "./enum";
 export * from "./date";
 export * from "./currency";
 export * from "./number";
+export * from "./decimal";
 export * from "./string";
 export * from "./util";
 export * from "./object";
@@ -42,6 +44,7 @@ const dry = {
   ...date,
   ...currency,
   ...number,
+  ...decimal,
   ...string,
   ...util,
   ...object,
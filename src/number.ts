@@ -1,15 +1,19 @@
-import { toString } from "./string";
+import { toString, escapeRegex } from "./string";
 import { isNullOrUndefined, isNumber, isInteger } from "./is";
-import { NumberConstraint, SignDisplay } from "./generics";
+import { NumberConstraint, RoundingMode, SignDisplay } from "./generics";
+import { isDecimal, toDecimal } from "./decimal";
+import { hasProperty } from "./object";
+import { getCurrencyInfo } from "./currency/metadata";
 
 /**
  * Number manipulation and conversion utilities
  *
  * This module provides functions for:
  * - Converting values to numbers with type safety
- * - Number formatting and localization
+ * - Number formatting, localization and parsing
  * - Mathematical operations (rounding, clamping, etc.)
  * - Number range generation
+ * - Spelling out numbers and currency amounts in words
  */
 
 export interface NumberStringOptions {
@@ -50,6 +54,12 @@ export interface NumberStringOptions {
    */
   nullValue?: string;
 
+  /**
+   * How to round to maxDecimalPlaces
+   * @default "halfExpand"
+   */
+  roundingMode?: RoundingMode;
+
   /**
    * Additional Intl.NumberFormat options (can include style: "currency", etc.)
    */
@@ -180,15 +190,28 @@ export function toClampedNumber(
 
 /**
  * Rounds a number to a specified precision
+ * Numbers are rounded from their shortest decimal form, so 1.005 rounds to 1.01
  * @param value - The value to round
  * @param precision - The number of decimal places (default: 0)
+ * @param mode - How to round (default: "halfCeil", like Math.round; "halfEven" for banker's rounding)
  * @returns The rounded number, or 0 if conversion fails
+ *
+ * @example
+ * ```ts
+ * round(1.005, 2) // 1.01
+ * round(2.5) // 3
+ * round(2.5, 0, "halfEven") // 2
+ * round(-2.5, 0, "halfExpand") // -3
+ * ```
  */
-export function round(value: unknown, precision: number = 0): number {
+export function round(
+  value: unknown,
+  precision: number = 0,
+  mode: RoundingMode = "halfCeil"
+): number {
   const num = toNumber(value, null);
   if (num === null) return 0;
-  const multiplier = Math.pow(10, precision);
-  return Math.round(num * multiplier) / multiplier;
+  return roundNumber(num, precision, mode);
 }
 
 /**
@@ -200,8 +223,7 @@ export function round(value: unknown, precision: number = 0): number {
 export function roundDown(value: unknown, precision: number = 0): number {
   const num = toNumber(value, null);
   if (num === null) return 0;
-  const multiplier = Math.pow(10, precision);
-  return Math.floor(num * multiplier) / multiplier;
+  return roundNumber(num, precision, "floor");
 }
 
 /**
@@ -213,14 +235,14 @@ export function roundDown(value: unknown, precision: number = 0): number {
 export function roundUp(value: unknown, precision: number = 0): number {
   const num = toNumber(value, null);
   if (num === null) return 0;
-  const multiplier = Math.pow(10, precision);
-  return Math.ceil(num * multiplier) / multiplier;
+  return roundNumber(num, precision, "ceil");
 }
 
 /**
  * Rounds a number to the nearest multiple of a divisor
  * @param value - The value to round
  * @param divisor - The divisor to round to (must be positive and finite)
+ * @param mode - How to round ties and remainders (default: "halfCeil", like Math.round)
  * @returns The rounded number, or 0 if conversion fails or divisor is invalid
  *
  * @example
@@ -231,9 +253,14 @@ export function roundUp(value: unknown, precision: number = 0): number {
  * roundToNearest(1234.56, 0.5) // 1234.5
  * roundToNearest(1234.21, 0.25) // 1234.25
  * roundToNearest(1237, 5) // 1235
+ * roundToNearest(25, 10, "halfEven") // 20
  * ```
  */
-export function roundToNearest(value: unknown, divisor: number): number {
+export function roundToNearest(
+  value: unknown,
+  divisor: number,
+  mode: RoundingMode = "halfCeil"
+): number {
   const num = toNumber(value, null);
   if (num === null) return 0;
 
@@ -242,7 +269,10 @@ export function roundToNearest(value: unknown, divisor: number): number {
     return 0;
   }
 
-  return Math.round(num / divisor) * divisor;
+  // Divide and multiply as decimals, so multiples of 0.1 and 0.01 come out exact
+  const decimal = toDecimal(num);
+  if (decimal === null) return 0;
+  return decimal.divide(divisor, 0, mode).multiply(divisor).toNumber();
 }
 
 /**
@@ -269,6 +299,22 @@ export function getNumbersBetween(
   return numbers;
 }
 
+/**
+ * Rounds a finite number from its shortest decimal form
+ * Precisions that are not finite leave the number unrounded; fractional precisions are truncated
+ */
+function roundNumber(
+  num: number,
+  precision: number,
+  mode: RoundingMode
+): number {
+  if (!isNumber(precision) || !Number.isFinite(precision)) return num;
+  const decimal = toDecimal(num);
+  return decimal === null
+    ? 0
+    : decimal.round(Math.trunc(precision), mode).toNumber();
+}
+
 /**
  * Checks if a number meets the specified constraint
  */
@@ -292,10 +338,24 @@ function meetsConstraint(num: number, constraint?: NumberConstraint): boolean {
   }
 }
 
+/**
+ * Intl.NumberFormat options, including the rounding mode missing from the ES2020 typings
+ */
+type IntlNumberFormatOptions = Intl.NumberFormatOptions & {
+  roundingMode?: RoundingMode;
+};
+
+/**
+ * Intl.NumberFormat, whose format method also takes decimal strings (missing from the ES2020 typings)
+ */
+type IntlNumberFormat = Omit<Intl.NumberFormat, "format"> & {
+  format(value: number | string): string;
+};
+
 /**
  * Converts a number (or number-like value) into a formatted string using Intl.NumberFormat.
  *
- * @param value - The value to format (number, string, etc.)
+ * @param value - The value to format (number, string, Decimal, etc.)
  * @param opts - Formatting options
  * @returns Formatted number string, or nullValue/empty string if value is invalid or doesn't meet constraints
  *
@@ -319,6 +379,10 @@ function meetsConstraint(num: number, constraint?: NumberConstraint): boolean {
  *
  * // Integer formatting
  * toNumberString(1234, { maxDecimalPlaces: 0 }) // "1,234"
+ *
+ * // Rounding modes and exact decimals
+ * toNumberString(2.5, { maxDecimalPlaces: 0, roundingMode: "halfEven" }) // "2"
+ * toNumberString(toDecimal("12345678901234567.89")) // "12,345,678,901,234,567.89"
  * ```
  */
 export function toNumberString(
@@ -335,11 +399,12 @@ export function toNumberString(
   const locale = opts.locale ?? "en-US";
   const signDisplay = opts.signDisplay ?? "auto";
   // Create number format options
-  const intlOptions: Intl.NumberFormatOptions = {
+  const intlOptions: IntlNumberFormatOptions = {
     style: "decimal",
     useGrouping: true,
     minimumFractionDigits: opts.minDecimalPlaces ?? 0,
     maximumFractionDigits: opts.maxDecimalPlaces ?? 20,
+    roundingMode: opts.roundingMode,
     ...opts.intlOptions,
   };
 
@@ -362,7 +427,12 @@ export function toNumberString(
   }
 
   try {
-    let formatted = new Intl.NumberFormat(locale, intlOptions).format(num);
+    // Decimals are formatted from their digits, so no precision is lost
+    const formatter: IntlNumberFormat = new Intl.NumberFormat(
+      locale,
+      intlOptions
+    );
+    let formatted = formatter.format(isDecimal(value) ? value.toString() : num);
 
     // Post-process for parentheses display
     if (signDisplay === "parentheses" && num < 0) {
@@ -382,3 +452,553 @@ export function toNumberString(
     return nullValue;
   }
 }
+
+/**
+ * Options for parsing localized numbers
+ */
+export interface ParseLocaleNumberOptions<T> {
+  /**
+   * Locale whose separators, signs and digits the text uses
+   * @default "en-US"
+   */
+  locale?: Intl.LocalesArgument;
+  /**
+   * Value to return if the text is not a number
+   * @default null
+   */
+  defaultValue?: T;
+}
+
+/**
+ * Separators and signs of a locale
+ */
+interface LocaleNumberSymbols {
+  group: string;
+  decimal: string;
+  minusSign: string;
+  percentSign: string;
+}
+
+/** Numbering systems whose digits are read in any locale */
+const NUMBERING_SYSTEMS = [
+  "arab",
+  "arabext",
+  "deva",
+  "beng",
+  "fullwide",
+  "thai",
+];
+
+/** Invisible bidirectional marks that Intl adds around signs in right-to-left locales */
+const BIDI_MARKS = /[\u061c\u200e\u200f]/g;
+
+const LOCALE_NUMBER_SYMBOLS = new Map<string, LocaleNumberSymbols>();
+let nativeDigits: Map<string, string> | null = null;
+
+/**
+ * Parses a number formatted for a locale, such as the output of `toNumberString`
+ *
+ * Reads the locale's grouping and decimal separators (taken from Intl.NumberFormat), plus and
+ * minus signs (including "−"), negatives in parentheses, percent and permille signs, and
+ * Arabic-Indic, Persian, Devanagari, Bengali, Thai and full-width digits.
+ *
+ * @param value - The text to parse (numbers are returned as they are)
+ * @param options - Locale and default value
+ * @returns The number, or the default value if the text is not a number in the locale
+ *
+ * @example
+ * ```ts
+ * parseLocaleNumber("1,234.5") // 1234.5
+ * parseLocaleNumber("1.234,5", { locale: "de-DE" }) // 1234.5
+ * parseLocaleNumber("1 234,5", { locale: "fr-FR" }) // 1234.5
+ * parseLocaleNumber("−12.5%") // -0.125
+ * parseLocaleNumber("3‰") // 0.003
+ * parseLocaleNumber("١٬٢٣٤٫٥", { locale: "ar-EG" }) // 1234.5
+ * parseLocaleNumber("(100)") // -100
+ * parseLocaleNumber("1.234,5") // null
+ * parseLocaleNumber("1,5") // null (misplaced group separator)
+ * ```
+ */
+export function parseLocaleNumber<T extends number | null | undefined = null>(
+  value: unknown,
+  options: ParseLocaleNumberOptions<T> = {}
+): number | T {
+  const defaultValue = options.defaultValue ?? (null as T);
+  if (isNullOrUndefined(value)) return defaultValue;
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : defaultValue;
+  }
+
+  let symbols: LocaleNumberSymbols;
+  try {
+    symbols = getLocaleNumberSymbols(options.locale ?? "en-US");
+  } catch {
+    // Invalid locale tags
+    return defaultValue;
+  }
+  let text = toLatinDigits(toString(value, "").replace(BIDI_MARKS, "")).trim();
+  let negative = false;
+  let exponent = 0;
+
+  // Negatives in parentheses, as written by signDisplay "parentheses"
+  if (text.startsWith("(") && text.endsWith(")")) {
+    negative = true;
+    text = text.slice(1, -1).trim();
+  }
+
+  // Percent and permille signs may come before or after the number
+  const percent = new RegExp(
+    `^(?:%|\u066a|${escapeRegex(symbols.percentSign)})|(?:%|\u066a|${escapeRegex(symbols.percentSign)})$`
+  );
+  const permille = /^[\u2030\u0609]|[\u2030\u0609]$/;
+  if (percent.test(text)) {
+    exponent = -2;
+    text = text.replace(percent, "").trim();
+  } else if (permille.test(text)) {
+    exponent = -3;
+    text = text.replace(permille, "").trim();
+  }
+
+  // Signs may come before or after the number
+  const sign = new RegExp(
+    `^[-+\u2212${escapeRegex(symbols.minusSign)}]|[-+\u2212]$`
+  );
+  const signMatch = text.match(sign);
+  if (signMatch) {
+    // A sign inside parentheses ("(-5)") is ambiguous
+    if (negative) return defaultValue;
+    negative = signMatch[0] !== "+";
+    text = text.replace(sign, "").trim();
+  }
+
+  const digits = readLocaleDigits(text, symbols);
+  if (digits === null) return defaultValue;
+  const num = Number(`${digits}e${exponent}`);
+  if (!Number.isFinite(num)) return defaultValue;
+  return negative && num !== 0 ? -num : num;
+}
+
+/**
+ * Reads digits with a locale's separators as a plain decimal string (e.g. "1234.5")
+ */
+function readLocaleDigits(
+  text: string,
+  symbols: LocaleNumberSymbols
+): string | null {
+  const [whole, fraction = "", ...rest] = text.split(symbols.decimal);
+  if (rest.length > 0) return null;
+
+  // Spaces stand in for space-like group separators, and "'" for "’"
+  let separators = [symbols.group];
+  if (/^\s$/.test(symbols.group)) separators = [" ", "\u00a0", "\u202f"];
+  if (symbols.group === "\u2019") separators = ["\u2019", "'"];
+  const groups = whole.split(
+    new RegExp(separators.map((separator) => escapeRegex(separator)).join("|"))
+  );
+
+  if (!groups.every((group) => /^\d*$/.test(group))) return null;
+  if (!/^\d*$/.test(fraction) || !hasValidGroups(groups)) return null;
+  const integer = groups.join("");
+  if (integer === "" && fraction === "") return null;
+  return `${integer || "0"}.${fraction || "0"}`;
+}
+
+/**
+ * Checks that group separators sit at thousands ("1,234,567") or Indian ("12,34,567") positions
+ */
+function hasValidGroups(groups: string[]): boolean {
+  if (groups.length === 1) return true;
+  const [first, ...rest] = groups;
+  const last = rest.pop()!;
+  return (
+    /^\d{1,3}$/.test(first) &&
+    last.length === 3 &&
+    rest.every((group) => group.length === rest[0].length) &&
+    rest.every((group) => group.length === 2 || group.length === 3)
+  );
+}
+
+/**
+ * Replaces digits of other numbering systems with Latin digits
+ */
+function toLatinDigits(text: string): string {
+  if (!nativeDigits) {
+    nativeDigits = new Map();
+    for (const numberingSystem of NUMBERING_SYSTEMS) {
+      const format = new Intl.NumberFormat("en-US", { numberingSystem });
+      for (let digit = 0; digit <= 9; digit++) {
+        nativeDigits.set(format.format(digit), String(digit));
+      }
+    }
+  }
+  const digits = nativeDigits;
+  return text.replace(/\p{Nd}/gu, (char) => digits.get(char) ?? char);
+}
+
+/**
+ * Gets the separators and signs of a locale from Intl
+ */
+function getLocaleNumberSymbols(
+  locale: Intl.LocalesArgument
+): LocaleNumberSymbols {
+  const key = String(locale);
+  const cached = LOCALE_NUMBER_SYMBOLS.get(key);
+  if (cached) return cached;
+
+  const parts = [
+    ...new Intl.NumberFormat(locale).formatToParts(-1234567.8),
+    ...new Intl.NumberFormat(locale, { style: "percent" }).formatToParts(0.5),
+  ];
+  const find = (type: string, fallback: string): string =>
+    parts.find((part) => part.type === type)?.value ?? fallback;
+  const symbols = {
+    group: find("group", ","),
+    decimal: find("decimal", "."),
+    minusSign: find("minusSign", "-"),
+    percentSign: find("percentSign", "%"),
+  };
+  LOCALE_NUMBER_SYMBOLS.set(key, symbols);
+  return symbols;
+}
+
+/**
+ * Words used to spell out numbers in a language
+ * Numbers are read in groups of three digits, each followed by its scale word
+ */
+export interface NumberWordsDictionary {
+  /** Words for 0 to 19 */
+  ones: readonly string[];
+  /** Words for multiples of ten, indexed by the tens digit ("twenty" at index 2) */
+  tens: readonly string[];
+  /** Word for hundreds */
+  hundred: string;
+  /** Scale word for each group of three digits, starting with the units group ("", "thousand", ...) */
+  scales: readonly string[];
+  /** Joins a multiple of ten and a unit (e.g. "-" for "twenty-one") */
+  tensSeparator: string;
+  /** Word before negative numbers */
+  negative: string;
+  /** Word before the digits of a fraction (e.g. "point" for "one point five") */
+  point: string;
+  /** Word joining the whole amount and the fraction of a currency amount */
+  and: string;
+  /** Converts the words of a cardinal number to an ordinal (e.g. "twenty-one" to "twenty-first") */
+  toOrdinal(words: string): string;
+  /** Currency unit names by ISO 4217 code; other currencies use the Intl display name */
+  currencies?: Record<string, { one: string; other: string }>;
+}
+
+/**
+ * Options for spelling out numbers
+ */
+export interface NumberWordsOptions {
+  /**
+   * Locale of a bundled dictionary (only English is bundled; others fall back to it)
+   * @default "en"
+   */
+  locale?: string;
+  /**
+   * Dictionary to use instead of a bundled one
+   */
+  dictionary?: NumberWordsDictionary;
+  /**
+   * Spell out the ordinal ("twenty-first") instead of the cardinal ("twenty-one")
+   * @default false
+   */
+  ordinal?: boolean;
+  /**
+   * Value to return for invalid or out-of-range inputs
+   * @default ""
+   */
+  nullValue?: string;
+}
+
+/**
+ * Options for spelling out currency amounts
+ */
+export interface CurrencyWordsOptions extends Omit<
+  NumberWordsOptions,
+  "ordinal"
+> {
+  /**
+   * ISO 4217 currency code, which sets the unit name and the fraction's denominator
+   * @default "USD"
+   */
+  currency?: string;
+}
+
+const ENGLISH_ORDINALS: Record<string, string> = {
+  one: "first",
+  two: "second",
+  three: "third",
+  five: "fifth",
+  eight: "eighth",
+  nine: "ninth",
+  twelve: "twelfth",
+};
+
+/**
+ * English (US) number words
+ */
+export const ENGLISH_NUMBER_WORDS: NumberWordsDictionary = {
+  ones: [
+    "zero",
+    "one",
+    "two",
+    "three",
+    "four",
+    "five",
+    "six",
+    "seven",
+    "eight",
+    "nine",
+    "ten",
+    "eleven",
+    "twelve",
+    "thirteen",
+    "fourteen",
+    "fifteen",
+    "sixteen",
+    "seventeen",
+    "eighteen",
+    "nineteen",
+  ],
+  tens: [
+    "",
+    "",
+    "twenty",
+    "thirty",
+    "forty",
+    "fifty",
+    "sixty",
+    "seventy",
+    "eighty",
+    "ninety",
+  ],
+  hundred: "hundred",
+  scales: ["", "thousand", "million", "billion", "trillion"],
+  tensSeparator: "-",
+  negative: "negative",
+  point: "point",
+  and: "and",
+  toOrdinal(words: string): string {
+    return words.replace(/[a-z]+$/, (last) => {
+      if (last in ENGLISH_ORDINALS) return ENGLISH_ORDINALS[last];
+      if (last.endsWith("y")) return `${last.slice(0, -1)}ieth`;
+      return `${last}th`;
+    });
+  },
+  currencies: {
+    USD: { one: "dollar", other: "dollars" },
+    EUR: { one: "euro", other: "euros" },
+    GBP: { one: "pound", other: "pounds" },
+    JPY: { one: "yen", other: "yen" },
+  },
+};
+
+const NUMBER_WORDS_DICTIONARIES: Record<string, NumberWordsDictionary> = {
+  en: ENGLISH_NUMBER_WORDS,
+};
+
+/**
+ * Spells out a number in words
+ *
+ * @param value - The number to spell out (up to the largest scale of the dictionary, trillions in English)
+ * @param options - Locale, dictionary and ordinal options
+ * @returns The number in words, or nullValue if the value is not a number or out of range
+ *
+ * @example
+ * ```ts
+ * toNumberWords(1234) // "one thousand two hundred thirty-four"
+ * toNumberWords(-15) // "negative fifteen"
+ * toNumberWords(3.25) // "three point two five"
+ * toNumberWords(21, { ordinal: true }) // "twenty-first"
+ * toNumberWords(2_000_000_000_000) // "two trillion"
+ * ```
+ */
+export function toNumberWords(
+  value: unknown,
+  options: NumberWordsOptions = {}
+): string {
+  const nullValue = options.nullValue ?? "";
+  const num = toNumber(value, null);
+  if (num === null) return nullValue;
+
+  const dictionary = getNumberWordsDictionary(options);
+  if (options.ordinal && !Number.isInteger(num)) return nullValue;
+
+  // Read the digits from the shortest decimal form, so 0.1 is "zero point one"
+  const [whole, fraction = ""] = toPlainDecimal(Math.abs(num)).split(".");
+  const integerWords = spellInteger(whole, dictionary);
+  if (integerWords === null) return nullValue;
+
+  let words = options.ordinal
+    ? dictionary.toOrdinal(integerWords)
+    : integerWords;
+  if (fraction) {
+    const digits = [...fraction].map((digit) => dictionary.ones[Number(digit)]);
+    words = `${words} ${dictionary.point} ${digits.join(" ")}`;
+  }
+  return num < 0 ? `${dictionary.negative} ${words}` : words;
+}
+
+/**
+ * Spells out a currency amount the way it is written on checks and legal documents
+ * The whole amount is in words and the minor units are a fraction of the currency's minor unit
+ *
+ * @param value - The amount in major units (e.g. dollars)
+ * @param options - Currency, locale and dictionary options
+ * @returns The amount in words, or nullValue if the value is not a number, out of range or the
+ * currency code is not valid
+ *
+ * @example
+ * ```ts
+ * toCurrencyWords(1234.56) // "One thousand two hundred thirty-four and 56/100 dollars"
+ * toCurrencyWords(100) // "One hundred and 00/100 dollars"
+ * toCurrencyWords(5000, { currency: "JPY" }) // "Five thousand yen"
+ * toCurrencyWords(1.5, { currency: "KWD" }) // "One and 500/1000 Kuwaiti dinars"
+ * ```
+ */
+export function toCurrencyWords(
+  value: unknown,
+  options: CurrencyWordsOptions = {}
+): string {
+  const nullValue = options.nullValue ?? "";
+  const num = toNumber(value, null);
+  if (num === null) return nullValue;
+
+  const dictionary = getNumberWordsDictionary(options);
+  const currency = (options.currency || "USD").trim().toUpperCase();
+  if (!/^[A-Z]{3}$/.test(currency)) return nullValue;
+  const minorUnits = getCurrencyInfo(currency)?.minorUnits ?? 2;
+
+  // Round to the minor unit by shifting the decimal point in text, so 1.005 is 101 cents
+  const units = Math.round(
+    Number(`${toPlainDecimal(Math.abs(num))}e${minorUnits}`)
+  );
+  const denominator = 10 ** minorUnits;
+  const whole = Math.floor(units / denominator);
+  const minor = units % denominator;
+
+  const wholeWords = spellInteger(String(whole), dictionary);
+  if (wholeWords === null) return nullValue;
+
+  const unit = getCurrencyUnitName(
+    currency,
+    minorUnits === 0 && whole === 1,
+    dictionary,
+    getNumberWordsLanguage(options)
+  );
+  let words = wholeWords;
+  if (minorUnits > 0) {
+    const fraction = `${String(minor).padStart(minorUnits, "0")}/${denominator}`;
+    words = `${words} ${dictionary.and} ${fraction}`;
+  }
+  words = `${words} ${unit}`;
+  if (num < 0 && units !== 0) words = `${dictionary.negative} ${words}`;
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Gets the dictionary for the options, falling back to English
+ */
+function getNumberWordsDictionary(
+  options: NumberWordsOptions
+): NumberWordsDictionary {
+  return (
+    options.dictionary ??
+    NUMBER_WORDS_DICTIONARIES[getNumberWordsLanguage(options)]
+  );
+}
+
+/**
+ * Gets the language the dictionary for the options is written in ("en" when falling back to English)
+ */
+function getNumberWordsLanguage(options: NumberWordsOptions): string {
+  if (options.dictionary) return options.locale ?? "en";
+  const language = (options.locale ?? "en").split("-")[0].toLowerCase();
+  return hasProperty(NUMBER_WORDS_DICTIONARIES, language) ? language : "en";
+}
+
+/**
+ * Writes a non-negative number as plain decimal digits, without exponent notation
+ */
+function toPlainDecimal(num: number): string {
+  return num.toLocaleString("en-US", {
+    useGrouping: false,
+    maximumFractionDigits: 20,
+  });
+}
+
+/**
+ * Spells out a string of integer digits, or returns null if it is beyond the largest scale
+ */
+function spellInteger(
+  digits: string,
+  dictionary: NumberWordsDictionary
+): string | null {
+  const trimmed = digits.replace(/^0+(?=\d)/, "");
+  if (trimmed.length > dictionary.scales.length * 3) return null;
+  if (trimmed === "0") return dictionary.ones[0];
+
+  const words: string[] = [];
+  const groups = Math.ceil(trimmed.length / 3);
+  const padded = trimmed.padStart(groups * 3, "0");
+  for (let group = 0; group < groups; group++) {
+    const value = Number(padded.slice(group * 3, group * 3 + 3));
+    if (value === 0) continue;
+    words.push(spellHundreds(value, dictionary));
+    const scale = dictionary.scales[groups - group - 1];
+    if (scale) words.push(scale);
+  }
+  return words.join(" ");
+}
+
+/**
+ * Spells out a number from 1 to 999
+ */
+function spellHundreds(
+  value: number,
+  dictionary: NumberWordsDictionary
+): string {
+  const words: string[] = [];
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  if (hundreds > 0) {
+    words.push(dictionary.ones[hundreds], dictionary.hundred);
+  }
+  if (rest >= 20) {
+    const tens = dictionary.tens[Math.floor(rest / 10)];
+    words.push(
+      rest % 10 === 0
+        ? tens
+        : `${tens}${dictionary.tensSeparator}${dictionary.ones[rest % 10]}`
+    );
+  } else if (rest > 0) {
+    words.push(dictionary.ones[rest]);
+  }
+  return words.join(" ");
+}
+
+/**
+ * Gets the name of a currency's unit from the dictionary, or from Intl's display names
+ */
+function getCurrencyUnitName(
+  currency: string,
+  singular: boolean,
+  dictionary: NumberWordsDictionary,
+  language: string
+): string {
+  const names = dictionary.currencies?.[currency];
+  if (names) return singular ? names.one : names.other;
+  try {
+    const parts = new Intl.NumberFormat(language, {
+      style: "currency",
+      currency,
+      currencyDisplay: "name",
+    }).formatToParts(singular ? 1 : 2);
+    return parts.find((part) => part.type === "currency")?.value ?? currency;
+  } catch {
+    return currency;
+  }
+}
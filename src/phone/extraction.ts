@@ -0,0 +1,113 @@
+/**
+ * Phone number extraction utilities
+ *
+ * Functions for finding phone numbers in free text
+ */
+
+import { formatPhone } from "./formatting";
+import { validatePhone } from "./validation";
+
+/**
+ * A phone number found in free text
+ */
+export interface PhoneNumberMatch {
+  /** The matched text as it appears in the input */
+  text: string;
+  /** Index of the first character of the match */
+  start: number;
+  /** Index after the last character of the match */
+  end: number;
+  /** Normalized value, as produced by the "database" format style */
+  value: string;
+  /** E.164 form of the number, or null for conference sequences */
+  e164: string | null;
+  /** Whether the number is valid according to its numbering plan */
+  valid: boolean;
+}
+
+/**
+ * Options for extracting phone numbers
+ */
+export interface ExtractPhoneNumbersOptions {
+  /**
+   * Region (ISO 3166-1 alpha-2, e.g. "GB") used to read numbers written without a "+" prefix
+   * Numbers are read as US/Canada numbers when not specified
+   */
+  country?: string;
+  /**
+   * Whether to return only valid numbers instead of every number with a possible length
+   * @default false
+   */
+  validOnly?: boolean;
+}
+
+/**
+ * Candidate phone numbers: an optional "+", digits with space, dot, dash or
+ * parenthesis separators, an optional extension and conference sequences
+ */
+const PHONE_CANDIDATE_REGEX =
+  /(?<![\w+])\+?\(?\d[\d \t().-]{5,}\d(?:[ \t]*(?:x|ext\.?|extension)[ \t.:]*\d{1,6})?#?(?:,[\d*#]+)*/gi;
+
+/**
+ * Dates that would otherwise look like phone numbers (2024-01-15, 01.15.2024)
+ */
+const DATE_LIKE_REGEX =
+  /^(?:\d{4}[-./]\d{1,2}[-./]\d{1,2}|\d{1,2}[-./]\d{1,2}[-./]\d{2,4})(?!\d)/;
+
+/**
+ * Finds phone numbers in free text
+ *
+ * Recognizes the styles `formatPhone` produces or accepts: dash, parentheses, dotted,
+ * "+" country codes, extensions ("x", "ext", "extension") and conference sequences.
+ * Candidates are kept when their length is possible for their numbering plan.
+ *
+ * @param text - The text to scan
+ * @param options - Extraction options
+ * @returns The phone numbers found, in order of appearance
+ *
+ * @example
+ * ```ts
+ * extractPhoneNumbers("Call (415) 555-0123 ext. 42 or +44 20 7946 0958.")
+ * // [
+ * //   { text: "(415) 555-0123 ext. 42", start: 5, end: 27, value: "4155550123x42", e164: "+14155550123", valid: true },
+ * //   { text: "+44 20 7946 0958", start: 31, end: 47, value: "+442079460958", e164: "+442079460958", valid: true }
+ * // ]
+ *
+ * extractPhoneNumbers("Dial 8662345689,223345099#") // [{ text: "8662345689,223345099#", value: "8662345689,223345099#", e164: null, ... }]
+ * extractPhoneNumbers("Invoice 2024-01-15") // []
+ * ```
+ */
+export function extractPhoneNumbers(
+  text: string,
+  options: ExtractPhoneNumbersOptions = {}
+): PhoneNumberMatch[] {
+  const { country, validOnly = false } = options;
+  const matches: PhoneNumberMatch[] = [];
+
+  for (const match of text.matchAll(PHONE_CANDIDATE_REGEX)) {
+    let candidate = match[0];
+    let start = match.index!;
+
+    // An opening parenthesis is only part of the number if it is closed
+    if (candidate.startsWith("(") && !/^\(\d+\)/.test(candidate)) {
+      candidate = candidate.slice(1);
+      start++;
+    }
+
+    if (DATE_LIKE_REGEX.test(candidate)) continue;
+
+    const validation = validatePhone(candidate, { country });
+    if (!(validOnly ? validation.valid : validation.possible)) continue;
+
+    matches.push({
+      text: candidate,
+      start,
+      end: start + candidate.length,
+      value: formatPhone(candidate, { style: "database", country }) ?? "",
+      e164: formatPhone(candidate, { style: "e164", country }) ?? null,
+      valid: validation.valid,
+    });
+  }
+
+  return matches;
+}
@@ -1,14 +1,22 @@
 /**
  * Phone number formatting utilities
  *
- * This module provides functions for:
- * - Encoding/normalizing phone numbers for database storage
- * - Formatting phone numbers for human-readable display
- * - Handling extensions and special formats (conference calls, etc.)
+ * Functions for encoding phone numbers for storage and formatting them for display
  */
 
-import { toString } from "./string";
-import { isNullOrUndefined } from "./is";
+import { toString } from "../string";
+import { isNullOrUndefined } from "../is";
+import {
+  PhoneComponents,
+  findPhoneNumberFormat,
+  parsePhoneNumber,
+  splitPhoneNumberGroups,
+} from "./parsing";
+import {
+  PhoneNumberFormat,
+  PhoneNumberingPlan,
+  getPhoneNumberingPlan,
+} from "./metadata";
 
 /**
  * Base options shared by all phone format styles
@@ -24,6 +32,11 @@ interface BaseFormatPhoneOptions {
    * @default true
    */
   stripLeadingOne?: boolean;
+  /**
+   * Region (ISO 3166-1 alpha-2, e.g. "GB") used to read numbers written without a "+" prefix
+   * Numbers are read as US/Canada numbers when not specified
+   */
+  country?: string;
 }
 
 /**
@@ -47,6 +60,13 @@ interface ParenthesesFormatPhoneOptions extends BaseFormatPhoneOptions {
   style: "parentheses";
 }
 
+/**
+ * Options for national format, using the region's own conventions ((123) 456-7890, 020 7946 0958)
+ */
+interface NationalFormatPhoneOptions extends BaseFormatPhoneOptions {
+  style: "national";
+}
+
 /**
  * Options for international format (+1 123-456-7890)
  * Note: stripLeadingOne is not available for international format as it always includes country code
@@ -65,6 +85,24 @@ interface LinkFormatPhoneOptions
   style: "link";
 }
 
+/**
+ * Options for E.164 format (+14155550123)
+ * Note: stripLeadingOne is not available for E.164 format - it always includes the country code
+ */
+interface E164FormatPhoneOptions
+  extends Omit<BaseFormatPhoneOptions, "stripLeadingOne"> {
+  style: "e164";
+}
+
+/**
+ * Options for RFC 3966 format (tel:+1-415-555-0123;ext=42)
+ * Note: stripLeadingOne is not available for RFC 3966 format - it always includes the country code
+ */
+interface Rfc3966FormatPhoneOptions
+  extends Omit<BaseFormatPhoneOptions, "stripLeadingOne"> {
+  style: "rfc3966";
+}
+
 /**
  * Options for default format (parentheses when style is not specified)
  */
@@ -76,99 +114,20 @@ interface DefaultFormatPhoneOptions extends BaseFormatPhoneOptions {
  * Options for formatting phone numbers
  *
  * The type system ensures that `stripLeadingOne` is only available for styles that support it:
- * - Available for: 'database', 'dash', 'parentheses', and default (no style specified)
- * - Not available for: 'international', 'link'
+ * - Available for: 'database', 'dash', 'parentheses', 'national', and default (no style specified)
+ * - Not available for: 'international', 'link', 'e164', 'rfc3966'
  */
 export type FormatPhoneOptions =
   | DatabaseFormatPhoneOptions
   | DashFormatPhoneOptions
   | ParenthesesFormatPhoneOptions
+  | NationalFormatPhoneOptions
   | InternationalFormatPhoneOptions
   | LinkFormatPhoneOptions
+  | E164FormatPhoneOptions
+  | Rfc3966FormatPhoneOptions
   | DefaultFormatPhoneOptions;
 
-/**
- * Parses a phone number string into its components
- * @internal
- */
-interface PhoneComponents {
-  countryCode: string;
-  areaCode: string;
-  exchange: string;
-  number: string;
-  extension: string;
-  conferenceParts: string[];
-}
-
-/**
- * Extracts phone number components from a string
- * @internal
- */
-function parsePhoneNumber(
-  phone: string
-): PhoneComponents & { phoneWithoutExtension: string } {
-  const result: PhoneComponents & { phoneWithoutExtension: string } = {
-    countryCode: "",
-    areaCode: "",
-    exchange: "",
-    number: "",
-    extension: "",
-    conferenceParts: [],
-    phoneWithoutExtension: phone,
-  };
-
-  // Check if this is a conference call format (contains commas, #, or *)
-  const hasConferenceFormat =
-    phone.includes(",") || phone.includes("#") || phone.includes("*");
-
-  if (hasConferenceFormat) {
-    // Preserve conference format
-    result.conferenceParts = phone.split(",");
-    return result;
-  }
-
-  // Extract extension (look for 'x', 'ext', 'extension', 'ext.', etc.)
-  const extensionMatch = phone.match(
-    /[xX](?:\s*)(\d+)|(?:ext|extension|ext\.)[\s:]*(\d+)/i
-  );
-  if (extensionMatch) {
-    result.extension = extensionMatch[1] || extensionMatch[2] || "";
-    phone = phone.substring(0, extensionMatch.index!);
-    result.phoneWithoutExtension = phone;
-  }
-
-  // Extract only digits from the main phone number
-  const digits = phone.replace(/\D/g, "");
-
-  // Handle US numbers (10 or 11 digits)
-  if (digits.length === 11 && digits.startsWith("1")) {
-    result.countryCode = "1";
-    const rest = digits.slice(1);
-    if (rest.length === 10) {
-      result.areaCode = rest.slice(0, 3);
-      result.exchange = rest.slice(3, 6);
-      result.number = rest.slice(6);
-    }
-  } else if (digits.length === 10) {
-    result.areaCode = digits.slice(0, 3);
-    result.exchange = digits.slice(3, 6);
-    result.number = digits.slice(6);
-  } else if (digits.length > 0) {
-    // For other lengths, try to parse as best we can
-    // Assume first 3 digits are area code if we have at least 7 digits
-    if (digits.length >= 7) {
-      result.areaCode = digits.slice(0, 3);
-      result.exchange = digits.slice(3, 6);
-      result.number = digits.slice(6);
-    } else {
-      // Just store as number if too short
-      result.number = digits;
-    }
-  }
-
-  return result;
-}
-
 /**
  * Formats a phone number according to the specified style
  *
@@ -192,10 +151,29 @@ function parsePhoneNumber(
  * // International format
  * formatPhone("1234567890", { style: "international" }) // "+1 123-456-7890"
  *
+ * // National format (region's own conventions)
+ * formatPhone("1234567890", { style: "national" }) // "(123) 456-7890"
+ * formatPhone("020 7946 0958", { style: "national", country: "GB" }) // "020 7946 0958"
+ *
+ * // Numbers outside the US/Canada (by "+" prefix or the country option)
+ * formatPhone("020 7946 0958", { style: "international", country: "GB" }) // "+44 20 7946 0958"
+ * formatPhone("+49 30 12345678", { style: "national" }) // "030 12345678"
+ * formatPhone("0412 345 678", { style: "database", country: "AU" }) // "+61412345678"
+ * formatPhone("+81 3 1234 5678", { style: "international" }) // null (calling code is not bundled)
+ * formatPhone("123", { style: "international", country: "GB" }) // null (too short for the region)
+ *
  * // Link format (for tel: links - always includes +1 prefix)
  * formatPhone("1234567890", { style: "link" }) // "+11234567890"
  * formatPhone("1234567890 ext 123", { style: "link" }) // "+11234567890,123" (comma for auto-dial)
  *
+ * // E.164 format (canonical storage, extensions are dropped)
+ * formatPhone("(415) 555-0123 ext 42", { style: "e164" }) // "+14155550123"
+ * formatPhone("020 7946 0958", { style: "e164", country: "GB" }) // "+442079460958"
+ *
+ * // RFC 3966 format (tel: URI for telephony APIs)
+ * formatPhone("(415) 555-0123 ext 42", { style: "rfc3966" }) // "tel:+1-415-555-0123;ext=42"
+ * formatPhone("020 7946 0958", { style: "rfc3966", country: "GB" }) // "tel:+44-20-7946-0958"
+ *
  * // Conference call format (automatically preserved)
  * formatPhone("8662345689,223345099#,*324569") // "8662345689 223345099# *324569" (space-separated for display)
  * formatPhone("8662345689,223345099#,*324569", { style: "database" }) // "8662345689,223345099#,*324569" (comma-separated)
@@ -230,11 +208,23 @@ export function formatPhone<T extends string | null | undefined>(
     return defaultValue as string | T;
   }
 
-  const components = parsePhoneNumber(phoneStr);
+  // National numbers for a country that is not bundled cannot be read
+  if (
+    options.country &&
+    !getPhoneNumberingPlan(options.country) &&
+    !phoneStr.startsWith("+")
+  ) {
+    return defaultValue as string | T;
+  }
+
+  const components = parsePhoneNumber(phoneStr, options.country);
 
   // If we detected conference format, handle it based on style
   if (components.conferenceParts.length > 0) {
-    if (style === "database" || style === "link") {
+    if (style === "e164" || style === "rfc3966") {
+      // Dial sequences cannot be represented in canonical formats
+      return defaultValue as string | T;
+    } else if (style === "database" || style === "link") {
       // For database and link formats, use comma separator
       return components.conferenceParts.join(",");
     } else {
@@ -243,6 +233,44 @@ export function formatPhone<T extends string | null | undefined>(
     }
   }
 
+  // Calling codes that are not bundled, and lengths a numbering plan does not use, cannot be formatted
+  if (components.unknownCallingCode || !hasPossibleLength(components)) {
+    return defaultValue as string | T;
+  }
+
+  // Canonical formats require a complete number with a known country code
+  if (style === "e164" || style === "rfc3966") {
+    const { nationalNumber, extension } = components;
+    if (!nationalNumber) {
+      return defaultValue as string | T;
+    }
+    const countryCode = components.countryCode || "1";
+    if (style === "e164") {
+      return `+${countryCode}${nationalNumber}`;
+    }
+    const { groups } = getPhoneNumberGroups(components);
+    const uri = `tel:+${countryCode}-${groups.join("-")}`;
+    return extension ? `${uri};ext=${extension}` : uri;
+  }
+
+  // Numbers outside the NANP are formatted from their numbering plan
+  if (components.countryCode && components.countryCode !== "1") {
+    const formatted = formatFromNumberingPlan(components, style);
+    if (formatted === null) {
+      return defaultValue as string | T;
+    }
+    if (components.extension) {
+      if (style === "database") {
+        return `${formatted}x${components.extension}`;
+      }
+      if (style === "link") {
+        return `${formatted},${components.extension}`;
+      }
+      return `${formatted} x${components.extension}`;
+    }
+    return formatted;
+  }
+
   // Link format: for tel: links (similar to database but with optional + prefix)
   if (style === "link") {
     let digits = "";
@@ -394,6 +422,7 @@ export function formatPhone<T extends string | null | undefined>(
       break;
 
     case "parentheses":
+    case "national":
       formatted = `(${components.areaCode}) ${components.exchange}-${components.number}`;
       break;
 
@@ -413,3 +442,71 @@ export function formatPhone<T extends string | null | undefined>(
 
   return formatted;
 }
+
+/**
+ * Formats a number outside the NANP (without extension) using its numbering plan
+ * Database and link styles use E.164 (+442079460958)
+ */
+function formatFromNumberingPlan(
+  components: PhoneComponents,
+  style: NonNullable<FormatPhoneOptions["style"]>
+): string | null {
+  const { countryCode, nationalNumber } = components;
+  if (!nationalNumber) return null;
+
+  if (style === "database" || style === "link") {
+    return `+${countryCode}${nationalNumber}`;
+  }
+
+  const { plan, format, groups } = getPhoneNumberGroups(components);
+  const separator = plan?.separator ?? " ";
+
+  if (style === "international") {
+    return `+${countryCode} ${groups.join(separator)}`;
+  }
+
+  // National styles write the national prefix before the first group
+  const nationalPrefix =
+    format?.nationalPrefix === false ? "" : plan?.nationalPrefix ?? "";
+  const [first, ...rest] = groups;
+  const firstGroup = `${nationalPrefix}${first}`;
+
+  if (style === "dash") {
+    return [firstGroup, ...rest].join("-");
+  }
+
+  if (style === "parentheses" || format?.parentheses) {
+    return rest.length > 0
+      ? `(${firstGroup}) ${rest.join(separator)}`
+      : `(${firstGroup})`;
+  }
+
+  return [firstGroup, ...rest].join(separator);
+}
+
+/**
+ * Checks if a number outside the NANP has a length its numbering plan uses
+ * NANP numbers are checked by the display formats themselves
+ */
+function hasPossibleLength(components: PhoneComponents): boolean {
+  if (!components.countryCode || components.countryCode === "1") return true;
+  const plan = getPhoneNumberingPlan(components.country);
+  return !plan || plan.lengths.includes(components.nationalNumber.length);
+}
+
+/**
+ * Splits a parsed number into the digit groups of its numbering plan format
+ */
+function getPhoneNumberGroups(components: PhoneComponents): {
+  plan: PhoneNumberingPlan | undefined;
+  format: PhoneNumberFormat | undefined;
+  groups: string[];
+} {
+  const { nationalNumber } = components;
+  const plan = getPhoneNumberingPlan(components.country);
+  const format = plan ? findPhoneNumberFormat(plan, nationalNumber) : undefined;
+  const groups = format
+    ? splitPhoneNumberGroups(nationalNumber, format.groups)
+    : [nationalNumber];
+  return { plan, format, groups };
+}
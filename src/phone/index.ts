@@ -0,0 +1,36 @@
+/**
+ * Phone number utilities
+ *
+ * This module provides functions for:
+ * - Encoding/normalizing phone numbers for database storage
+ * - Formatting phone numbers for human-readable display
+ * - Handling extensions and special formats (conference calls, etc.)
+ * - Reading international numbers using bundled numbering-plan metadata
+ * - Validating phone numbers and detecting their line type
+ * - Formatting phone numbers as they are typed
+ * - Parsing phone numbers into structured, comparable values
+ * - Finding phone numbers in free text
+ */
+
+// Export numbering-plan metadata
+export { getPhoneNumberingPlan } from "./metadata";
+export type {
+  PhoneNumberFormat,
+  PhoneNumberingPlan,
+  PhoneNumberType,
+} from "./metadata";
+
+// Export formatting functions
+export * from "./formatting";
+
+// Export validation functions
+export * from "./validation";
+
+// Export as-you-type formatting
+export * from "./input";
+
+// Export extraction functions
+export * from "./extraction";
+
+// Export structured phone values
+export * from "./value";
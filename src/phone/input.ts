@@ -0,0 +1,312 @@
+/**
+ * As-you-type phone number formatting
+ *
+ * A stateful formatter for phone input fields that reformats the number after
+ * every keystroke and keeps track of the caret position.
+ */
+
+import { findPhoneNumberFormat, splitPhoneNumberGroups } from "./parsing";
+import {
+  PhoneNumberingPlan,
+  getPhoneNumberingPlan,
+  getPhoneNumberingPlanForNumber,
+  splitCallingCode,
+} from "./metadata";
+import { validatePhone } from "./validation";
+
+/**
+ * Options for the as-you-type phone formatter
+ */
+export interface PhoneInputFormatterOptions {
+  /**
+   * Region (ISO 3166-1 alpha-2, e.g. "GB") used for numbers typed without a "+" prefix
+   * @default "US"
+   */
+  country?: string;
+}
+
+/**
+ * Snapshot of a phone input after an edit
+ */
+export interface PhoneInputState {
+  /** Formatted text to display in the input */
+  text: string;
+  /** Caret position within the formatted text */
+  caret: number;
+  /** Digits of the number entered so far, with a leading "+" if one was typed */
+  digits: string;
+  /** Extension digits entered after "x" */
+  extension: string;
+  /** Whether the digits entered so far form a valid phone number */
+  valid: boolean;
+}
+
+/**
+ * Stateful as-you-type phone formatter
+ */
+export interface PhoneInputFormatter {
+  /**
+   * Inserts one or more typed characters at the caret
+   * Digits, a leading "+" and an "x" starting the extension are kept; anything else is ignored
+   */
+  input(text: string): PhoneInputState;
+  /** Deletes the character before the caret (separators are skipped over) */
+  backspace(): PhoneInputState;
+  /**
+   * Replaces the whole value, e.g. after a paste
+   * @param text - The raw input text
+   * @param caret - Caret position within the raw text (defaults to the end)
+   */
+  setValue(text: string, caret?: number): PhoneInputState;
+  /** Moves the caret to a position within the formatted text */
+  setCaret(caret: number): PhoneInputState;
+  /** Clears the value */
+  reset(): PhoneInputState;
+  /** Gets the current state without changing it */
+  getState(): PhoneInputState;
+}
+
+/**
+ * Creates a stateful formatter that formats a phone number while it is being typed
+ *
+ * The formatter keeps only the significant characters of the number (a leading "+",
+ * digits, and an "x" introducing the extension) and re-applies the numbering plan's
+ * grouping after every edit. Separators are never stored, so backspacing over one
+ * deletes the digit before it.
+ *
+ * @param options - Formatter options
+ * @returns A phone input formatter
+ *
+ * @example
+ * ```ts
+ * const formatter = createPhoneInputFormatter();
+ * formatter.input("4"); // { text: "(4", caret: 2, ... }
+ * formatter.input("155550"); // { text: "(415) 555-0", caret: 11, ... }
+ * formatter.input("123x42"); // { text: "(415) 555-0123 x42", caret: 18, valid: true, ... }
+ * formatter.backspace(); // { text: "(415) 555-0123 x4", caret: 17, ... }
+ *
+ * const uk = createPhoneInputFormatter({ country: "GB" });
+ * uk.setValue("02079460958"); // { text: "020 7946 0958", caret: 13, ... }
+ * uk.setValue("+4420"); // { text: "+44 20", caret: 6, ... }
+ * ```
+ */
+export function createPhoneInputFormatter(
+  options: PhoneInputFormatterOptions = {}
+): PhoneInputFormatter {
+  const country = options.country ?? "US";
+  const plan = getPhoneNumberingPlan(country);
+
+  // Significant characters of the number and the caret position among them
+  let chars: string[] = [];
+  let position = 0;
+
+  const insert = (char: string): void => {
+    if (/\d/.test(char)) {
+      chars.splice(position, 0, char);
+      position++;
+    } else if (char === "+") {
+      // Only a single leading "+"
+      if (position === 0 && chars[0] !== "+") {
+        chars.unshift(char);
+        position++;
+      }
+    } else if (char === "x" || char === "X") {
+      // The extension starts after at least one digit of the number
+      const hasDigitBefore = chars.slice(0, position).some((c) => /\d/.test(c));
+      if (hasDigitBefore && !chars.includes("x")) {
+        chars.splice(position, 0, "x");
+        position++;
+      }
+    }
+  };
+
+  const getState = (): PhoneInputState => {
+    const markerIndex = chars.indexOf("x");
+    const main = markerIndex === -1 ? chars : chars.slice(0, markerIndex);
+    const extension =
+      markerIndex === -1 ? "" : chars.slice(markerIndex + 1).join("");
+    const digits = main.join("");
+
+    let text = formatPartialNumber(digits, plan);
+    if (markerIndex !== -1) {
+      text += ` x${extension}`;
+    }
+
+    return {
+      text,
+      caret: getCaret(text, position),
+      digits,
+      extension,
+      valid:
+        digits !== "" &&
+        validatePhone(extension ? `${digits} x${extension}` : digits, {
+          country,
+        }).valid,
+    };
+  };
+
+  return {
+    input(text: string): PhoneInputState {
+      for (const char of text) {
+        insert(char);
+      }
+      return getState();
+    },
+    backspace(): PhoneInputState {
+      if (position > 0) {
+        chars.splice(position - 1, 1);
+        position--;
+      }
+      return getState();
+    },
+    setValue(text: string, caret?: number): PhoneInputState {
+      chars = [];
+      position = 0;
+      const caretIndex = caret ?? text.length;
+      let caretPosition = 0;
+      Array.from(text).forEach((char, index) => {
+        insert(char);
+        if (index < caretIndex) {
+          caretPosition = position;
+        }
+      });
+      position = caretPosition;
+      return getState();
+    },
+    setCaret(caret: number): PhoneInputState {
+      const { text } = getState();
+      position = Math.min(
+        countSignificant(text.slice(0, Math.max(0, caret))),
+        chars.length
+      );
+      return getState();
+    },
+    reset(): PhoneInputState {
+      chars = [];
+      position = 0;
+      return getState();
+    },
+    getState,
+  };
+}
+
+/**
+ * Formats the digits typed so far, grouping as many as the numbering plan allows
+ * Numbers longer than the plan allows are left unformatted
+ */
+function formatPartialNumber(
+  digits: string,
+  defaultPlan: PhoneNumberingPlan | undefined
+): string {
+  const hasPlus = digits.startsWith("+");
+  const numberDigits = hasPlus ? digits.slice(1) : digits;
+  if (numberDigits === "") return digits;
+
+  // International number: "+44 20 7946 0958" or "011 44 20 7946 0958"
+  let prefix: string | null = null;
+  if (hasPlus) {
+    prefix = "+";
+  } else if (
+    defaultPlan &&
+    numberDigits.startsWith(defaultPlan.internationalPrefix)
+  ) {
+    prefix = `${defaultPlan.internationalPrefix} `;
+  }
+
+  if (prefix !== null) {
+    const rest = hasPlus
+      ? numberDigits
+      : numberDigits.slice(defaultPlan!.internationalPrefix.length);
+    const split = splitCallingCode(rest);
+    if (!split) return `${prefix}${rest}`.trimEnd();
+    const plan = getPhoneNumberingPlanForNumber(
+      split.callingCode,
+      split.nationalNumber
+    );
+    const national = plan
+      ? formatPartialGroups(split.nationalNumber, plan, false)
+      : null;
+    if (national === null) return digits;
+    return `${prefix}${split.callingCode}${national ? ` ${national}` : ""}`;
+  }
+
+  // National number, optionally with the national prefix typed
+  if (!defaultPlan) return digits;
+  const nationalPrefix = defaultPlan.nationalPrefix ?? "";
+  const hasNationalPrefix =
+    nationalPrefix !== "" && numberDigits.startsWith(nationalPrefix);
+  const nationalNumber = hasNationalPrefix
+    ? numberDigits.slice(nationalPrefix.length)
+    : numberDigits;
+  const national = formatPartialGroups(
+    nationalNumber,
+    defaultPlan,
+    true,
+    hasNationalPrefix ? nationalPrefix : ""
+  );
+  if (national === null) return digits;
+  if (hasNationalPrefix && !national.startsWith(nationalPrefix)) {
+    // Prefixes not written in the national format (e.g. NANP "1") stand on their own
+    return national ? `${nationalPrefix} ${national}` : nationalPrefix;
+  }
+  return national || nationalPrefix;
+}
+
+/**
+ * Groups a partial national number using its numbering plan format
+ * Returns null when the number is too long for the plan
+ */
+function formatPartialGroups(
+  nationalNumber: string,
+  plan: PhoneNumberingPlan,
+  national: boolean,
+  nationalPrefix: string = ""
+): string | null {
+  if (nationalNumber === "") return "";
+  if (nationalNumber.length > Math.max(...plan.lengths)) return null;
+
+  const format = findPhoneNumberFormat(plan, nationalNumber);
+  const separator = plan.separator ?? " ";
+  const groups = format
+    ? splitPhoneNumberGroups(nationalNumber, format.groups)
+    : [nationalNumber];
+
+  if (!national) {
+    return groups.join(separator);
+  }
+
+  const [first, ...rest] = groups;
+  const firstGroup =
+    format?.nationalPrefix === false ? first : `${nationalPrefix}${first}`;
+
+  // Parentheses close once the next group has started: "(415", "(415) 5"
+  if (format?.parentheses) {
+    return rest.length > 0
+      ? `(${firstGroup}) ${rest.join(separator)}`
+      : `(${firstGroup}`;
+  }
+
+  return [firstGroup, ...rest].join(separator);
+}
+
+/**
+ * Counts the significant characters (digits, "+" and the extension "x") in formatted text
+ */
+function countSignificant(text: string): number {
+  return (text.match(/[\d+x]/g) ?? []).length;
+}
+
+/**
+ * Maps a position among significant characters to a caret position in formatted text
+ */
+function getCaret(text: string, position: number): number {
+  if (position === 0) return 0;
+  let count = 0;
+  for (let index = 0; index < text.length; index++) {
+    if (/[\d+x]/.test(text[index])) {
+      count++;
+      if (count === position) return index + 1;
+    }
+  }
+  return text.length;
+}
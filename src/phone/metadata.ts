@@ -0,0 +1,326 @@
+/**
+ * Bundled numbering-plan metadata for phone number parsing and formatting
+ *
+ * Each plan describes how a region writes its numbers: the country calling code,
+ * the national (trunk) prefix, the valid lengths of the national significant
+ * number and how its digits are grouped for display.
+ */
+
+/**
+ * Line type of a phone number
+ * - "fixed-line-or-mobile" is used where the numbering plan does not distinguish them (e.g. US)
+ */
+export type PhoneNumberType =
+  | "fixed-line"
+  | "mobile"
+  | "fixed-line-or-mobile"
+  | "toll-free"
+  | "premium"
+  | "unknown";
+
+/**
+ * Display format for a range of national numbers within a numbering plan
+ */
+export interface PhoneNumberFormat {
+  /**
+   * Pattern the start of the national significant number must match for this format to apply
+   * When omitted, the format applies to any number
+   */
+  leadingDigits?: RegExp;
+  /**
+   * Digit group sizes, e.g. [2, 4, 4] for "20 7946 0958"
+   * The last group absorbs any remaining digits
+   */
+  groups: number[];
+  /**
+   * Whether the national prefix is written before the first group in national display
+   * @default true
+   */
+  nationalPrefix?: boolean;
+  /**
+   * Whether the first group is wrapped in parentheses in national display
+   * @default false
+   */
+  parentheses?: boolean;
+}
+
+/**
+ * Numbering plan for a single region
+ */
+export interface PhoneNumberingPlan {
+  /** ISO 3166-1 alpha-2 region code (e.g., "GB") */
+  country: string;
+  /** Country calling code without the leading "+" (e.g., "44") */
+  callingCode: string;
+  /** Trunk prefix dialed before national numbers within the region (e.g., "0") */
+  nationalPrefix?: string;
+  /** Prefix dialed to reach other countries from the region (e.g., "00", "011") */
+  internationalPrefix: string;
+  /** Valid lengths of the national significant number */
+  lengths: number[];
+  /** Pattern matching every valid national significant number */
+  pattern: RegExp;
+  /** Patterns matching the national significant numbers of each line type */
+  types: Partial<Record<Exclude<PhoneNumberType, "unknown">, RegExp>>;
+  /**
+   * Separator placed between digit groups
+   * @default " "
+   */
+  separator?: string;
+  /**
+   * For regions sharing a calling code, pattern matching the national numbers that belong to this region
+   * The region without a pattern is the main region for its calling code
+   */
+  leadingDigits?: RegExp;
+  /** Display formats, checked in order */
+  formats: PhoneNumberFormat[];
+}
+
+/**
+ * North American Numbering Plan display format: (415) 555-0123
+ */
+const NANP_FORMATS: PhoneNumberFormat[] = [
+  { groups: [3, 3, 4], nationalPrefix: false, parentheses: true },
+];
+
+/**
+ * North American Numbering Plan line types (mobile and fixed-line share number ranges)
+ */
+const NANP_TYPES: PhoneNumberingPlan["types"] = {
+  "toll-free": /^8(?:00|33|44|55|66|77|88)[2-9]\d{6}$/,
+  premium: /^900[2-9]\d{6}$/,
+  "fixed-line-or-mobile": /^[2-9]\d{2}[2-9]\d{6}$/,
+};
+
+/**
+ * Bundled numbering plans
+ * @internal
+ */
+const PHONE_NUMBERING_PLANS: PhoneNumberingPlan[] = [
+  {
+    country: "US",
+    callingCode: "1",
+    nationalPrefix: "1",
+    internationalPrefix: "011",
+    lengths: [10],
+    pattern: /^[2-9]\d{2}[2-9]\d{6}$/,
+    types: NANP_TYPES,
+    separator: "-",
+    formats: NANP_FORMATS,
+  },
+  {
+    country: "CA",
+    callingCode: "1",
+    nationalPrefix: "1",
+    internationalPrefix: "011",
+    lengths: [10],
+    pattern: /^[2-9]\d{2}[2-9]\d{6}$/,
+    types: NANP_TYPES,
+    separator: "-",
+    leadingDigits:
+      /^(?:204|226|236|249|250|257|263|289|306|343|354|365|367|368|382|403|416|418|428|431|437|438|450|468|474|506|514|519|548|579|581|584|587|604|613|639|647|672|683|705|709|742|753|778|780|782|807|819|825|867|873|879|902|905|942)/,
+    formats: NANP_FORMATS,
+  },
+  {
+    country: "GB",
+    callingCode: "44",
+    nationalPrefix: "0",
+    internationalPrefix: "00",
+    lengths: [9, 10],
+    pattern: /^(?:[1-357-9]\d{8,9})$/,
+    types: {
+      "toll-free": /^80(?:0\d{6,7}|8\d{7})$/,
+      premium: /^9[018]\d{8}$/,
+      mobile: /^7[1-57-9]\d{8}$/,
+      "fixed-line": /^[12]\d{8,9}$/,
+    },
+    formats: [
+      { leadingDigits: /^2/, groups: [2, 4, 4] },
+      { leadingDigits: /^1(?:1|\d1)/, groups: [3, 3, 4] },
+      { leadingDigits: /^7/, groups: [4, 6] },
+      { leadingDigits: /^[389]/, groups: [3, 3, 4] },
+      { groups: [4, 6] },
+    ],
+  },
+  {
+    country: "IE",
+    callingCode: "353",
+    nationalPrefix: "0",
+    internationalPrefix: "00",
+    lengths: [7, 8, 9, 10],
+    pattern: /^(?:1\d{7,9}|[2-9]\d{6,8})$/,
+    types: {
+      "toll-free": /^1800\d{6}$/,
+      premium: /^15[2-9]\d{7}$/,
+      mobile: /^8[35-9]\d{7}$/,
+      "fixed-line": /^(?:1\d{7}|[2-79]\d{6,8})$/,
+    },
+    formats: [
+      { leadingDigits: /^1(?:5|800)/, groups: [4, 3, 3], nationalPrefix: false },
+      { leadingDigits: /^1/, groups: [1, 3, 4] },
+      { groups: [2, 3, 4] },
+    ],
+  },
+  {
+    country: "DE",
+    callingCode: "49",
+    nationalPrefix: "0",
+    internationalPrefix: "00",
+    lengths: [6, 7, 8, 9, 10, 11],
+    pattern: /^[1-9]\d{5,10}$/,
+    types: {
+      "toll-free": /^800\d{7,8}$/,
+      premium: /^900\d{7,8}$/,
+      mobile: /^1(?:5\d{9}|[67]\d{8,9})$/,
+      "fixed-line": /^[2-9]\d{5,10}$/,
+    },
+    formats: [
+      { leadingDigits: /^1[5-7]/, groups: [3, 8] },
+      { leadingDigits: /^(?:180|800|900)/, groups: [3, 7] },
+      { leadingDigits: /^(?:30|40|69|89)/, groups: [2, 8] },
+      { leadingDigits: /^[2-9]\d1/, groups: [3, 8] },
+      { groups: [4, 7] },
+    ],
+  },
+  {
+    country: "FR",
+    callingCode: "33",
+    nationalPrefix: "0",
+    internationalPrefix: "00",
+    lengths: [9],
+    pattern: /^[1-9]\d{8}$/,
+    types: {
+      "toll-free": /^80\d{7}$/,
+      premium: /^89\d{7}$/,
+      mobile: /^[67]\d{8}$/,
+      "fixed-line": /^[1-59]\d{8}$/,
+    },
+    formats: [{ groups: [1, 2, 2, 2, 2] }],
+  },
+  {
+    country: "ES",
+    callingCode: "34",
+    internationalPrefix: "00",
+    lengths: [9],
+    pattern: /^[5-9]\d{8}$/,
+    types: {
+      "toll-free": /^[89]00\d{6}$/,
+      premium: /^80[3-7]\d{6}$/,
+      mobile: /^(?:6\d|7[1-9])\d{7}$/,
+      "fixed-line": /^[89][1-8]\d{7}$/,
+    },
+    formats: [
+      { leadingDigits: /^[89]00/, groups: [3, 3, 3] },
+      { groups: [3, 2, 2, 2] },
+    ],
+  },
+  {
+    country: "AU",
+    callingCode: "61",
+    nationalPrefix: "0",
+    internationalPrefix: "0011",
+    lengths: [9, 10],
+    pattern: /^(?:[2-478]\d{8}|1[389]00\d{6})$/,
+    types: {
+      "toll-free": /^1800\d{6}$/,
+      premium: /^1900\d{6}$/,
+      mobile: /^4\d{8}$/,
+      "fixed-line": /^[2378]\d{8}$/,
+    },
+    formats: [
+      { leadingDigits: /^1[389]00/, groups: [4, 3, 3], nationalPrefix: false },
+      { leadingDigits: /^4/, groups: [3, 3, 3] },
+      { leadingDigits: /^[2378]/, groups: [1, 4, 4], parentheses: true },
+      { groups: [3, 3, 3] },
+    ],
+  },
+  {
+    country: "NZ",
+    callingCode: "64",
+    nationalPrefix: "0",
+    internationalPrefix: "00",
+    lengths: [8, 9, 10],
+    pattern: /^(?:[3-79]\d{7}|2\d{7,9}|[89]00\d{6,7})$/,
+    types: {
+      "toll-free": /^800\d{6,7}$/,
+      premium: /^900\d{6,7}$/,
+      mobile: /^2\d{7,9}$/,
+      "fixed-line": /^[3-79]\d{7}$/,
+    },
+    formats: [
+      { leadingDigits: /^[89]00/, groups: [3, 3, 3] },
+      { leadingDigits: /^2/, groups: [2, 3, 3] },
+      { groups: [1, 3, 4] },
+    ],
+  },
+  {
+    country: "MX",
+    callingCode: "52",
+    internationalPrefix: "00",
+    lengths: [10],
+    pattern: /^[1-9]\d{9}$/,
+    types: {
+      "toll-free": /^800\d{7}$/,
+      premium: /^900\d{7}$/,
+      "fixed-line-or-mobile": /^[1-9]\d{9}$/,
+    },
+    formats: [
+      { leadingDigits: /^(?:33|55|81)/, groups: [2, 4, 4] },
+      { groups: [3, 3, 4] },
+    ],
+  },
+];
+
+/**
+ * Gets the bundled numbering plan for a region
+ *
+ * @param country - ISO 3166-1 alpha-2 region code (case-insensitive)
+ * @returns The numbering plan, or undefined if the region is not bundled
+ *
+ * @example
+ * ```ts
+ * getPhoneNumberingPlan("GB")?.callingCode // "44"
+ * getPhoneNumberingPlan("gb")?.nationalPrefix // "0"
+ * getPhoneNumberingPlan("ZZ") // undefined
+ * ```
+ */
+export function getPhoneNumberingPlan(
+  country: string
+): PhoneNumberingPlan | undefined {
+  const code = country.trim().toUpperCase();
+  return PHONE_NUMBERING_PLANS.find((plan) => plan.country === code);
+}
+
+/**
+ * Splits a string of international digits into its calling code and national number
+ * Calling codes are prefix-free, so the first bundled match is the only match
+ * @internal
+ */
+export function splitCallingCode(
+  digits: string
+): { callingCode: string; nationalNumber: string } | null {
+  for (let length = 1; length <= 3; length++) {
+    const callingCode = digits.slice(0, length);
+    if (PHONE_NUMBERING_PLANS.some((plan) => plan.callingCode === callingCode)) {
+      return { callingCode, nationalNumber: digits.slice(length) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Finds the region a national number belongs to within a calling code
+ * @internal
+ */
+export function getPhoneNumberingPlanForNumber(
+  callingCode: string,
+  nationalNumber: string
+): PhoneNumberingPlan | undefined {
+  const plans = PHONE_NUMBERING_PLANS.filter(
+    (plan) => plan.callingCode === callingCode
+  );
+  return (
+    plans.find((plan) => plan.leadingDigits?.test(nationalNumber)) ??
+    plans.find((plan) => !plan.leadingDigits)
+  );
+}
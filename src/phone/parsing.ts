@@ -0,0 +1,239 @@
+/**
+ * Phone number parsing utilities
+ *
+ * Internal helpers shared by the phone formatting functions
+ */
+
+import {
+  PhoneNumberFormat,
+  PhoneNumberingPlan,
+  getPhoneNumberingPlan,
+  getPhoneNumberingPlanForNumber,
+  splitCallingCode,
+} from "./metadata";
+
+/**
+ * Parses a phone number string into its components
+ * @internal
+ */
+export interface PhoneComponents {
+  countryCode: string;
+  /** ISO 3166-1 alpha-2 region the number belongs to, when it could be determined */
+  country: string;
+  /** National significant number (digits after the calling code and national prefix) */
+  nationalNumber: string;
+  areaCode: string;
+  exchange: string;
+  number: string;
+  extension: string;
+  conferenceParts: string[];
+  /** Whether the number was written with a calling code that is not bundled (e.g. "+81 ...") */
+  unknownCallingCode: boolean;
+}
+
+/**
+ * Extracts phone number components from a string
+ *
+ * Numbers written with a "+" prefix (or the default country's international prefix)
+ * are resolved through the bundled numbering plans. National numbers are read using
+ * the default country's plan when one is given, otherwise as NANP (US/Canada) numbers.
+ * @internal
+ */
+export function parsePhoneNumber(
+  phone: string,
+  defaultCountry?: string
+): PhoneComponents & { phoneWithoutExtension: string } {
+  const result: PhoneComponents & { phoneWithoutExtension: string } = {
+    countryCode: "",
+    country: "",
+    nationalNumber: "",
+    areaCode: "",
+    exchange: "",
+    number: "",
+    extension: "",
+    conferenceParts: [],
+    unknownCallingCode: false,
+    phoneWithoutExtension: phone,
+  };
+
+  // Check if this is a conference call format (contains commas, #, or *)
+  const hasConferenceFormat =
+    phone.includes(",") || phone.includes("#") || phone.includes("*");
+
+  if (hasConferenceFormat) {
+    // Preserve conference format
+    result.conferenceParts = phone.split(",");
+    return result;
+  }
+
+  // Extract extension (look for 'x', 'ext', 'extension', 'ext.', etc.)
+  const extensionMatch = phone.match(
+    /[xX](?:\s*)(\d+)|(?:ext|extension|ext\.)[\s:]*(\d+)/i
+  );
+  if (extensionMatch) {
+    result.extension = extensionMatch[1] || extensionMatch[2] || "";
+    phone = phone.substring(0, extensionMatch.index!);
+    result.phoneWithoutExtension = phone;
+  }
+
+  // Extract only digits from the main phone number
+  let digits = phone.replace(/\D/g, "");
+
+  // Numbers outside the North American Numbering Plan are read from the bundled metadata
+  const international = parseInternationalDigits(phone, digits, defaultCountry);
+  if (international === "unknown") {
+    // Never read a calling code that is not bundled as a NANP number
+    result.unknownCallingCode = true;
+    return result;
+  }
+  if (international) {
+    if (international.callingCode !== "1") {
+      result.countryCode = international.callingCode;
+      result.country = international.country;
+      result.nationalNumber = international.nationalNumber;
+      return result;
+    }
+    digits = `1${international.nationalNumber}`;
+  }
+
+  // Handle US numbers (10 or 11 digits)
+  if (digits.length === 11 && digits.startsWith("1")) {
+    result.countryCode = "1";
+    const rest = digits.slice(1);
+    if (rest.length === 10) {
+      result.areaCode = rest.slice(0, 3);
+      result.exchange = rest.slice(3, 6);
+      result.number = rest.slice(6);
+    }
+  } else if (digits.length === 10) {
+    result.areaCode = digits.slice(0, 3);
+    result.exchange = digits.slice(3, 6);
+    result.number = digits.slice(6);
+  } else if (digits.length > 0) {
+    // For other lengths, try to parse as best we can
+    // Assume first 3 digits are area code if we have at least 7 digits
+    if (digits.length >= 7) {
+      result.areaCode = digits.slice(0, 3);
+      result.exchange = digits.slice(3, 6);
+      result.number = digits.slice(6);
+    } else {
+      // Just store as number if too short
+      result.number = digits;
+    }
+  }
+
+  // Complete NANP numbers also get a national number and region
+  const nanpNumber = result.areaCode + result.exchange + result.number;
+  if (nanpNumber.length === 10) {
+    result.nationalNumber = nanpNumber;
+    result.country =
+      getPhoneNumberingPlanForNumber("1", nanpNumber)?.country ?? "";
+  }
+
+  return result;
+}
+
+/**
+ * Resolves the calling code and national number of a number using the bundled metadata
+ * Returns null when the number should be read with the NANP rules, and "unknown" when
+ * it is written with a calling code that is not bundled
+ */
+function parseInternationalDigits(
+  phone: string,
+  digits: string,
+  defaultCountry?: string
+):
+  | { callingCode: string; nationalNumber: string; country: string }
+  | "unknown"
+  | null {
+  if (digits === "") return null;
+
+  const defaultPlan = defaultCountry
+    ? getPhoneNumberingPlan(defaultCountry)
+    : undefined;
+
+  // "+44 ..." or, when dialed from the default country, "0044 ..."
+  let internationalDigits: string | null = null;
+  if (phone.trim().startsWith("+")) {
+    internationalDigits = digits;
+  } else if (
+    defaultPlan &&
+    digits.startsWith(defaultPlan.internationalPrefix)
+  ) {
+    internationalDigits = digits.slice(defaultPlan.internationalPrefix.length);
+  }
+
+  if (internationalDigits !== null) {
+    const split = splitCallingCode(internationalDigits);
+    if (!split) return "unknown";
+    const plan = getPhoneNumberingPlanForNumber(
+      split.callingCode,
+      split.nationalNumber
+    );
+    if (!plan) return "unknown";
+    // Tolerate a national prefix written after the calling code, e.g. "+44 (0)20 7946 0958"
+    const nationalNumber =
+      plan.nationalPrefix &&
+      split.nationalNumber.startsWith(plan.nationalPrefix) &&
+      plan.lengths.includes(
+        split.nationalNumber.length - plan.nationalPrefix.length
+      )
+        ? split.nationalNumber.slice(plan.nationalPrefix.length)
+        : split.nationalNumber;
+    return {
+      callingCode: plan.callingCode,
+      nationalNumber,
+      country: plan.country,
+    };
+  }
+
+  // National number dialed within a default country outside the NANP
+  if (defaultPlan && defaultPlan.callingCode !== "1") {
+    const nationalNumber =
+      defaultPlan.nationalPrefix &&
+      digits.startsWith(defaultPlan.nationalPrefix)
+        ? digits.slice(defaultPlan.nationalPrefix.length)
+        : digits;
+    return {
+      callingCode: defaultPlan.callingCode,
+      nationalNumber,
+      country: defaultPlan.country,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Finds the display format for a national number within a numbering plan
+ * @internal
+ */
+export function findPhoneNumberFormat(
+  plan: PhoneNumberingPlan,
+  nationalNumber: string
+): PhoneNumberFormat | undefined {
+  return plan.formats.find(
+    (format) =>
+      !format.leadingDigits || format.leadingDigits.test(nationalNumber)
+  );
+}
+
+/**
+ * Splits a national number into display groups
+ * The last group absorbs any remaining digits
+ * @internal
+ */
+export function splitPhoneNumberGroups(
+  nationalNumber: string,
+  groups: number[]
+): string[] {
+  const result: string[] = [];
+  let index = 0;
+  groups.forEach((size, i) => {
+    if (index >= nationalNumber.length) return;
+    const end = i === groups.length - 1 ? nationalNumber.length : index + size;
+    result.push(nationalNumber.slice(index, end));
+    index = end;
+  });
+  return result;
+}
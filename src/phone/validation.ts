@@ -0,0 +1,234 @@
+/**
+ * Phone number validation utilities
+ *
+ * Functions for checking phone numbers against the bundled numbering plans
+ */
+
+import { toString } from "../string";
+import { isNullOrUndefined } from "../is";
+import { parsePhoneNumber } from "./parsing";
+import {
+  PhoneNumberType,
+  PhoneNumberingPlan,
+  getPhoneNumberingPlan,
+  getPhoneNumberingPlanForNumber,
+} from "./metadata";
+
+/**
+ * Outcome of validating a phone number
+ * - "valid": the number is valid for its region
+ * - "invalid-number": the length is possible but the number is not in use by the region's plan
+ * - "invalid-length": the length is within the region's range but not one it uses
+ * - "too-short" / "too-long": the national number has too few or too many digits
+ * - "invalid-country-code": the calling code or country is not a bundled region
+ * - "empty": no number was provided
+ */
+export type PhoneValidationStatus =
+  | "valid"
+  | "invalid-number"
+  | "invalid-length"
+  | "too-short"
+  | "too-long"
+  | "invalid-country-code"
+  | "empty";
+
+/**
+ * Result of validating a phone number
+ */
+export interface PhoneValidationResult {
+  /** Whether the number is valid for its region */
+  valid: boolean;
+  /** Whether the number has a length the region uses (valid numbers are always possible) */
+  possible: boolean;
+  /** Detailed validation outcome */
+  status: PhoneValidationStatus;
+  /** Detected line type ("unknown" unless the number is valid) */
+  type: PhoneNumberType;
+  /** ISO 3166-1 alpha-2 region of the number, or null if unknown */
+  country: string | null;
+  /** Country calling code without the leading "+", or null if unknown */
+  countryCode: string | null;
+  /** National significant number, or null if there were no digits */
+  nationalNumber: string | null;
+  /** Extension digits, or null if there was no extension */
+  extension: string | null;
+}
+
+/**
+ * Options for validating phone numbers
+ */
+export interface ValidatePhoneOptions {
+  /**
+   * Region (ISO 3166-1 alpha-2, e.g. "GB") used to read numbers written without a "+" prefix
+   * Numbers are read as US/Canada numbers when not specified
+   */
+  country?: string;
+}
+
+/**
+ * Line types in the order they are checked (most specific ranges first)
+ */
+const TYPE_ORDER: Exclude<PhoneNumberType, "unknown">[] = [
+  "toll-free",
+  "premium",
+  "mobile",
+  "fixed-line",
+  "fixed-line-or-mobile",
+];
+
+/**
+ * Validates a phone number against the bundled numbering plans and detects its line type
+ *
+ * Conference call strings ("8662345689,223345099#") are validated by their dialed number.
+ *
+ * @param phone - The phone number to validate (string or number)
+ * @param options - Validation options
+ * @returns A structured validation result
+ *
+ * @example
+ * ```ts
+ * validatePhone("(415) 555-0123") // { valid: true, possible: true, status: "valid", type: "fixed-line-or-mobile", country: "US", ... }
+ * validatePhone("800-555-0123").type // "toll-free"
+ * validatePhone("07700 900123", { country: "GB" }).type // "mobile"
+ * validatePhone("555-0123").status // "too-short"
+ * validatePhone("123-456-7890").status // "invalid-number" (NANP area codes cannot start with 1)
+ * validatePhone("+999 1234 5678").status // "invalid-country-code"
+ * ```
+ */
+export function validatePhone(
+  phone: unknown,
+  options: ValidatePhoneOptions = {}
+): PhoneValidationResult {
+  const result: PhoneValidationResult = {
+    valid: false,
+    possible: false,
+    status: "empty",
+    type: "unknown",
+    country: null,
+    countryCode: null,
+    nationalNumber: null,
+    extension: null,
+  };
+
+  if (isNullOrUndefined(phone)) {
+    return result;
+  }
+
+  let phoneStr = toString(phone, "").trim();
+
+  // Conference call strings are validated by the number that is dialed first
+  if (/[,#*]/.test(phoneStr)) {
+    phoneStr = phoneStr.split(/[,#*]/)[0].trim();
+  }
+
+  const components = parsePhoneNumber(phoneStr, options.country);
+  const digits = components.phoneWithoutExtension.replace(/\D/g, "");
+  result.extension = components.extension || null;
+
+  if (digits === "") {
+    return result;
+  }
+
+  // National numbers for a country that is not bundled cannot be validated
+  if (
+    options.country &&
+    !getPhoneNumberingPlan(options.country) &&
+    !phoneStr.startsWith("+")
+  ) {
+    result.status = "invalid-country-code";
+    result.nationalNumber = digits;
+    return result;
+  }
+
+  if (components.unknownCallingCode) {
+    result.status = "invalid-country-code";
+    result.nationalNumber = digits;
+    return result;
+  }
+
+  let countryCode = components.countryCode;
+  let nationalNumber = components.nationalNumber;
+
+  // Incomplete NANP numbers and unknown calling codes are not fully parsed
+  if (!nationalNumber) {
+    if (components.phoneWithoutExtension.trim().startsWith("+")) {
+      if (!digits.startsWith("1")) {
+        result.status = "invalid-country-code";
+        result.nationalNumber = digits;
+        return result;
+      }
+      nationalNumber = digits.slice(1);
+    } else {
+      nationalNumber =
+        digits.length === 11 && digits.startsWith("1")
+          ? digits.slice(1)
+          : digits;
+    }
+    countryCode = "1";
+  }
+
+  const plan = components.country
+    ? getPhoneNumberingPlan(components.country)
+    : getPhoneNumberingPlanForNumber(countryCode || "1", nationalNumber);
+
+  result.countryCode = countryCode || "1";
+  result.nationalNumber = nationalNumber;
+
+  if (!plan) {
+    result.status = "invalid-country-code";
+    return result;
+  }
+
+  result.country = plan.country;
+  const lengthStatus = getLengthStatus(plan, nationalNumber);
+  if (lengthStatus) {
+    result.status = lengthStatus;
+    return result;
+  }
+
+  result.possible = true;
+  if (!plan.pattern.test(nationalNumber)) {
+    result.status = "invalid-number";
+    return result;
+  }
+
+  result.valid = true;
+  result.status = "valid";
+  result.type =
+    TYPE_ORDER.find((type) => plan.types[type]?.test(nationalNumber)) ??
+    "unknown";
+  return result;
+}
+
+/**
+ * Checks if a value is a valid phone number according to the bundled numbering plans
+ *
+ * @param phone - The phone number to check (string or number)
+ * @param country - Region (ISO 3166-1 alpha-2) used to read numbers written without a "+" prefix
+ * @returns True if the value is a valid phone number
+ *
+ * @example
+ * ```ts
+ * isValidPhone("(415) 555-0123") // true
+ * isValidPhone("020 7946 0958", "GB") // true
+ * isValidPhone("12345") // false
+ * ```
+ */
+export function isValidPhone(phone: unknown, country?: string): boolean {
+  return validatePhone(phone, { country }).valid;
+}
+
+/**
+ * Compares the length of a national number against the lengths a plan uses
+ * Returns null when the length is possible
+ */
+function getLengthStatus(
+  plan: PhoneNumberingPlan,
+  nationalNumber: string
+): "too-short" | "too-long" | "invalid-length" | null {
+  const length = nationalNumber.length;
+  if (length < Math.min(...plan.lengths)) return "too-short";
+  if (length > Math.max(...plan.lengths)) return "too-long";
+  if (!plan.lengths.includes(length)) return "invalid-length";
+  return null;
+}
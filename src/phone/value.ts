@@ -0,0 +1,182 @@
+/**
+ * Structured phone number values
+ *
+ * An immutable object describing a parsed phone number, for callers that need
+ * more than a formatted string (e.g. comparing two user-entered numbers)
+ */
+
+import { toString } from "../string";
+import { isNullOrUndefined } from "../is";
+import { parsePhoneNumber } from "./parsing";
+import { PhoneNumberType } from "./metadata";
+import { FormatPhoneOptions, formatPhone } from "./formatting";
+import { validatePhone } from "./validation";
+
+/**
+ * Style accepted by `PhoneNumber.format`
+ */
+export type PhoneFormatStyle = NonNullable<FormatPhoneOptions["style"]>;
+
+/**
+ * A parsed phone number
+ */
+export interface PhoneNumber {
+  /** The text the number was parsed from */
+  readonly input: string;
+  /** Country calling code without the leading "+", or null if unknown */
+  readonly countryCode: string | null;
+  /** ISO 3166-1 alpha-2 region of the number, or null if unknown */
+  readonly country: string | null;
+  /** National significant number (for conference sequences, of the number dialed first) */
+  readonly nationalNumber: string | null;
+  /** Extension digits, or null if there was no extension */
+  readonly extension: string | null;
+  /** Comma-separated parts of a conference sequence, or an empty array */
+  readonly conferenceParts: readonly string[];
+  /** Whether the number is a conference sequence ("8662345689,223345099#") */
+  readonly isConference: boolean;
+  /** Whether the number is valid for its region */
+  readonly valid: boolean;
+  /** Whether the number has a length its region uses */
+  readonly possible: boolean;
+  /** Detected line type ("unknown" unless the number is valid) */
+  readonly type: PhoneNumberType;
+  /**
+   * Formats the number using one of the `formatPhone` styles
+   * @param style - Format style (defaults to "parentheses")
+   * @returns The formatted number, or null if it cannot be written in that style
+   */
+  format(style?: PhoneFormatStyle): string | null;
+  /**
+   * Checks if another number is the same number, regardless of how it was written
+   * Strings are parsed using the country this number was parsed with, or else the country it belongs to
+   * @param other - A parsed phone number or a value to parse
+   * @returns True if both numbers have the same calling code, national number, extension and conference parts
+   */
+  equals(other: unknown): boolean;
+}
+
+/**
+ * Options for parsing phone numbers
+ */
+export interface ParsePhoneOptions {
+  /**
+   * Region (ISO 3166-1 alpha-2, e.g. "GB") used to read numbers written without a "+" prefix
+   * Numbers are read as US/Canada numbers when not specified
+   */
+  country?: string;
+}
+
+/**
+ * Parses a phone number into an immutable structured value
+ *
+ * @param phone - The phone number to parse (string or number)
+ * @param options - Parsing options
+ * @returns The parsed phone number, or null if the value contains no digits
+ *
+ * @example
+ * ```ts
+ * const phone = parsePhone("(415) 555-0123 ext. 42");
+ * phone?.countryCode // "1"
+ * phone?.nationalNumber // "4155550123"
+ * phone?.extension // "42"
+ * phone?.valid // true
+ * phone?.format("e164") // "+14155550123"
+ * phone?.equals("+1 415.555.0123 x42") // true
+ *
+ * parsePhone("020 7946 0958", { country: "GB" })?.equals("+44 20 7946 0958") // true
+ * parsePhone("8662345689,223345099#")?.conferenceParts // ["8662345689", "223345099#"]
+ * parsePhone("call me") // null
+ * ```
+ */
+export function parsePhone(
+  phone: unknown,
+  options: ParsePhoneOptions = {}
+): PhoneNumber | null {
+  if (isNullOrUndefined(phone)) return null;
+
+  const { country } = options;
+  const input = toString(phone, "").trim();
+  const validation = validatePhone(input, { country });
+  if (validation.status === "empty") return null;
+
+  const conferenceParts = Object.freeze(
+    parsePhoneNumber(input, country).conferenceParts.map((part) => part.trim())
+  );
+  const isConference = conferenceParts.length > 0;
+  const key = getPhoneKey(
+    validation.countryCode,
+    validation.nationalNumber,
+    validation.extension,
+    conferenceParts
+  );
+
+  const phoneNumber: PhoneNumber = {
+    input,
+    countryCode: validation.countryCode,
+    country: validation.country,
+    nationalNumber: validation.nationalNumber,
+    extension: validation.extension,
+    conferenceParts,
+    isConference,
+    valid: validation.valid,
+    possible: validation.possible,
+    type: validation.type,
+    format(style: PhoneFormatStyle = "parentheses"): string | null {
+      return formatPhone(input, { style, country }) ?? null;
+    },
+    equals(other: unknown): boolean {
+      const parsed = isPhoneNumber(other)
+        ? other
+        : parsePhone(other, {
+            ...options,
+            country: options.country ?? validation.country ?? undefined,
+          });
+      if (!parsed) return false;
+      return (
+        getPhoneKey(
+          parsed.countryCode,
+          parsed.nationalNumber,
+          parsed.extension,
+          parsed.conferenceParts
+        ) === key
+      );
+    },
+  };
+
+  return Object.freeze(phoneNumber);
+}
+
+/**
+ * Builds a comparison key from the parts that identify a number
+ */
+function getPhoneKey(
+  countryCode: string | null,
+  nationalNumber: string | null,
+  extension: string | null,
+  conferenceParts: readonly string[]
+): string {
+  // The first conference part is the dialed number; the rest are dialed as written
+  const sequence = conferenceParts
+    .slice(1)
+    .map((part) => part.replace(/[^\d*#]/g, ""));
+  return [
+    countryCode ?? "",
+    nationalNumber ?? "",
+    extension ?? "",
+    ...sequence,
+  ].join(",");
+}
+
+/**
+ * Checks if a value is a phone number returned by `parsePhone`
+ */
+function isPhoneNumber(value: unknown): value is PhoneNumber {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "nationalNumber" in value &&
+    "conferenceParts" in value &&
+    typeof (value as PhoneNumber).equals === "function"
+  );
+}
@@ -0,0 +1,369 @@
+/**
+ * URL canonicalization utilities
+ *
+ * Functions for reducing equivalent URLs to a single string, e.g. for use as dedupe keys
+ */
+
+import { toString } from "../string";
+import { isNullOrUndefined } from "../is";
+import { removeDotSegments, startsWithDomain } from "./parsing";
+
+/**
+ * Options for canonicalizing URLs
+ * Every rule is enabled by default
+ */
+export interface CanonicalizeUrlOptions {
+  /**
+   * Default value to return if the URL is null/undefined/empty, cannot be parsed or canonicalizes to nothing
+   * @default null
+   */
+  defaultValue?: string | null;
+  /**
+   * Protocol to use for protocol-relative URLs and URLs without a protocol ("example.com/path")
+   * @default "https"
+   */
+  defaultProtocol?: "http" | "https";
+  /**
+   * Whether to lowercase the host name
+   * @default true
+   */
+  lowercaseHost?: boolean;
+  /**
+   * Whether to convert internationalized host names to punycode ("bücher.example" → "xn--bcher-kva.example")
+   * @default true
+   */
+  punycode?: boolean;
+  /**
+   * Whether to remove ports that are the default for the protocol (":443" for https)
+   * @default true
+   */
+  removeDefaultPort?: boolean;
+  /**
+   * Whether to resolve "./" and "../" path segments
+   * @default true
+   */
+  resolveDotSegments?: boolean;
+  /**
+   * Whether to remove the trailing slash from paths ("/docs/" → "/docs", "/" → "")
+   * @default true
+   */
+  removeTrailingSlash?: boolean;
+  /**
+   * Whether to uppercase percent-encodings, decode unreserved characters ("%7e" → "~")
+   * and encode characters that must be escaped ("a b" → "a%20b")
+   * @default true
+   */
+  normalizeEncoding?: boolean;
+  /**
+   * Whether to sort query parameters by key (repeated keys keep their relative order)
+   * @default true
+   */
+  sortQuery?: boolean;
+  /**
+   * Tracking parameters to remove: true for the built-in list (utm_*, fbclid, gclid, ...),
+   * false to keep every parameter, or a list of names and patterns to remove instead
+   * @default true
+   */
+  removeTrackingParams?: boolean | (string | RegExp)[];
+  /**
+   * Whether to remove the fragment ("#section")
+   * @default true
+   */
+  removeHash?: boolean;
+}
+
+/**
+ * Query parameters added by analytics and ad platforms
+ */
+const TRACKING_PARAMS: (string | RegExp)[] = [
+  /^utm_/i,
+  "fbclid",
+  "gclid",
+  "gclsrc",
+  "dclid",
+  "gbraid",
+  "wbraid",
+  "msclkid",
+  "twclid",
+  "ttclid",
+  "yclid",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "_ga",
+  "_gl",
+  "_hsenc",
+  "_hsmi",
+];
+
+/**
+ * Ports implied by each protocol
+ */
+const DEFAULT_PORTS: Record<string, string> = {
+  http: "80",
+  https: "443",
+  ws: "80",
+  wss: "443",
+  ftp: "21",
+};
+
+/**
+ * Canonicalizes a URL so that equivalent URLs produce the same string
+ *
+ * Paths without a host ("/docs/../about") are canonicalized too; only the path,
+ * query and fragment rules apply to them.
+ *
+ * @param url - The URL to canonicalize
+ * @param options - Canonicalization rules (all enabled by default)
+ * @returns The canonical URL, or the default value if the URL is empty or invalid
+ *
+ * @example
+ * ```ts
+ * canonicalizeUrl("HTTPS://Example.COM:443/a/./b/../c/?utm_source=x&b=2&a=1#top")
+ * // "https://example.com/a/c?a=1&b=2"
+ * canonicalizeUrl("example.com/path/") // "https://example.com/path"
+ * canonicalizeUrl("http://bücher.example/%7euser") // "http://xn--bcher-kva.example/~user"
+ * canonicalizeUrl("https://example.com/?fbclid=abc") // "https://example.com"
+ * canonicalizeUrl("https://example.com/#top", { removeHash: false }) // "https://example.com#top"
+ * canonicalizeUrl("https://example.com/?ref=1", { removeTrackingParams: ["ref"] }) // "https://example.com"
+ * canonicalizeUrl("https://exa mple.com") // null
+ * canonicalizeUrl("http:///path") // null
+ * canonicalizeUrl("?utm_source=x") // null
+ * ```
+ */
+export function canonicalizeUrl<T extends string | null | undefined>(
+  url: unknown,
+  options: CanonicalizeUrlOptions = {}
+): string | T {
+  const defaultValue = options.defaultValue ?? (null as T);
+
+  if (isNullOrUndefined(url)) {
+    return defaultValue as string | T;
+  }
+
+  let urlStr = toString(url, "").trim();
+  if (urlStr === "") {
+    return defaultValue as string | T;
+  }
+
+  // Protocol-relative URLs and bare domains get the default protocol
+  const defaultProtocol = options.defaultProtocol ?? "https";
+  if (urlStr.startsWith("//")) {
+    urlStr = `${defaultProtocol}:${urlStr}`;
+  } else if (
+    !/^[a-z][a-z\d+.-]*:\/\//i.test(urlStr) &&
+    startsWithDomain(urlStr)
+  ) {
+    urlStr = `${defaultProtocol}://${urlStr}`;
+  }
+
+  const match = urlStr.match(
+    /^(?:([a-z][a-z\d+.-]*):\/\/([^/?#]*))?([^?#]*)(?:\?([^#]*))?(?:#(.*))?$/i
+  );
+  if (!match) {
+    return defaultValue as string | T;
+  }
+
+  const [, scheme, authority, rawPath, rawQuery, rawHash] = match;
+  let result = "";
+
+  if (scheme !== undefined) {
+    const protocol = scheme.toLowerCase();
+    const canonicalAuthority = canonicalizeAuthority(
+      protocol,
+      authority,
+      options
+    );
+    if (canonicalAuthority === null) {
+      return defaultValue as string | T;
+    }
+    result = `${protocol}://${canonicalAuthority}`;
+  }
+
+  result += canonicalizePath(rawPath, scheme !== undefined, options);
+
+  const query = canonicalizeQuery(rawQuery ?? "", options);
+  if (query) {
+    result += `?${query}`;
+  }
+
+  if (rawHash !== undefined && !(options.removeHash ?? true)) {
+    result += `#${
+      (options.normalizeEncoding ?? true)
+        ? normalizePercentEncoding(rawHash, /[^\w\-.~!$&'()*+,;=:@/?%]/gu)
+        : rawHash
+    }`;
+  }
+
+  // Nothing is left of URLs like "?" or "#top"
+  return result === "" ? (defaultValue as string | T) : result;
+}
+
+/**
+ * Canonicalizes the "user:password@host:port" part of a URL
+ * Returns null when the host or port (0-65535) is invalid, or the host is missing from a
+ * non-file URL
+ */
+function canonicalizeAuthority(
+  protocol: string,
+  authority: string,
+  options: CanonicalizeUrlOptions
+): string | null {
+  const atIndex = authority.lastIndexOf("@");
+  const userInfo = atIndex === -1 ? "" : authority.substring(0, atIndex + 1);
+  const hostPort = authority.substring(atIndex + 1);
+
+  const hostMatch = hostPort.match(/^(\[[^\]]*\]|[^:]*)(?::(\d*))?$/);
+  if (!hostMatch) return null;
+  let host = hostMatch[1];
+  let port = hostMatch[2] ?? "";
+
+  if (options.lowercaseHost ?? true) {
+    host = host.toLowerCase();
+  }
+  if (options.punycode ?? true) {
+    const encoded = toPunycodeHost(host);
+    if (encoded === null) return null;
+    host = encoded;
+  }
+  if (/[\s<>"{}|\\^`]/.test(host)) return null;
+  if (host === "" && protocol !== "file") return null;
+
+  // Ports are 16-bit numbers; leading zeros are dropped as the URL parser does
+  if (port !== "") {
+    const portNumber = Number(port);
+    if (portNumber > 65535) return null;
+    port = String(portNumber);
+  }
+
+  if ((options.removeDefaultPort ?? true) && DEFAULT_PORTS[protocol] === port) {
+    port = "";
+  }
+
+  return `${userInfo}${host}${port ? `:${port}` : ""}`;
+}
+
+/**
+ * Converts the non-ASCII labels of a host name to punycode
+ * Returns null when a label cannot be converted
+ */
+function toPunycodeHost(host: string): string | null {
+  const labels: string[] = [];
+  for (const label of host.split(".")) {
+    if (!/[^\x00-\x7f]/.test(label)) {
+      labels.push(label);
+      continue;
+    }
+    try {
+      // The URL parser applies IDNA processing to host names
+      labels.push(new URL(`http://${label}`).hostname);
+    } catch {
+      return null;
+    }
+  }
+  return labels.join(".");
+}
+
+/**
+ * Canonicalizes a URL path
+ */
+function canonicalizePath(
+  path: string,
+  hasHost: boolean,
+  options: CanonicalizeUrlOptions
+): string {
+  let result = path;
+
+  if (options.normalizeEncoding ?? true) {
+    result = normalizePercentEncoding(result, /[^\w\-.~!$&'()*+,;=:@/%]/gu);
+  }
+
+  // Relative paths cannot be resolved without a base, so their ".." segments are kept
+  if (
+    (options.resolveDotSegments ?? true) &&
+    (hasHost || result.startsWith("/"))
+  ) {
+    result = removeDotSegments(result);
+  }
+
+  if (options.removeTrailingSlash ?? true) {
+    result = result.replace(/\/+$/, "");
+    // A path without a host still needs its root
+    if (result === "" && !hasHost && path.startsWith("/")) {
+      result = "/";
+    }
+  } else if (result === "" && hasHost) {
+    result = "/";
+  }
+
+  return result;
+}
+
+/**
+ * Canonicalizes a raw query string: removes tracking parameters and sorts by key
+ */
+function canonicalizeQuery(
+  query: string,
+  options: CanonicalizeUrlOptions
+): string {
+  const removeOption = options.removeTrackingParams ?? true;
+  const removeParams =
+    removeOption === true ? TRACKING_PARAMS : removeOption || [];
+  const normalize = options.normalizeEncoding ?? true;
+
+  const pairs = query
+    .split("&")
+    .filter((pair) => pair !== "")
+    .map((pair) =>
+      normalize
+        ? normalizePercentEncoding(pair, /[^\w\-.~!$'()*+,;=:@/?%]/gu)
+        : pair
+    )
+    .filter((pair) => {
+      const key = getQueryPairKey(pair);
+      return !removeParams.some((param) =>
+        typeof param === "string" ? param === key : param.test(key)
+      );
+    });
+
+  if (options.sortQuery ?? true) {
+    // Array.prototype.sort is stable, so repeated keys keep their order
+    pairs.sort((a, b) => {
+      const keyA = getQueryPairKey(a);
+      const keyB = getQueryPairKey(b);
+      return keyA < keyB ? -1 : keyA > keyB ? 1 : 0;
+    });
+  }
+
+  return pairs.join("&");
+}
+
+/**
+ * Gets the decoded key of a raw "key=value" pair
+ */
+function getQueryPairKey(pair: string): string {
+  const separatorIndex = pair.indexOf("=");
+  const key = separatorIndex === -1 ? pair : pair.substring(0, separatorIndex);
+  try {
+    return decodeURIComponent(key.replace(/\+/g, " "));
+  } catch {
+    return key;
+  }
+}
+
+/**
+ * Normalizes percent-encoding: uppercases escapes, decodes unreserved characters
+ * and encodes characters matched by the disallowed pattern
+ */
+function normalizePercentEncoding(value: string, disallowed: RegExp): string {
+  return value
+    .replace(/%([0-9a-fA-F]{2})/g, (escape, hex: string) => {
+      const char = String.fromCharCode(parseInt(hex, 16));
+      return /[A-Za-z0-9\-._~]/.test(char) ? char : `%${hex.toUpperCase()}`;
+    })
+    .replace(/%(?![0-9A-F]{2})/g, "%25")
+    .replace(disallowed, (char) =>
+      // Lone surrogates cannot be encoded as UTF-8; the URL parser writes U+FFFD instead
+      /^[\ud800-\udfff]$/.test(char) ? "%EF%BF%BD" : encodeURIComponent(char)
+    );
+}
@@ -0,0 +1,274 @@
+/**
+ * URL extraction utilities
+ *
+ * Functions for finding URLs in free text and turning them into links
+ */
+
+import { escapeHtml } from "../string";
+import { formatUrl } from "./formatting";
+import { UrlSafetyOptions, checkUrlSafety } from "./safety";
+
+/**
+ * A URL found in free text
+ */
+export interface UrlMatch {
+  /** The matched text as it appears in the input */
+  text: string;
+  /** Index of the first character of the match */
+  start: number;
+  /** Index after the last character of the match */
+  end: number;
+  /** The URL for use in href attributes, as produced by the "link" format style */
+  href: string;
+  /** The URL for display, as produced by the "human" format style */
+  display: string;
+}
+
+/**
+ * Options for extracting URLs
+ */
+export interface ExtractUrlsOptions {
+  /**
+   * Whether to only find URLs that start with "http://" or "https://"
+   * When false, "www." hosts and bare domains with common TLDs ("example.com/path") are found too
+   * @default false
+   */
+  requireProtocol?: boolean;
+  /**
+   * Safety checks for found URLs (see `checkUrlSafety`); unsafe URLs are skipped
+   * @default {}
+   */
+  safety?: UrlSafetyOptions;
+}
+
+/**
+ * Options for linkifying text
+ */
+export interface LinkifyTextOptions extends ExtractUrlsOptions {
+  /**
+   * Value of the target attribute, e.g. "_blank"
+   */
+  target?: string;
+  /**
+   * Value of the rel attribute, or null to leave it out
+   * @default "nofollow noopener noreferrer"
+   */
+  rel?: string | null;
+  /**
+   * Value of the class attribute
+   */
+  className?: string;
+  /**
+   * Maximum length of the displayed query string
+   * @default 50
+   */
+  maxQueryLength?: number;
+  /**
+   * Maximum length of the displayed hash/fragment
+   * @default 30
+   */
+  maxHashLength?: number;
+}
+
+/**
+ * Top-level domains recognized in URLs written without a protocol
+ * File extensions that are also country codes (.md, .py, .rs, .sh, ...) are left out
+ */
+const COMMON_TLDS = [
+  "com",
+  "org",
+  "net",
+  "edu",
+  "gov",
+  "mil",
+  "int",
+  "info",
+  "biz",
+  "io",
+  "co",
+  "dev",
+  "app",
+  "ai",
+  "me",
+  "tv",
+  "xyz",
+  "online",
+  "site",
+  "tech",
+  "store",
+  "blog",
+  "cloud",
+  "us",
+  "ca",
+  "uk",
+  "de",
+  "fr",
+  "es",
+  "it",
+  "nl",
+  "be",
+  "ch",
+  "at",
+  "se",
+  "no",
+  "dk",
+  "fi",
+  "ie",
+  "eu",
+  "ru",
+  "jp",
+  "cn",
+  "kr",
+  "in",
+  "au",
+  "nz",
+  "br",
+  "mx",
+  "za",
+];
+
+/**
+ * Candidate URLs: "http(s)://" URLs, "www." hosts and bare domains with a
+ * common TLD, each followed by an optional port, path, query and fragment
+ */
+const URL_CANDIDATE_REGEX = new RegExp(
+  String.raw`\bhttps?:\/\/[^\s<>"]+|(?<![\w@.\-/])(?:www\.(?:[a-z\d-]+\.)+[a-z]{2,}|(?:[a-z\d-]+\.)+(?:${COMMON_TLDS.join(
+    "|"
+  )}))(?![\w@-])(?::\d{1,5})?(?:[/?#][^\s<>"]*)?`,
+  "gi"
+);
+
+/**
+ * Closing brackets and their opening counterparts
+ */
+const CLOSING_BRACKETS: Record<string, string> = {
+  ")": "(",
+  "]": "[",
+  "}": "{",
+};
+
+/**
+ * Finds URLs in free text
+ *
+ * Trailing punctuation is not part of a URL ("see example.com." finds "example.com"),
+ * and closing brackets are only kept when the URL contains the matching opening bracket,
+ * so URLs written in parentheses and Wikipedia-style URLs both work.
+ *
+ * @param text - The text to scan
+ * @param options - Extraction options
+ * @returns The URLs found, in order of appearance
+ *
+ * @example
+ * ```ts
+ * extractUrls("Docs at https://example.com/docs, or www.example.org.")
+ * // [
+ * //   { text: "https://example.com/docs", start: 8, end: 32, href: "https://example.com/docs", display: "example.com/docs" },
+ * //   { text: "www.example.org", start: 37, end: 52, href: "https://www.example.org", display: "www.example.org" }
+ * // ]
+ *
+ * extractUrls("(see https://en.wikipedia.org/wiki/Mercury_(planet))")[0].text // "https://en.wikipedia.org/wiki/Mercury_(planet)"
+ * extractUrls("Email me at user@example.com") // []
+ * extractUrls("example.com", { requireProtocol: true }) // []
+ * ```
+ */
+export function extractUrls(
+  text: string,
+  options: ExtractUrlsOptions = {}
+): UrlMatch[] {
+  const { requireProtocol = false, safety = {} } = options;
+  const matches: UrlMatch[] = [];
+
+  for (const match of text.matchAll(URL_CANDIDATE_REGEX)) {
+    const candidate = trimTrailingPunctuation(match[0]);
+    if (requireProtocol && !/^https?:\/\//i.test(candidate)) continue;
+
+    // Only keep candidates that parse into a safe URL with a host
+    const { safe, host } = checkUrlSafety(candidate, safety);
+    if (!safe || !host) continue;
+
+    const href = formatUrl<null>(candidate, { style: "link", safety });
+    if (href === null) continue;
+
+    const start = match.index!;
+    matches.push({
+      text: candidate,
+      start,
+      end: start + candidate.length,
+      href,
+      display: formatUrl(candidate, { style: "human" }) ?? candidate,
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Converts the URLs in free text into HTML links
+ *
+ * All text is HTML-escaped with `escapeHtml`. Links point at the "link" format of each
+ * URL and show its "human" format.
+ *
+ * @param text - The text to linkify
+ * @param options - Extraction and link options
+ * @returns HTML with the escaped text and links
+ *
+ * @example
+ * ```ts
+ * linkifyText("Read https://example.com/docs & reply")
+ * // 'Read <a href="https://example.com/docs" rel="nofollow noopener noreferrer">example.com/docs</a> &amp; reply'
+ * linkifyText("(example.com)", { target: "_blank", rel: null })
+ * // '(<a href="https://example.com" target="_blank">example.com</a>)'
+ * linkifyText("<b>no links</b>") // "&lt;b&gt;no links&lt;/b&gt;"
+ * ```
+ */
+export function linkifyText(
+  text: string,
+  options: LinkifyTextOptions = {}
+): string {
+  const rel =
+    options.rel === undefined ? "nofollow noopener noreferrer" : options.rel;
+  const attributes = [
+    options.target ? ` target="${escapeHtml(options.target)}"` : "",
+    rel ? ` rel="${escapeHtml(rel)}"` : "",
+    options.className ? ` class="${escapeHtml(options.className)}"` : "",
+  ].join("");
+
+  let html = "";
+  let lastIndex = 0;
+  extractUrls(text, options).forEach((match) => {
+    const display =
+      formatUrl(match.text, {
+        style: "human",
+        maxQueryLength: options.maxQueryLength,
+        maxHashLength: options.maxHashLength,
+      }) ?? match.display;
+    html += escapeHtml(text.substring(lastIndex, match.start));
+    html += `<a href="${escapeHtml(match.href)}"${attributes}>${escapeHtml(
+      display
+    )}</a>`;
+    lastIndex = match.end;
+  });
+
+  return html + escapeHtml(text.substring(lastIndex));
+}
+
+/**
+ * Removes punctuation that ends a sentence rather than the URL, and closing
+ * brackets that have no opening bracket in the URL
+ */
+function trimTrailingPunctuation(candidate: string): string {
+  let url = candidate;
+  for (;;) {
+    const last = url.charAt(url.length - 1);
+    if (/[.,;:!?'"*]/.test(last)) {
+      url = url.slice(0, -1);
+      continue;
+    }
+    const opening = CLOSING_BRACKETS[last];
+    if (opening && url.split(last).length > url.split(opening).length) {
+      url = url.slice(0, -1);
+      continue;
+    }
+    return url;
+  }
+}
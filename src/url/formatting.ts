@@ -1,15 +1,14 @@
 /**
  * URL formatting utilities
  *
- * This module provides functions for:
- * - Normalizing URL strings for database storage
- * - Formatting URLs for human-readable display
- * - Formatting URLs for use in links (with protocol)
- * - Handling relative, absolute, and full URLs
+ * Functions for normalizing URLs for storage and formatting them for display and links
  */
 
-import { toString, truncate } from "./string";
-import { isNullOrUndefined } from "./is";
+import { toString, truncate } from "../string";
+import { isNullOrUndefined } from "../is";
+import { parseUrl, startsWithDomain } from "./parsing";
+import { CanonicalizeUrlOptions, canonicalizeUrl } from "./canonical";
+import { UrlSafetyOptions, checkUrlSafety } from "./safety";
 
 /**
  * Base options shared by all URL format styles
@@ -66,6 +65,21 @@ interface LinkFormatUrlOptions extends BaseFormatUrlOptions {
    * @default "https"
    */
   defaultProtocol?: "http" | "https";
+  /**
+   * Safety checks run before formatting (see `checkUrlSafety`); unsafe URLs such as
+   * "javascript:" links return the default value. Set to false to skip the checks
+   * @default {}
+   */
+  safety?: UrlSafetyOptions | false;
+}
+
+/**
+ * Options for canonical format (equivalent URLs produce the same string, for dedupe keys)
+ */
+interface CanonicalFormatUrlOptions
+  extends BaseFormatUrlOptions,
+    Omit<CanonicalizeUrlOptions, "defaultValue"> {
+  style: "canonical";
 }
 
 /**
@@ -92,85 +106,9 @@ export type FormatUrlOptions =
   | DatabaseFormatUrlOptions
   | HumanFormatUrlOptions
   | LinkFormatUrlOptions
+  | CanonicalFormatUrlOptions
   | DefaultFormatUrlOptions;
 
-/**
- * Parsed URL components
- * @internal
- */
-interface UrlComponents {
-  url?: URL;
-  path: string;
-  query: string;
-  hash: string;
-  isRelative: boolean;
-  isAbsolute: boolean;
-  isFull: boolean;
-  isProtocolRelative: boolean;
-  originalUrl: string;
-}
-
-/**
- * Parses a URL string into its components using native URL API when possible
- * @internal
- */
-function parseUrl(urlStr: string): UrlComponents {
-  const result: UrlComponents = {
-    path: "",
-    query: "",
-    hash: "",
-    isRelative: false,
-    isAbsolute: false,
-    isFull: false,
-    isProtocolRelative: false,
-    originalUrl: urlStr,
-  };
-
-  // Check if it's a protocol-relative URL (starts with //)
-  if (urlStr.startsWith("//")) {
-    result.isProtocolRelative = true;
-    result.isFull = true;
-    // Don't parse it yet - we'll need the defaultProtocol from options
-    return result;
-  }
-
-  // Check if it's a full URL (has protocol)
-  try {
-    result.url = new URL(urlStr);
-    result.isFull = true;
-    return result;
-  } catch {
-    // Not a full URL, check if it's absolute or relative
-  }
-
-  // Extract hash and query from the string before determining path type
-  let urlWithoutHash = urlStr;
-  const hashIndex = urlStr.indexOf("#");
-  if (hashIndex !== -1) {
-    result.hash = urlStr.substring(hashIndex + 1);
-    urlWithoutHash = urlStr.substring(0, hashIndex);
-  }
-
-  let urlWithoutQuery = urlWithoutHash;
-  const queryIndex = urlWithoutHash.indexOf("?");
-  if (queryIndex !== -1) {
-    result.query = urlWithoutHash.substring(queryIndex + 1);
-    urlWithoutQuery = urlWithoutHash.substring(0, queryIndex);
-  }
-
-  if (urlWithoutQuery.startsWith("/")) {
-    // Absolute path (starts with /)
-    result.isAbsolute = true;
-    result.path = urlWithoutQuery;
-  } else {
-    // Relative path
-    result.isRelative = true;
-    result.path = urlWithoutQuery;
-  }
-
-  return result;
-}
-
 /**
  * Formats a URL according to the specified style
  *
@@ -196,6 +134,11 @@ function parseUrl(urlStr: string): UrlComponents {
  * formatUrl("//example.com/path", { style: "link" }) // "https://example.com/path"
  * formatUrl("/relative/path", { style: "link" }) // "/relative/path" (preserves relative/absolute paths)
  * formatUrl("relative/path", { style: "link" }) // "relative/path" (preserves relative paths)
+ * formatUrl("javascript:alert(1)", { style: "link" }) // null (unsafe, see checkUrlSafety)
+ * formatUrl("http://10.0.0.1", { style: "link", safety: { allowPrivateHosts: false } }) // null
+ *
+ * // Canonical format (for dedupe keys, see canonicalizeUrl for the rules)
+ * formatUrl("HTTPS://Example.com:443/a/../b/?utm_source=x&z=1&a=2", { style: "canonical" }) // "https://example.com/b?a=2&z=1"
  * ```
  */
 export function formatUrl<T extends string | null | undefined>(
@@ -211,12 +154,29 @@ export function formatUrl<T extends string | null | undefined>(
     return defaultValue as string | T;
   }
 
-  const urlStr = toString(url, "").trim();
+  let urlStr = toString(url, "").trim();
 
   if (urlStr === "") {
     return defaultValue as string | T;
   }
 
+  // Canonical format: apply the canonicalization rules
+  if (style === "canonical") {
+    return canonicalizeUrl(urlStr, options as CanonicalFormatUrlOptions);
+  }
+
+  // Link format: unsafe URLs fall back to the default value
+  if (style === "link") {
+    const safety = (options as LinkFormatUrlOptions).safety ?? {};
+    if (safety !== false) {
+      const { url: sanitized } = checkUrlSafety(urlStr, safety);
+      if (sanitized === null) {
+        return defaultValue as string | T;
+      }
+      urlStr = sanitized;
+    }
+  }
+
   const components = parseUrl(urlStr);
 
   // Database format: normalize and preserve full structure
@@ -306,11 +266,7 @@ export function formatUrl<T extends string | null | undefined>(
       // Check if it looks like a domain (has a dot and matches domain pattern)
       // This handles cases like "example.com" or "example.com/path"
       // But preserves relative paths like "path/to/file" or "./file.html"
-      const domainPattern =
-        /^[a-zA-Z0-9]([a-zA-Z0-9-]*[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]*[a-zA-Z0-9])?)+/;
-      const firstPart = components.path.split("/")[0];
-
-      if (domainPattern.test(firstPart) && !components.path.startsWith(".")) {
+      if (startsWithDomain(components.path)) {
         // Looks like a domain without protocol - add default protocol using native URL
         try {
           const url = new URL(`${defaultProtocol}://${urlStr}`);
@@ -0,0 +1,36 @@
+/**
+ * URL utilities
+ *
+ * This module provides functions for:
+ * - Normalizing URL strings for database storage
+ * - Formatting URLs for human-readable display
+ * - Formatting URLs for use in links (with protocol)
+ * - Handling relative, absolute, and full URLs
+ * - Checking and sanitizing user-supplied links
+ * - Finding URLs in free text and linkifying them
+ * - Resolving relative URLs and joining path segments
+ * - Reading, building and merging query strings
+ * - Canonicalizing URLs for deduplication
+ * - Building and matching typed route templates
+ */
+
+// Export formatting functions
+export * from "./formatting";
+
+// Export query string functions
+export * from "./query";
+
+// Export canonicalization functions
+export * from "./canonical";
+
+// Export route template functions
+export * from "./template";
+
+// Export resolution functions
+export * from "./resolution";
+
+// Export safety functions
+export * from "./safety";
+
+// Export extraction functions
+export * from "./extraction";
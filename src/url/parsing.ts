@@ -0,0 +1,223 @@
+/**
+ * URL parsing utilities
+ *
+ * Internal helpers shared by the URL functions
+ */
+
+/**
+ * Parsed URL components
+ * @internal
+ */
+export interface UrlComponents {
+  url?: URL;
+  path: string;
+  query: string;
+  hash: string;
+  isRelative: boolean;
+  isAbsolute: boolean;
+  isFull: boolean;
+  isProtocolRelative: boolean;
+  originalUrl: string;
+}
+
+/**
+ * Parses a URL string into its components using native URL API when possible
+ * @internal
+ */
+export function parseUrl(urlStr: string): UrlComponents {
+  const result: UrlComponents = {
+    path: "",
+    query: "",
+    hash: "",
+    isRelative: false,
+    isAbsolute: false,
+    isFull: false,
+    isProtocolRelative: false,
+    originalUrl: urlStr,
+  };
+
+  // Check if it's a protocol-relative URL (starts with //)
+  if (urlStr.startsWith("//")) {
+    result.isProtocolRelative = true;
+    result.isFull = true;
+    // Don't parse it yet - we'll need the defaultProtocol from options
+    return result;
+  }
+
+  // Check if it's a full URL (has protocol)
+  try {
+    result.url = new URL(urlStr);
+    result.isFull = true;
+    return result;
+  } catch {
+    // Not a full URL, check if it's absolute or relative
+  }
+
+  // Extract hash and query from the string before determining path type
+  let urlWithoutHash = urlStr;
+  const hashIndex = urlStr.indexOf("#");
+  if (hashIndex !== -1) {
+    result.hash = urlStr.substring(hashIndex + 1);
+    urlWithoutHash = urlStr.substring(0, hashIndex);
+  }
+
+  let urlWithoutQuery = urlWithoutHash;
+  const queryIndex = urlWithoutHash.indexOf("?");
+  if (queryIndex !== -1) {
+    result.query = urlWithoutHash.substring(queryIndex + 1);
+    urlWithoutQuery = urlWithoutHash.substring(0, queryIndex);
+  }
+
+  if (urlWithoutQuery.startsWith("/")) {
+    // Absolute path (starts with /)
+    result.isAbsolute = true;
+    result.path = urlWithoutQuery;
+  } else {
+    // Relative path
+    result.isRelative = true;
+    result.path = urlWithoutQuery;
+  }
+
+  return result;
+}
+
+/**
+ * Checks if a scheme-less path starts with something that looks like a domain ("example.com/path")
+ * Paths starting with "." ("./file.html") are never treated as domains
+ * @internal
+ */
+export function startsWithDomain(path: string): boolean {
+  const domainPattern =
+    /^[a-zA-Z0-9]([a-zA-Z0-9-]*[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]*[a-zA-Z0-9])?)+/;
+  const firstPart = path.split("/")[0];
+  return domainPattern.test(firstPart) && !path.startsWith(".");
+}
+
+/**
+ * Removes "." and ".." segments from a path (RFC 3986, section 5.2.4)
+ * ".." never climbs above the root of an absolute path; leading ".." segments of relative paths are kept
+ * @internal
+ */
+export function removeDotSegments(path: string): string {
+  const isAbsolute = path.startsWith("/");
+  const segments = path.split("/");
+  const output: string[] = [];
+
+  segments.forEach((segment, index) => {
+    const isLast = index === segments.length - 1;
+    if (segment === "." || segment === "..") {
+      if (segment === "..") {
+        const canPop = isAbsolute
+          ? output.length > 1
+          : output.length > 0 && output[output.length - 1] !== "..";
+        if (canPop) {
+          output.pop();
+        } else if (!isAbsolute) {
+          output.push("..");
+        }
+      }
+      // "/a/b/.." keeps the trailing slash of the directory it resolves to
+      if (isLast) output.push("");
+      return;
+    }
+    output.push(segment);
+  });
+
+  return output.join("/");
+}
+
+/**
+ * Checks if a string is a bare query string ("?a=1" or "a=1&b=2") rather than a URL or path
+ * @internal
+ */
+export function isQueryString(urlStr: string): boolean {
+  if (urlStr.startsWith("?")) return true;
+  const components = parseUrl(urlStr);
+  return (
+    components.isRelative &&
+    !urlStr.includes("?") &&
+    !urlStr.includes("/") &&
+    /[=&]/.test(urlStr)
+  );
+}
+
+/**
+ * Gets the raw (still encoded) query string of a URL, path or bare query string
+ * @internal
+ */
+export function getUrlQuery(urlStr: string): string {
+  if (isQueryString(urlStr)) {
+    return urlStr.replace(/^\?/, "").split("#")[0];
+  }
+
+  const components = parseUrl(urlStr);
+  if (components.url) {
+    return components.url.search.substring(1);
+  }
+  if (components.isProtocolRelative) {
+    try {
+      return new URL(`https:${urlStr}`).search.substring(1);
+    } catch {
+      return "";
+    }
+  }
+  return components.query;
+}
+
+/**
+ * Gets the decoded top-level parameter name of a raw "key=value" pair ("filter%5Bstatus%5D=open" → "filter")
+ * @internal
+ */
+export function getQueryPairName(pair: string): string {
+  const separatorIndex = pair.indexOf("=");
+  const rawKey =
+    separatorIndex === -1 ? pair : pair.substring(0, separatorIndex);
+  let key = rawKey.replace(/\+/g, " ");
+  try {
+    key = decodeURIComponent(key);
+  } catch {
+    // Keep malformed escapes as written
+  }
+  return key.match(/^([^[\]]+)(?:\[[^[\]]*\])+$/)?.[1] ?? key;
+}
+
+/**
+ * Replaces the query string of a URL, path or bare query string, keeping everything else as written
+ * @internal
+ */
+export function replaceUrlQuery(urlStr: string, query: string): string {
+  if (isQueryString(urlStr)) {
+    const hashIndex = urlStr.indexOf("#");
+    const hash = hashIndex === -1 ? "" : urlStr.substring(hashIndex);
+    const prefix = urlStr.startsWith("?") && query ? "?" : "";
+    return `${prefix}${query}${hash}`;
+  }
+
+  const hashIndex = urlStr.indexOf("#");
+  const hash = hashIndex === -1 ? "" : urlStr.substring(hashIndex);
+  const withoutHash =
+    hashIndex === -1 ? urlStr : urlStr.substring(0, hashIndex);
+  const queryIndex = withoutHash.indexOf("?");
+  const base =
+    queryIndex === -1 ? withoutHash : withoutHash.substring(0, queryIndex);
+  return `${base}${query ? `?${query}` : ""}${hash}`;
+}
+
+/**
+ * Gets the raw (still encoded) path of a URL or path, without the query string or fragment
+ * @internal
+ */
+export function getUrlPath(urlStr: string): string {
+  const components = parseUrl(urlStr);
+  if (components.url) {
+    return components.url.pathname;
+  }
+  if (components.isProtocolRelative) {
+    try {
+      return new URL(`https:${urlStr}`).pathname;
+    } catch {
+      return "";
+    }
+  }
+  return components.path;
+}
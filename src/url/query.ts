@@ -0,0 +1,451 @@
+/**
+ * URL query string utilities
+ *
+ * Functions for reading, building and updating query strings
+ */
+
+import { toString } from "../string";
+import { toNumber } from "../number";
+import { toBoolean } from "../util";
+import { isNullOrUndefined, isPlainObject } from "../is";
+import { hasProperty } from "../object";
+import { getUrlQuery, replaceUrlQuery } from "./parsing";
+
+/**
+ * A value in a query object
+ * - Arrays are written as repeated or bracketed keys (a=1&a=2, a[]=1&a[]=2)
+ * - Nested objects are written with bracket notation (filter[status]=open)
+ * - null, undefined and invalid Date values are left out
+ */
+export type QueryValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | null
+  | undefined
+  | QueryValue[]
+  | { [key: string]: QueryValue };
+
+/**
+ * Query string parameters as an object
+ */
+export type QueryObject = { [key: string]: QueryValue };
+
+/**
+ * Options for parsing query strings
+ */
+export interface ParseQueryOptions {
+  /**
+   * Whether to convert numeric values to numbers (via `toNumber`) and "true"/"false" to booleans (via `toBoolean`)
+   * Values with leading zeros ("007") or beyond safe integer precision stay strings
+   * @default false
+   */
+  coerce?: boolean;
+}
+
+/**
+ * Options for building query strings
+ */
+export interface StringifyQueryOptions {
+  /**
+   * How to write arrays of values
+   * - "brackets": a[]=1&a[]=2
+   * - "repeat": a=1&a=2
+   * @default "brackets"
+   */
+  arrayFormat?: "brackets" | "repeat";
+  /**
+   * Whether to sort keys alphabetically so the same parameters always produce the same string
+   * Array items keep their order
+   * @default true
+   */
+  sort?: boolean;
+}
+
+/**
+ * Keys that would modify object prototypes when assigned
+ */
+const UNSAFE_KEYS = ["__proto__"];
+
+/**
+ * Parses the query string of a URL, path or bare query string into an object
+ *
+ * Repeated keys and keys ending in "[]" become arrays; bracketed keys become nested objects.
+ * Keys keep the order they first appear in.
+ *
+ * @param url - A full URL, a path with a query string, or a query string (with or without "?")
+ * @param options - Parsing options
+ * @returns The query parameters as an object
+ *
+ * @example
+ * ```ts
+ * parseQuery("https://example.com/search?q=shoes&page=2") // { q: "shoes", page: "2" }
+ * parseQuery("?tag=a&tag=b") // { tag: ["a", "b"] }
+ * parseQuery("tag[]=a") // { tag: ["a"] }
+ * parseQuery("filter[status]=open&filter[owner]=me") // { filter: { status: "open", owner: "me" } }
+ * parseQuery("page=2&draft=false&zip=02134", { coerce: true }) // { page: 2, draft: false, zip: "02134" }
+ * parseQuery("/path") // {}
+ * ```
+ */
+export function parseQuery(
+  url: unknown,
+  options: ParseQueryOptions = {}
+): QueryObject {
+  const result: QueryObject = {};
+  if (isNullOrUndefined(url)) {
+    return result;
+  }
+
+  const query = getUrlQuery(toString(url, "").trim());
+
+  query.split("&").forEach((pair) => {
+    const { key, value: rawValue } = readQueryPair(pair);
+    if (key === "") return;
+
+    const value = options.coerce ? coerceQueryValue(rawValue) : rawValue;
+    assignQueryValue(result, parseQueryKey(key), value);
+  });
+
+  Object.keys(result).forEach((key) => {
+    result[key] = toQueryArrays(result[key]);
+  });
+  return result;
+}
+
+/**
+ * Builds a query string (without the leading "?") from an object
+ *
+ * @param query - The query parameters
+ * @param options - Formatting options
+ * @returns The encoded query string, or an empty string if there are no parameters
+ *
+ * @example
+ * ```ts
+ * stringifyQuery({ q: "red shoes", page: 2 }) // "page=2&q=red%20shoes"
+ * stringifyQuery({ tag: ["a", "b"] }) // "tag[]=a&tag[]=b"
+ * stringifyQuery({ tag: ["a", "b"] }, { arrayFormat: "repeat" }) // "tag=a&tag=b"
+ * stringifyQuery({ filter: { status: "open" } }) // "filter[status]=open"
+ * stringifyQuery({ b: 1, a: null, c: undefined }) // "b=1"
+ * stringifyQuery({ b: 1, a: 2 }, { sort: false }) // "b=1&a=2"
+ * ```
+ */
+export function stringifyQuery(
+  query: unknown,
+  options: StringifyQueryOptions = {}
+): string {
+  if (!isPlainObject(query)) {
+    return "";
+  }
+
+  const parts: string[] = [];
+  getQueryKeys(query, options).forEach((key) => {
+    appendQueryPairs(
+      parts,
+      encodeQueryComponent(key),
+      query[key] as QueryValue,
+      options
+    );
+  });
+  return parts.join("&");
+}
+
+/**
+ * Updates the query string of a URL, path or bare query string
+ *
+ * Nested objects are merged; other values replace the existing parameter.
+ * Parameters set to null or undefined are removed. Parameters that are not updated
+ * and the rest of the URL are kept as written.
+ *
+ * @param url - A full URL, a path with a query string, or a query string
+ * @param updates - Parameters to set or remove
+ * @param options - Formatting options for the rebuilt query string
+ * @returns The URL with the merged query string
+ *
+ * @example
+ * ```ts
+ * mergeQuery("https://example.com/search?q=shoes&page=2#results", { page: 3 })
+ * // "https://example.com/search?page=3&q=shoes#results"
+ * mergeQuery("/items?filter[status]=open", { filter: { owner: "me" } }) // "/items?filter[owner]=me&filter[status]=open"
+ * mergeQuery("/items?page=2&sort=name", { page: null }) // "/items?sort=name"
+ * mergeQuery("?a=1", { b: [1, 2] }) // "?a=1&b[]=1&b[]=2"
+ * mergeQuery("/p?x=1&x=2", { y: 1 }) // "/p?x=1&x=2&y=1"
+ * ```
+ */
+export function mergeQuery(
+  url: unknown,
+  updates: QueryObject,
+  options: StringifyQueryOptions = {}
+): string {
+  const urlStr = isNullOrUndefined(url) ? "" : toString(url, "").trim();
+  const merged = mergeQueryObjects(parseQuery(urlStr), updates);
+
+  // Keep the pairs of parameters that are not updated exactly as they were written
+  const written: Record<string, string[]> = {};
+  getUrlQuery(urlStr)
+    .split("&")
+    .forEach((pair) => {
+      const { key } = readQueryPair(pair);
+      if (key === "") return;
+      const name = parseQueryKey(key)[0];
+      if (!hasProperty(written, name)) written[name] = [];
+      written[name].push(pair);
+    });
+
+  const parts: string[] = [];
+  getQueryKeys(merged, options).forEach((key) => {
+    if (!hasProperty(updates, key) && hasProperty(written, key)) {
+      parts.push(...written[key]);
+    } else {
+      appendQueryPairs(parts, encodeQueryComponent(key), merged[key], options);
+    }
+  });
+  return replaceUrlQuery(urlStr, parts.join("&"));
+}
+
+/**
+ * Splits a "key=value" pair and decodes both parts
+ */
+function readQueryPair(pair: string): { key: string; value: string } {
+  const separatorIndex = pair.indexOf("=");
+  if (separatorIndex === -1) {
+    return { key: decodeQueryComponent(pair), value: "" };
+  }
+  return {
+    key: decodeQueryComponent(pair.substring(0, separatorIndex)),
+    value: decodeQueryComponent(pair.substring(separatorIndex + 1)),
+  };
+}
+
+/**
+ * Decodes a query string key or value ("+" is a space)
+ */
+function decodeQueryComponent(value: string): string {
+  const text = value.replace(/\+/g, " ");
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Encodes a query string key or value
+ */
+function encodeQueryComponent(value: string): string {
+  return encodeURIComponent(value);
+}
+
+/**
+ * Converts numeric and boolean strings to numbers and booleans
+ */
+function coerceQueryValue(value: string): string | number | boolean {
+  if (/^-?(?:0|[1-9]\d*)(?:\.\d+)?$/.test(value)) {
+    const num = toNumber(value, 0);
+    return Number.isInteger(num) && !Number.isSafeInteger(num) ? value : num;
+  }
+  if (/^(?:true|false)$/i.test(value)) {
+    return toBoolean(value);
+  }
+  return value;
+}
+
+/**
+ * Splits a bracketed key into its path: "filter[status]" → ["filter", "status"], "a[]" → ["a", ""]
+ */
+function parseQueryKey(key: string): string[] {
+  const match = key.match(/^([^[\]]+)((?:\[[^[\]]*\])+)$/);
+  if (!match) return [key];
+  return [
+    match[1],
+    ...Array.from(match[2].matchAll(/\[([^[\]]*)\]/g), (part) => part[1]),
+  ];
+}
+
+/**
+ * Assigns a value at a key path, collecting repeated keys into arrays
+ * An empty path segment ("a[]") appends to an array
+ */
+function assignQueryValue(
+  target: QueryObject,
+  path: string[],
+  value: QueryValue
+): void {
+  if (path.some((segment) => UNSAFE_KEYS.includes(segment))) return;
+
+  let container: QueryObject | QueryValue[] = target;
+  for (let index = 0; index < path.length; index++) {
+    const segment = path[index];
+    const isLast = index === path.length - 1;
+    const wantsArray = path[index + 1] === "";
+
+    if (Array.isArray(container)) {
+      // Only "[]" segments address arrays; anything else conflicts with earlier values
+      if (segment !== "") return;
+      if (isLast) {
+        container.push(value);
+        return;
+      }
+      const child: QueryObject | QueryValue[] = wantsArray ? [] : {};
+      container.push(child);
+      container = child;
+      continue;
+    }
+
+    // Only own keys count, so "toString" or "valueOf" never reach Object.prototype
+    const existing: QueryValue = hasProperty(container, segment)
+      ? container[segment]
+      : undefined;
+    if (isLast) {
+      if (existing === undefined) {
+        container[segment] = value;
+      } else if (Array.isArray(existing)) {
+        existing.push(value);
+      } else {
+        container[segment] = [existing, value];
+      }
+      return;
+    }
+
+    if (isPlainObject(existing)) {
+      container = existing as QueryObject;
+      continue;
+    }
+    if (Array.isArray(existing)) {
+      if (wantsArray) {
+        container = existing;
+        continue;
+      }
+      // "a[]=1&a[b]=2" adds an object after the earlier values, which later keys fill in
+      const last = existing[existing.length - 1];
+      if (isPlainObject(last)) {
+        container = last as QueryObject;
+      } else {
+        const child: QueryObject = {};
+        existing.push(child);
+        container = child;
+      }
+      continue;
+    }
+
+    // "a=1&a[]=2" and "a=1&a[b]=2" keep the earlier value in an array
+    const child: QueryObject | QueryValue[] = wantsArray ? [] : {};
+    if (existing === undefined) {
+      container[segment] = child;
+    } else if (Array.isArray(child)) {
+      container[segment] = [existing];
+      container = container[segment] as QueryValue[];
+      continue;
+    } else {
+      container[segment] = [existing, child];
+    }
+    container = child;
+  }
+}
+
+/**
+ * Converts objects whose keys are all array indexes ("a[0]=x&a[1]=y") into arrays
+ */
+function toQueryArrays(value: QueryValue): QueryValue {
+  if (Array.isArray(value)) {
+    return value.map(toQueryArrays);
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+  const keys = Object.keys(value);
+  const converted: QueryObject = {};
+  keys.forEach((key) => {
+    converted[key] = toQueryArrays(value[key] as QueryValue);
+  });
+  if (keys.length > 0 && keys.every((key) => /^(?:0|[1-9]\d*)$/.test(key))) {
+    // Integer keys are already enumerated in ascending order
+    return keys.map((key) => converted[key]);
+  }
+  return converted;
+}
+
+/**
+ * Gets the keys of a query object in output order
+ */
+function getQueryKeys(
+  query: Record<string, unknown>,
+  options: StringifyQueryOptions
+): string[] {
+  const keys = Object.keys(query);
+  return (options.sort ?? true) ? keys.sort() : keys;
+}
+
+/**
+ * Appends the encoded "key=value" pairs for a value
+ */
+function appendQueryPairs(
+  parts: string[],
+  prefix: string,
+  value: QueryValue,
+  options: StringifyQueryOptions
+): void {
+  if (isNullOrUndefined(value)) return;
+
+  if (Array.isArray(value)) {
+    const arrayFormat = options.arrayFormat ?? "brackets";
+    value.forEach((item, index) => {
+      if (Array.isArray(item) || isPlainObject(item)) {
+        // Arrays of objects need indexes to keep each object's keys together
+        appendQueryPairs(parts, `${prefix}[${index}]`, item, options);
+      } else {
+        appendQueryPairs(
+          parts,
+          arrayFormat === "brackets" ? `${prefix}[]` : prefix,
+          item,
+          options
+        );
+      }
+    });
+    return;
+  }
+
+  if (isPlainObject(value)) {
+    getQueryKeys(value, options).forEach((key) => {
+      appendQueryPairs(
+        parts,
+        `${prefix}[${encodeQueryComponent(key)}]`,
+        value[key] as QueryValue,
+        options
+      );
+    });
+    return;
+  }
+
+  if (value instanceof Date && isNaN(value.getTime())) return;
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  parts.push(`${prefix}=${encodeQueryComponent(text)}`);
+}
+
+/**
+ * Merges query updates into existing parameters
+ * Nested objects are merged, null/undefined removes a parameter, anything else replaces it
+ */
+function mergeQueryObjects(
+  target: QueryObject,
+  updates: QueryObject
+): QueryObject {
+  const result: QueryObject = { ...target };
+  Object.keys(updates).forEach((key) => {
+    if (UNSAFE_KEYS.includes(key)) return;
+    const update = updates[key];
+    const existing = hasProperty(result, key) ? result[key] : undefined;
+    if (isNullOrUndefined(update)) {
+      delete result[key];
+    } else if (isPlainObject(update) && isPlainObject(existing)) {
+      result[key] = mergeQueryObjects(
+        existing as QueryObject,
+        update as QueryObject
+      );
+    } else {
+      result[key] = update;
+    }
+  });
+  return result;
+}
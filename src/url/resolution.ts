@@ -0,0 +1,211 @@
+/**
+ * URL resolution utilities
+ *
+ * Functions for combining base URLs with relative URLs and path segments
+ */
+
+import { toString } from "../string";
+import { isNullOrUndefined } from "../is";
+import {
+  getQueryPairName,
+  getUrlQuery,
+  parseUrl,
+  removeDotSegments,
+} from "./parsing";
+
+/**
+ * Options for resolving URLs
+ */
+export interface ResolveUrlOptions {
+  /**
+   * Default value to return if both URLs are empty or the result cannot be parsed
+   * @default null
+   */
+  defaultValue?: string | null;
+  /**
+   * Whether to keep the base URL's query parameters (parameters in the relative URL override them)
+   * Parameters are kept exactly as written: the base parameters in their order, then the relative URL's
+   * @default false
+   */
+  keepQuery?: boolean;
+  /**
+   * Whether to keep the base URL's fragment when the relative URL has none
+   * @default false
+   */
+  keepHash?: boolean;
+}
+
+/**
+ * Origin used to resolve against paths that have no host; removed from the result
+ */
+const PLACEHOLDER_ORIGIN = "http://placeholder.invalid";
+
+/**
+ * Resolves a relative URL against a base URL, the way a browser resolves a link (RFC 3986)
+ *
+ * The base can be a full URL, a protocol-relative URL or a path. As in browsers, a
+ * relative path replaces the last segment of a base path that does not end in "/";
+ * use `joinUrlPaths` to append segments instead.
+ *
+ * @param base - The base URL
+ * @param relative - The URL to resolve (relative path, absolute path, protocol-relative or full URL)
+ * @param options - Resolution options
+ * @returns The resolved URL, or the default value if both are empty or invalid
+ *
+ * @example
+ * ```ts
+ * resolveUrl("https://example.com/docs/guide/", "../api?v=2") // "https://example.com/docs/api?v=2"
+ * resolveUrl("https://example.com/docs/guide", "intro") // "https://example.com/docs/intro"
+ * resolveUrl("https://example.com/docs/", "/about#team") // "https://example.com/about#team"
+ * resolveUrl("https://example.com/a", "//cdn.example.com/x.js") // "https://cdn.example.com/x.js"
+ * resolveUrl("//cdn.example.com/lib/", "x.js") // "//cdn.example.com/lib/x.js"
+ * resolveUrl("/api/v1/", "./users/../teams") // "/api/v1/teams"
+ * resolveUrl("https://example.com/a?key=1", "b?page=2", { keepQuery: true }) // "https://example.com/b?key=1&page=2"
+ * ```
+ */
+export function resolveUrl<T extends string | null | undefined>(
+  base: unknown,
+  relative: unknown,
+  options: ResolveUrlOptions = {}
+): string | T {
+  const defaultValue = options.defaultValue ?? (null as T);
+  const baseStr = isNullOrUndefined(base) ? "" : toString(base, "").trim();
+  const relativeStr = isNullOrUndefined(relative)
+    ? ""
+    : toString(relative, "").trim();
+
+  if (baseStr === "" && relativeStr === "") {
+    return defaultValue as string | T;
+  }
+  if (baseStr === "") {
+    return relativeStr;
+  }
+
+  // Bases without a protocol are resolved against a placeholder that is removed afterwards
+  const baseComponents = parseUrl(baseStr);
+  let baseHref = baseStr;
+  if (baseComponents.isProtocolRelative) {
+    baseHref = `https:${baseStr}`;
+  } else if (!baseComponents.url) {
+    baseHref = `${PLACEHOLDER_ORIGIN}${baseStr.startsWith("/") ? "" : "/"}${baseStr}`;
+  }
+
+  let resolved: URL;
+  try {
+    resolved = new URL(relativeStr, baseHref);
+  } catch {
+    return defaultValue as string | T;
+  }
+
+  if (options.keepQuery) {
+    const updated = resolved.search
+      .substring(1)
+      .split("&")
+      .filter((pair) => pair !== "");
+    const updatedNames = updated.map(getQueryPairName);
+    const kept = getUrlQuery(baseStr)
+      .split("&")
+      .filter(
+        (pair) => pair !== "" && !updatedNames.includes(getQueryPairName(pair))
+      );
+    resolved.search = [...kept, ...updated].join("&");
+  }
+
+  if (options.keepHash && !resolved.hash) {
+    const hashIndex = baseStr.indexOf("#");
+    if (hashIndex !== -1) {
+      resolved.hash = baseStr.substring(hashIndex + 1);
+    }
+  }
+
+  let href = resolved.href;
+  if (!baseComponents.url && !/^[a-z][a-z\d+.-]*:/i.test(relativeStr)) {
+    if (resolved.origin === PLACEHOLDER_ORIGIN) {
+      href = href.substring(PLACEHOLDER_ORIGIN.length);
+      // Relative bases resolve to relative paths
+      if (baseComponents.isRelative && !relativeStr.startsWith("/")) {
+        href = href.replace(/^\//, "");
+      }
+    } else {
+      // Keep protocol-relative results protocol-relative
+      href = href.substring(resolved.protocol.length);
+    }
+  }
+
+  return href;
+}
+
+/**
+ * Joins URL path segments with single slashes
+ *
+ * The first segment may be a full or protocol-relative URL. Duplicate slashes are collapsed,
+ * "." and ".." segments are resolved, and the leading slash of the first segment and the
+ * trailing slash of the last segment are kept. Query strings from any segment are combined
+ * and placed at the end; the last fragment wins.
+ *
+ * @param segments - The URL and path segments to join (null, undefined and empty segments are skipped)
+ * @returns The joined URL or path
+ *
+ * @example
+ * ```ts
+ * joinUrlPaths("https://api.example.com/", "/v1/", "/users") // "https://api.example.com/v1/users"
+ * joinUrlPaths("/api/", "v1", "users/") // "/api/v1/users/"
+ * joinUrlPaths("api", "v1", "../v2", 42) // "api/v2/42"
+ * joinUrlPaths("https://api.example.com/v1?key=abc", "users?page=2") // "https://api.example.com/v1/users?key=abc&page=2"
+ * joinUrlPaths("//cdn.example.com", "lib", "x.js") // "//cdn.example.com/lib/x.js"
+ * ```
+ */
+export function joinUrlPaths(...segments: unknown[]): string {
+  const parts = segments
+    .filter((segment) => !isNullOrUndefined(segment))
+    .map((segment) => toString(segment, "").trim())
+    .filter((segment) => segment !== "");
+
+  if (parts.length === 0) {
+    return "";
+  }
+
+  // Keep "https://host" or "//host" of the first segment intact
+  const originMatch = parts[0].match(/^(?:[a-z][a-z\d+.-]*:)?\/\/[^/?#]*/i);
+  const origin = originMatch ? originMatch[0] : "";
+  parts[0] = parts[0].substring(origin.length);
+
+  const paths: string[] = [];
+  const queries: string[] = [];
+  let hash = "";
+  parts.forEach((part) => {
+    const hashIndex = part.indexOf("#");
+    if (hashIndex !== -1) {
+      hash = part.substring(hashIndex);
+      part = part.substring(0, hashIndex);
+    }
+    const queryIndex = part.indexOf("?");
+    if (queryIndex !== -1) {
+      const query = part.substring(queryIndex + 1);
+      if (query) queries.push(query);
+      part = part.substring(0, queryIndex);
+    }
+    paths.push(part);
+  });
+
+  const joined = paths
+    .map((path) => path.replace(/^\/+|\/+$/g, ""))
+    .filter((path) => path !== "")
+    .join("/")
+    .replace(/\/{2,}/g, "/");
+
+  const hasLeadingSlash = origin !== "" || paths[0].startsWith("/");
+  const hasTrailingSlash =
+    joined !== "" && paths[paths.length - 1].endsWith("/");
+
+  let path = removeDotSegments(
+    `${hasLeadingSlash ? "/" : ""}${joined}${hasTrailingSlash ? "/" : ""}`
+  );
+  // A bare origin does not need a root slash
+  if (origin && path === "/" && !hasTrailingSlash) {
+    path = "";
+  }
+
+  const query = queries.length > 0 ? `?${queries.join("&")}` : "";
+  return `${origin}${path}${query}${hash}`;
+}
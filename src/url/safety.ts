@@ -0,0 +1,516 @@
+/**
+ * URL safety utilities
+ *
+ * Functions for checking and sanitizing user-supplied links before rendering them
+ */
+
+import { toString } from "../string";
+import { isNullOrUndefined } from "../is";
+import { startsWithDomain } from "./parsing";
+
+/**
+ * Why a URL was classified as unsafe
+ * - "empty": no URL was provided
+ * - "invalid": the URL could not be parsed
+ * - "disallowed-scheme": the scheme is not in the allowlist (e.g. "javascript:")
+ * - "obfuscated-scheme": the scheme is hidden with entities, percent-encoding, control characters or mixed case
+ * - "relative-url": relative URLs are not allowed
+ * - "mixed-script-host": a host label mixes scripts, e.g. Latin and Cyrillic (a homograph attack)
+ * - "private-host": the host is a private-network, loopback or link-local address
+ */
+export type UrlSafetyReason =
+  | "empty"
+  | "invalid"
+  | "disallowed-scheme"
+  | "obfuscated-scheme"
+  | "relative-url"
+  | "mixed-script-host"
+  | "private-host";
+
+/**
+ * Options for checking URL safety
+ */
+export interface UrlSafetyOptions {
+  /**
+   * Schemes that are allowed (lowercase, without ":")
+   * @default ["http", "https", "mailto", "tel"]
+   */
+  allowedSchemes?: string[];
+  /**
+   * Whether relative URLs ("/path", "page.html", "#section") are allowed
+   * @default true
+   */
+  allowRelative?: boolean;
+  /**
+   * Whether hosts on private networks (localhost, 10.0.0.0/8, 192.168.0.0/16, fc00::/7, ...) are allowed
+   * @default true
+   */
+  allowPrivateHosts?: boolean;
+  /**
+   * Whether host labels may mix scripts (e.g. Latin and Cyrillic)
+   * Latin combined with Chinese, Japanese or Korean scripts is always allowed
+   * @default false
+   */
+  allowMixedScript?: boolean;
+}
+
+/**
+ * Options for sanitizing URLs
+ */
+export interface SanitizeUrlOptions extends UrlSafetyOptions {
+  /**
+   * Default value to return if the URL is empty or unsafe
+   * @default null
+   */
+  defaultValue?: string | null;
+}
+
+/**
+ * Result of checking a URL's safety
+ */
+export interface UrlSafetyResult {
+  /** Whether the URL is safe to render as a link */
+  safe: boolean;
+  /** Why the URL is unsafe, or null if it is safe */
+  reason: UrlSafetyReason | null;
+  /** The sanitized URL (control characters removed), or null if it is unsafe */
+  url: string | null;
+  /** The lowercase scheme after decoding, or null for relative URLs */
+  scheme: string | null;
+  /** The host name (punycode for internationalized hosts), or null if the URL has no host */
+  host: string | null;
+}
+
+/**
+ * Schemes allowed when no allowlist is given
+ */
+const DEFAULT_ALLOWED_SCHEMES = ["http", "https", "mailto", "tel"];
+
+/**
+ * Schemes that run code or embed documents, which are never mistaken for "host:port"
+ */
+const SCRIPT_SCHEMES = ["javascript", "data", "vbscript"];
+
+/**
+ * Named HTML entities that are used to hide URL schemes
+ */
+const HTML_ENTITIES: Record<string, string> = {
+  colon: ":",
+  tab: "\t",
+  newline: "\n",
+  sol: "/",
+  bsol: "\\",
+  period: ".",
+  lpar: "(",
+  rpar: ")",
+  amp: "&",
+  nbsp: "\u00a0",
+};
+
+/**
+ * Characters browsers ignore in URLs, or that render invisibly
+ */
+const INVISIBLE_CHARACTERS =
+  /[\u0000-\u0020\u007f-\u00a0\u00ad\u200b-\u200f\u2028\u2029\u2060\ufeff]/g;
+
+/**
+ * Scripts that may be combined in a single host label (Latin with CJK scripts)
+ */
+const ALLOWED_SCRIPT_COMBINATIONS = [
+  ["Latin", "Han", "Hiragana", "Katakana"],
+  ["Latin", "Han", "Hangul"],
+  ["Latin", "Han", "Bopomofo"],
+];
+
+/**
+ * Scripts detected in host labels
+ */
+const HOST_SCRIPTS = [
+  "Latin",
+  "Cyrillic",
+  "Greek",
+  "Armenian",
+  "Georgian",
+  "Hebrew",
+  "Arabic",
+  "Devanagari",
+  "Bengali",
+  "Tamil",
+  "Thai",
+  "Han",
+  "Hiragana",
+  "Katakana",
+  "Hangul",
+  "Bopomofo",
+].map((script) => ({
+  script,
+  pattern: new RegExp(`\\p{Script=${script}}`, "u"),
+}));
+
+/**
+ * Checks a user-supplied URL and explains why it is unsafe
+ *
+ * Schemes are read the way a browser would after decoding HTML entities and
+ * percent-encoding and dropping whitespace and control characters, so
+ * "jav&#x09;ascript:" and "java%0Ascript:" are treated as "javascript:".
+ *
+ * @param url - The URL to check
+ * @param options - Safety options
+ * @returns The classification, including the sanitized URL when it is safe
+ *
+ * @example
+ * ```ts
+ * checkUrlSafety("https://example.com/a") // { safe: true, reason: null, url: "https://example.com/a", scheme: "https", host: "example.com" }
+ * checkUrlSafety("javascript:alert(1)").reason // "disallowed-scheme"
+ * checkUrlSafety("JaVaScRiPt:alert(1)").reason // "obfuscated-scheme"
+ * checkUrlSafety("jav&#x61;script:alert(1)").reason // "obfuscated-scheme"
+ * checkUrlSafety("https://аpple.com").reason // "mixed-script-host" (Cyrillic "а")
+ * checkUrlSafety("http://192.168.1.1/admin", { allowPrivateHosts: false }).reason // "private-host"
+ * ```
+ */
+export function checkUrlSafety(
+  url: unknown,
+  options: UrlSafetyOptions = {}
+): UrlSafetyResult {
+  const result: UrlSafetyResult = {
+    safe: false,
+    reason: "empty",
+    url: null,
+    scheme: null,
+    host: null,
+  };
+
+  if (isNullOrUndefined(url)) {
+    return result;
+  }
+
+  // Browsers strip surrounding whitespace and control characters and ignore tabs and newlines
+  const cleaned = toString(url, "")
+    .replace(/^[\u0000-\u0020]+|[\u0000-\u0020]+$/g, "")
+    .replace(/[\t\n\r]/g, "");
+  if (cleaned === "") {
+    return result;
+  }
+
+  const literalScheme = getScheme(cleaned);
+  const decodedScheme = getScheme(decodeSchemeText(cleaned));
+  const scheme = decodedScheme?.toLowerCase() ?? null;
+  result.scheme = scheme;
+
+  if (scheme !== null) {
+    const allowedSchemes = (
+      options.allowedSchemes ?? DEFAULT_ALLOWED_SCHEMES
+    ).map((allowed) => allowed.toLowerCase());
+    const isHidden = literalScheme?.toLowerCase() !== scheme;
+    const isMixedCase =
+      literalScheme !== null &&
+      literalScheme !== literalScheme.toLowerCase() &&
+      literalScheme !== literalScheme.toUpperCase();
+
+    if (!allowedSchemes.includes(scheme)) {
+      result.reason =
+        isHidden || isMixedCase ? "obfuscated-scheme" : "disallowed-scheme";
+      return result;
+    }
+    if (isHidden) {
+      result.reason = "obfuscated-scheme";
+      return result;
+    }
+  }
+
+  // Browsers read backslashes as slashes before the query ("/\evil.com" is protocol-relative)
+  const sanitized = cleaned.replace(/^[^?#]*/, (path) =>
+    path.replace(/\\/g, "/")
+  );
+
+  let parseable: string | null = null;
+  if (scheme !== null) {
+    parseable = sanitized;
+  } else if (sanitized.startsWith("//")) {
+    parseable = `https:${sanitized}`;
+  } else if (startsWithDomain(sanitized) || isHostAndPort(sanitized)) {
+    parseable = `https://${sanitized}`;
+  } else if (!(options.allowRelative ?? true)) {
+    result.reason = "relative-url";
+    return result;
+  }
+
+  if (parseable !== null) {
+    let parsed: URL;
+    try {
+      parsed = new URL(parseable);
+    } catch {
+      result.reason = "invalid";
+      return result;
+    }
+
+    const host = parsed.hostname;
+    if (host) {
+      result.host = host;
+      if (!(options.allowMixedScript ?? false) && hasMixedScriptLabel(host)) {
+        result.reason = "mixed-script-host";
+        return result;
+      }
+      if (!(options.allowPrivateHosts ?? true) && isPrivateHost(host)) {
+        result.reason = "private-host";
+        return result;
+      }
+    }
+  }
+
+  result.safe = true;
+  result.reason = null;
+  result.url = sanitized;
+  return result;
+}
+
+/**
+ * Checks if a user-supplied URL is safe to render as a link
+ *
+ * @param url - The URL to check
+ * @param options - Safety options
+ * @returns True if the URL is safe
+ *
+ * @example
+ * ```ts
+ * isSafeUrl("https://example.com") // true
+ * isSafeUrl("/relative/path") // true
+ * isSafeUrl("javascript:alert(1)") // false
+ * isSafeUrl("data:text/html,<script>alert(1)</script>") // false
+ * isSafeUrl("ftp://example.com/file", { allowedSchemes: ["ftp"] }) // true
+ * ```
+ */
+export function isSafeUrl(
+  url: unknown,
+  options: UrlSafetyOptions = {}
+): boolean {
+  return checkUrlSafety(url, options).safe;
+}
+
+/**
+ * Sanitizes a user-supplied URL, returning the default value if it is unsafe
+ *
+ * Safe URLs are returned with surrounding whitespace, control characters, tabs and
+ * newlines removed, and with backslashes in the path read as slashes.
+ *
+ * @param url - The URL to sanitize
+ * @param options - Safety options and the default value
+ * @returns The sanitized URL, or the default value if it is empty or unsafe
+ *
+ * @example
+ * ```ts
+ * sanitizeUrl("  https://example.com/a\n") // "https://example.com/a"
+ * sanitizeUrl("javascript:alert(1)") // null
+ * sanitizeUrl("javascript:alert(1)", { defaultValue: "#" }) // "#"
+ * sanitizeUrl("http://localhost:8080", { allowPrivateHosts: false }) // null
+ * ```
+ */
+export function sanitizeUrl<T extends string | null | undefined>(
+  url: unknown,
+  options: SanitizeUrlOptions = {}
+): string | T {
+  const defaultValue = options.defaultValue ?? (null as T);
+  const { url: sanitized } = checkUrlSafety(url, options);
+  return sanitized ?? (defaultValue as string | T);
+}
+
+/**
+ * Gets the scheme of a URL as written, ignoring "host:port" forms like "localhost:3000"
+ */
+function getScheme(url: string): string | null {
+  const match = url.match(/^([a-z][a-z\d+.-]*):(.*)$/is);
+  if (!match || isHostAndPort(url)) {
+    return null;
+  }
+  return match[1];
+}
+
+/**
+ * Checks if a URL starts with "host:port" ("localhost:3000", "example.com:8080/a") rather than a scheme
+ * Script schemes are never read as hosts, so "javascript:1/alert(1)" keeps its scheme
+ */
+function isHostAndPort(url: string): boolean {
+  const match = url.match(/^([a-z][a-z\d+.-]*):\d+(?:[/?#]|$)/i);
+  if (!match) return false;
+  const host = match[1].toLowerCase();
+  if (SCRIPT_SCHEMES.includes(host)) return false;
+  return host === "localhost" || host.includes(".");
+}
+
+/**
+ * Decodes HTML entities and percent-encoding and removes invisible characters,
+ * repeating until the text stops changing to undo nested encoding
+ */
+function decodeSchemeText(url: string): string {
+  let text = url;
+  for (let pass = 0; pass < 3; pass++) {
+    const decoded = text
+      .replace(
+        /&(?:#(\d+)|#x([0-9a-f]+)|([a-z]+));?/gi,
+        (entity, dec?: string, hex?: string, name?: string) => {
+          if (name) {
+            return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+          }
+          const codePoint = dec ? parseInt(dec, 10) : parseInt(hex!, 16);
+          return codePoint <= 0x10ffff
+            ? String.fromCodePoint(codePoint)
+            : entity;
+        }
+      )
+      .replace(/%([0-9a-f]{2})/gi, (_, hex: string) =>
+        String.fromCharCode(parseInt(hex, 16))
+      )
+      .replace(INVISIBLE_CHARACTERS, "");
+    if (decoded === text) break;
+    text = decoded;
+  }
+  return text;
+}
+
+/**
+ * Checks if any label of a host name mixes scripts
+ */
+function hasMixedScriptLabel(host: string): boolean {
+  return host.split(".").some((label) => {
+    const text = label.startsWith("xn--")
+      ? decodePunycode(label.slice(4))
+      : label;
+    // Labels that are not valid punycode are suspicious in themselves
+    if (text === null) return true;
+
+    const scripts = new Set<string>();
+    for (const char of text) {
+      if (/[\p{Script=Common}\p{Script=Inherited}]/u.test(char)) continue;
+      const match = HOST_SCRIPTS.find(({ pattern }) => pattern.test(char));
+      scripts.add(match ? match.script : "Other");
+    }
+    if (scripts.size <= 1) return false;
+    return !ALLOWED_SCRIPT_COMBINATIONS.some((combination) =>
+      Array.from(scripts).every((script) => combination.includes(script))
+    );
+  });
+}
+
+/**
+ * Decodes a punycode label (without the "xn--" prefix) as described in RFC 3492
+ * Returns null when the label is not valid punycode
+ */
+function decodePunycode(input: string): string | null {
+  const base = 36;
+  const tMin = 1;
+  const tMax = 26;
+  const output: number[] = [];
+  let n = 128;
+  let i = 0;
+  let bias = 72;
+
+  const delimiterIndex = input.lastIndexOf("-");
+  for (let j = 0; j < Math.max(delimiterIndex, 0); j++) {
+    output.push(input.charCodeAt(j));
+  }
+
+  let index = delimiterIndex >= 0 ? delimiterIndex + 1 : 0;
+  while (index < input.length) {
+    const oldI = i;
+    let weight = 1;
+    for (let k = base; ; k += base) {
+      if (index >= input.length) return null;
+      const code = input.charCodeAt(index++);
+      const digit =
+        code >= 48 && code <= 57
+          ? code - 22
+          : code >= 97 && code <= 122
+          ? code - 97
+          : code >= 65 && code <= 90
+          ? code - 65
+          : base;
+      if (digit >= base) return null;
+      i += digit * weight;
+      const t = k <= bias ? tMin : k >= bias + tMax ? tMax : k - bias;
+      if (digit < t) break;
+      weight *= base - t;
+    }
+
+    const length = output.length + 1;
+    bias = adaptPunycodeBias(i - oldI, length, oldI === 0);
+    n += Math.floor(i / length);
+    i %= length;
+    if (n > 0x10ffff) return null;
+    output.splice(i, 0, n);
+    i++;
+  }
+
+  return String.fromCodePoint(...output);
+}
+
+/**
+ * Bias adaptation function from RFC 3492, section 6.1
+ */
+function adaptPunycodeBias(
+  delta: number,
+  numPoints: number,
+  firstTime: boolean
+): number {
+  let value = firstTime ? Math.floor(delta / 700) : Math.floor(delta / 2);
+  value += Math.floor(value / numPoints);
+  let k = 0;
+  while (value > 455) {
+    value = Math.floor(value / 35);
+    k += 36;
+  }
+  return k + Math.floor((36 * value) / (value + 38));
+}
+
+/**
+ * Checks if a host name is a private-network, loopback, link-local or single-label host
+ * Host names are expected in the normalized form produced by the URL parser
+ */
+function isPrivateHost(hostname: string): boolean {
+  // Fully-qualified names ("localhost.") resolve like the name without the trailing dot
+  const host = hostname
+    .toLowerCase()
+    .replace(/^\[|\]$/g, "")
+    .replace(/\.$/, "");
+
+  if (
+    host === "localhost" ||
+    /\.(?:localhost|local|internal|home\.arpa)$/.test(host)
+  ) {
+    return true;
+  }
+
+  const ipv4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168)
+    );
+  }
+
+  if (host.includes(":")) {
+    // IPv4-mapped addresses ("::ffff:7f00:1" is 127.0.0.1)
+    const mapped = host.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mapped) {
+      const high = parseInt(mapped[1], 16);
+      const low = parseInt(mapped[2], 16);
+      return isPrivateHost(
+        `${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`
+      );
+    }
+    return (
+      host === "::" ||
+      host === "::1" ||
+      /^f[cd][0-9a-f]{0,2}:/.test(host) ||
+      /^fe[89ab][0-9a-f]?:/.test(host)
+    );
+  }
+
+  // Single-label hosts ("intranet") only resolve on local networks
+  return !host.includes(".");
+}
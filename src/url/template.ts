@@ -0,0 +1,309 @@
+/**
+ * URL route template utilities
+ *
+ * Typed templates for building paths from params and matching paths back into params
+ */
+
+import { toString } from "../string";
+import { isNullOrUndefined } from "../is";
+import { getUrlPath } from "./parsing";
+import { QueryObject, parseQuery, stringifyQuery } from "./query";
+
+/**
+ * Splits a template into the union of its path segments
+ */
+type UrlTemplateSegment<T extends string> =
+  T extends `${infer Head}/${infer Rest}` ? Head | UrlTemplateSegment<Rest> : T;
+
+/**
+ * Names of the required params in a template (":name")
+ */
+type UrlTemplateRequiredParam<T extends string> =
+  UrlTemplateSegment<T> extends infer S
+    ? S extends `:${infer Name}?`
+      ? never
+      : S extends `:${infer Name}`
+      ? Name
+      : never
+    : never;
+
+/**
+ * Names of the optional params (":name?") and wildcards ("*name", or "*" for an unnamed wildcard) in a template
+ */
+type UrlTemplateOptionalParam<T extends string> =
+  UrlTemplateSegment<T> extends infer S
+    ? S extends `:${infer Name}?`
+      ? Name
+      : S extends `*${infer Name}`
+      ? Name extends ""
+        ? "*"
+        : Name
+      : never
+    : never;
+
+/**
+ * Params accepted when building a URL from a template
+ */
+export type UrlTemplateParams<T extends string> = {
+  [K in UrlTemplateRequiredParam<T>]: string | number;
+} & {
+  [K in UrlTemplateOptionalParam<T>]?: string | number | null;
+};
+
+/**
+ * Params extracted when matching a URL against a template
+ * Optional params and wildcards are undefined when they were not in the URL
+ */
+export type UrlTemplateMatchParams<T extends string> = {
+  [K in UrlTemplateRequiredParam<T>]: string;
+} & {
+  [K in UrlTemplateOptionalParam<T>]?: string;
+};
+
+/**
+ * Result of matching a URL against a template
+ */
+export interface UrlTemplateMatch<T extends string> {
+  /** Decoded path params */
+  params: UrlTemplateMatchParams<T>;
+  /** Parsed query string of the matched URL */
+  query: QueryObject;
+}
+
+/**
+ * A typed URL route template
+ */
+export interface UrlTemplate<T extends string> {
+  /** The template string */
+  readonly template: T;
+  /** Names of the params and wildcards in the template, in order */
+  readonly paramNames: readonly string[];
+  /**
+   * Builds a path from params, encoding each value
+   * Throws if a required param is missing
+   * @param params - Path params (may be omitted when the template has no required params)
+   * @param query - Query string parameters to append (see `stringifyQuery`)
+   * @returns The built path
+   */
+  build(
+    ...args: [UrlTemplateRequiredParam<T>] extends [never]
+      ? [params?: UrlTemplateParams<T>, query?: QueryObject]
+      : [params: UrlTemplateParams<T>, query?: QueryObject]
+  ): string;
+  /**
+   * Matches a URL or path against the template
+   * Only the path is compared; the query string is parsed into `query`
+   * @param url - A full URL or a path
+   * @returns The decoded params and query, or null if the URL does not match
+   */
+  match(url: unknown): UrlTemplateMatch<T> | null;
+  /**
+   * Checks if a URL or path matches the template
+   * @param url - A full URL or a path
+   * @returns True if the URL matches
+   */
+  test(url: unknown): boolean;
+}
+
+/**
+ * A compiled template segment
+ * @internal
+ */
+type TemplateSegment =
+  | { type: "static"; value: string }
+  | { type: "param"; name: string; optional: boolean }
+  | { type: "wildcard"; name: string };
+
+/**
+ * Creates a typed URL route template
+ *
+ * Template syntax (each param takes a whole path segment):
+ * - ":name" - required param
+ * - ":name?" - optional param
+ * - "*name" or "*" - wildcard matching the rest of the path (may be empty, must be last)
+ *
+ * Param names are inferred from the template at the type level.
+ *
+ * @param template - The path template, e.g. "/orgs/:orgId/users/:userId"
+ * @returns A template that builds and matches URLs
+ *
+ * @example
+ * ```ts
+ * const userUrl = createUrlTemplate("/orgs/:orgId/users/:userId");
+ * userUrl.build({ orgId: "acme", userId: 42 }) // "/orgs/acme/users/42"
+ * userUrl.build({ orgId: "a b", userId: 1 }, { tab: "settings" }) // "/orgs/a%20b/users/1?tab=settings"
+ * userUrl.match("https://app.example.com/orgs/acme/users/42?tab=profile")
+ * // { params: { orgId: "acme", userId: "42" }, query: { tab: "profile" } }
+ * userUrl.match("/orgs/acme") // null
+ *
+ * const docsUrl = createUrlTemplate("/docs/:version?/*path");
+ * docsUrl.match("/docs/guide/intro") // { params: { version: "guide", path: "intro" }, query: {} }
+ * docsUrl.build({ path: "guide/intro" }) // "/docs/guide/intro"
+ * ```
+ */
+export function createUrlTemplate<T extends string>(
+  template: T
+): UrlTemplate<T> {
+  const segments = compileTemplate(template);
+  const paramNames = Object.freeze(
+    segments.flatMap((segment) =>
+      segment.type === "static" ? [] : [segment.name]
+    )
+  );
+  const isAbsolute = template.startsWith("/");
+
+  const build = (
+    params: Record<string, unknown> = {},
+    query?: QueryObject
+  ): string => {
+    const parts = segments.flatMap((segment) => {
+      if (segment.type === "static") {
+        return [segment.value];
+      }
+      const value = params[segment.name];
+      const text = isNullOrUndefined(value) ? "" : toString(value, "");
+      if (text === "") {
+        if (segment.type === "param" && !segment.optional) {
+          throw new Error(`Missing URL template param "${segment.name}"`);
+        }
+        return [];
+      }
+      return segment.type === "wildcard"
+        ? text.split("/").map(encodeURIComponent)
+        : [encodeURIComponent(text)];
+    });
+
+    const path = `${isAbsolute ? "/" : ""}${parts.join("/")}`;
+    const queryString = stringifyQuery(query);
+    return queryString ? `${path}?${queryString}` : path;
+  };
+
+  const match = (url: unknown): UrlTemplateMatch<T> | null => {
+    if (isNullOrUndefined(url)) return null;
+    const urlStr = toString(url, "").trim();
+    const parts = splitPath(getUrlPath(urlStr)).map(decodePathSegment);
+    const params: Record<string, string> = {};
+    if (!matchSegments(segments, parts, 0, 0, params)) {
+      return null;
+    }
+    return {
+      params: params as UrlTemplateMatchParams<T>,
+      query: parseQuery(urlStr),
+    };
+  };
+
+  return {
+    template,
+    paramNames,
+    build: build as UrlTemplate<T>["build"],
+    match,
+    test: (url: unknown): boolean => match(url) !== null,
+  };
+}
+
+/**
+ * Compiles a template string into segments
+ * Throws on duplicate param names and wildcards that are not the last segment
+ */
+function compileTemplate(template: string): TemplateSegment[] {
+  const names = new Set<string>();
+  const segments = splitPath(template).map((part): TemplateSegment => {
+    let segment: TemplateSegment;
+    if (part.startsWith(":") && part.length > 1) {
+      const optional = part.endsWith("?");
+      segment = {
+        type: "param",
+        name: part.slice(1, optional ? -1 : undefined),
+        optional,
+      };
+    } else if (part.startsWith("*")) {
+      segment = { type: "wildcard", name: part.slice(1) || "*" };
+    } else {
+      return { type: "static", value: part };
+    }
+    if (names.has(segment.name)) {
+      throw new Error(
+        `Duplicate URL template param "${segment.name}" in "${template}"`
+      );
+    }
+    names.add(segment.name);
+    return segment;
+  });
+
+  const wildcardIndex = segments.findIndex(
+    (segment) => segment.type === "wildcard"
+  );
+  if (wildcardIndex !== -1 && wildcardIndex !== segments.length - 1) {
+    throw new Error(
+      `URL template wildcard must be the last segment in "${template}"`
+    );
+  }
+  return segments;
+}
+
+/**
+ * Splits a path into its segments, ignoring leading and trailing slashes
+ */
+function splitPath(path: string): string[] {
+  const trimmed = path.replace(/^\/+|\/+$/g, "");
+  return trimmed === "" ? [] : trimmed.split("/");
+}
+
+/**
+ * Decodes a path segment, keeping it as written if it is not valid percent-encoding
+ */
+function decodePathSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Matches path parts against template segments, backtracking over optional params
+ */
+function matchSegments(
+  segments: TemplateSegment[],
+  parts: string[],
+  segmentIndex: number,
+  partIndex: number,
+  params: Record<string, string>
+): boolean {
+  if (segmentIndex === segments.length) {
+    return partIndex === parts.length;
+  }
+
+  const segment = segments[segmentIndex];
+  const part = parts[partIndex];
+
+  if (segment.type === "wildcard") {
+    const rest = parts.slice(partIndex).join("/");
+    if (rest !== "") {
+      params[segment.name] = rest;
+    }
+    return true;
+  }
+
+  if (segment.type === "static") {
+    return (
+      part === segment.value &&
+      matchSegments(segments, parts, segmentIndex + 1, partIndex + 1, params)
+    );
+  }
+
+  if (part !== undefined && part !== "") {
+    params[segment.name] = part;
+    if (
+      matchSegments(segments, parts, segmentIndex + 1, partIndex + 1, params)
+    ) {
+      return true;
+    }
+    delete params[segment.name];
+  }
+
+  return (
+    segment.optional &&
+    matchSegments(segments, parts, segmentIndex + 1, partIndex, params)
+  );
+}